@@ -13,6 +13,50 @@ const logLevelSchema = z.enum(LOG_LEVELS);
 // Export LogLevel type
 export type LogLevel = (typeof LOG_LEVELS)[number];
 
+// Define transport modes array
+const TRANSPORT_MODES = ['stdio', 'http'] as const;
+
+// Export TransportMode type
+export type TransportMode = (typeof TRANSPORT_MODES)[number];
+
+// Parse "name=milliseconds" pairs, e.g. "jaql_query=120000,list_dashboards=10000"
+const durationsSchema = z
+    .string()
+    .default('')
+    .transform((value, ctx) => {
+        const durations: Record<string, number> = {};
+        const entries = value
+            .split(',')
+            .map(entry => entry.trim())
+            .filter(Boolean);
+
+        for (const entry of entries) {
+            const [name, ms] = entry.split('=').map(part => part.trim());
+            const durationMs = Number(ms);
+            if (!name || !ms || !Number.isInteger(durationMs) || durationMs < 0) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    message: `Invalid entry "${entry}", expected name=milliseconds`,
+                });
+                return z.NEVER;
+            }
+            durations[name] = durationMs;
+        }
+
+        return durations;
+    });
+
+// Parse comma-separated tool names or globs, e.g. "list_*,get_dashboard"
+const toolPatternsSchema = z
+    .string()
+    .default('')
+    .transform(value =>
+        value
+            .split(',')
+            .map(pattern => pattern.trim())
+            .filter(Boolean)
+    );
+
 // Environment validation schema
 const envSchema = z.object({
     // MCP Server Configuration
@@ -22,10 +66,66 @@ const envSchema = z.object({
 
     // Server Settings
     LOG_LEVEL: logLevelSchema.default('info'),
+    MCP_TRANSPORT: z.enum(TRANSPORT_MODES).default('stdio'),
+    MCP_HTTP_HOST: z.string().default('127.0.0.1'),
+    MCP_HTTP_PORT: z.coerce.number().int().min(0).max(65535).default(3000),
+    MCP_HTTP_PATH: z.string().startsWith('/').default('/mcp'),
+    MCP_HTTP_SESSION_IDLE_MS: z.coerce.number().int().min(0).default(1800000),
+    MCP_HTTP_MAX_SESSIONS: z.coerce.number().int().positive().default(100),
+    MCP_HTTP_AUTH_TOKEN: z.string().default(''),
 
     // Sisense Configuration
     SISENSE_URL: z.string().url().optional(),
     SISENSE_API_KEY: z.string().optional(),
+    SISENSE_USERNAME: z.string().optional(),
+    SISENSE_PASSWORD: z.string().optional(),
+
+    // Sisense Request Resilience
+    SISENSE_RETRY_MAX_ATTEMPTS: z.coerce.number().int().min(1).default(3),
+    SISENSE_RETRY_BASE_DELAY_MS: z.coerce.number().int().min(0).default(250),
+    SISENSE_RETRY_MAX_DELAY_MS: z.coerce.number().int().min(0).default(5000),
+    SISENSE_CIRCUIT_FAILURE_THRESHOLD: z.coerce.number().int().min(1).default(5),
+    SISENSE_CIRCUIT_RESET_MS: z.coerce.number().int().min(0).default(30000),
+
+    // Timeouts
+    SISENSE_REQUEST_TIMEOUT_MS: z.coerce.number().int().positive().default(60000),
+    MCP_TOOL_TIMEOUTS: durationsSchema,
+
+    // Tool responses longer than this many characters are truncated (0 disables)
+    MCP_MAX_RESPONSE_CHARS: z.coerce.number().int().min(0).default(100000),
+
+    // Query Exports
+    MCP_EXPORT_DIR: z.string().min(1).default('exports'),
+    MCP_EXPORT_PAGE_SIZE: z.coerce.number().int().positive().default(10000),
+    MCP_EXPORT_TIMEOUT_MS: z.coerce.number().int().positive().default(1800000),
+
+    // Tool Access: read-only mode hides tools that change Sisense or write files on the server host
+    // (e.g. trigger_build, export_query)
+    MCP_READ_ONLY: z
+        .enum(['true', 'false'])
+        .default('true')
+        .transform(value => value === 'true'),
+    MCP_TOOL_ALLOW: toolPatternsSchema,
+    MCP_TOOL_DENY: toolPatternsSchema,
+    // Replaced by MCP_READ_ONLY; only read to warn that it no longer has any effect
+    MCP_ENABLE_WRITES: z.string().optional(),
+
+    // ElastiCube Builds
+    SISENSE_BUILD_POLL_INTERVAL_MS: z.coerce.number().int().positive().default(5000),
+    SISENSE_BUILD_TIMEOUT_MS: z.coerce.number().int().positive().default(3600000),
+
+    // Response Cache
+    SISENSE_CACHE_ENABLED: z
+        .enum(['true', 'false'])
+        .default('true')
+        .transform(value => value === 'true'),
+    SISENSE_CACHE_MAX_ENTRIES: z.coerce.number().int().min(0).default(500),
+    SISENSE_CACHE_STALE_MS: z.coerce.number().int().min(0).default(300000),
+    SISENSE_CACHE_TTLS: durationsSchema,
+
+    // Dashboards loaded at once when find_field_usage builds its index
+    SISENSE_SCAN_CONCURRENCY: z.coerce.number().int().positive().default(4),
+    SISENSE_SCAN_TIMEOUT_MS: z.coerce.number().int().positive().default(300000),
 
     // Development Settings
     NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
@@ -50,6 +150,7 @@ function parseEnvironment() {
 
 export const env = parseEnvironment() as Environment & {
     LOG_LEVEL: LogLevel;
+    MCP_TRANSPORT: TransportMode;
 };
 
 // Type-safe environment configuration
@@ -70,6 +171,11 @@ export function isTest(): boolean {
     return env.NODE_ENV === 'test';
 }
 
+// Helper function to check if the server is exposed over Streamable HTTP
+export function isHttpTransport(): boolean {
+    return env.MCP_TRANSPORT === 'http';
+}
+
 // Helper function to check if debug mode is enabled
 export function isDebugEnabled(): boolean {
     return env.DEBUG;
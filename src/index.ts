@@ -2,7 +2,7 @@
 
 import { SisenseMCPServer } from './server/mcp-server.js';
 import { logger } from './utils/logger.js';
-import { env, isDevelopment } from './config/environment.js';
+import { env, isDevelopment, isHttpTransport } from './config/environment.js';
 
 async function main(): Promise<void> {
   try {
@@ -11,6 +11,7 @@ async function main(): Promise<void> {
       version: env.MCP_SERVER_VERSION,
       environment: env.NODE_ENV,
       debug: isDevelopment(),
+      transport: env.MCP_TRANSPORT,
     });
 
     // Create and start the MCP server
@@ -48,8 +49,10 @@ async function main(): Promise<void> {
     // Start the server
     await server.start();
 
-    // Keep the process alive
-    process.stdin.resume();
+    // Keep the process alive (the HTTP listener does this on its own)
+    if (!isHttpTransport()) {
+      process.stdin.resume();
+    }
   } catch (error) {
     logger.error('Failed to start Sisense MCP Server', { error });
     process.exit(1);
@@ -0,0 +1,317 @@
+import {
+    createServer,
+    type IncomingMessage,
+    type Server as HttpServer,
+    type ServerResponse,
+} from 'node:http';
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { MCPServerConfig } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { safeParse } from '../utils/json.js';
+
+// Maximum accepted size of a JSON-RPC request body
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const SESSION_HEADER = 'mcp-session-id';
+
+// Longest gap between idle-session sweeps
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// JSON-RPC error codes used for transport-level failures
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const SERVER_BUSY = -32000;
+const INTERNAL_ERROR = -32603;
+
+export type HttpHostConfig = Pick<
+    MCPServerConfig,
+    'host' | 'port' | 'path' | 'sessionIdleMs' | 'maxSessions' | 'authToken'
+>;
+
+interface HttpSession {
+    server: Server;
+    transport: StreamableHTTPServerTransport;
+    lastActiveAt: number;
+}
+
+/**
+ * Serves MCP over Streamable HTTP. Every client session gets its own `Server`
+ * (the SDK binds one transport per server) created through `createServer`.
+ */
+export class StreamableHttpHost {
+    private readonly sessions = new Map<string, HttpSession>();
+    private httpServer: HttpServer | null = null;
+    private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+    constructor(
+        private readonly config: HttpHostConfig,
+        private readonly createServer: () => Server
+    ) {}
+
+    /**
+     * Number of currently open MCP sessions
+     */
+    public get sessionCount(): number {
+        return this.sessions.size;
+    }
+
+    /**
+     * Address the HTTP server is bound to, once started
+     */
+    public get address(): { host: string; port: number } | null {
+        const address = this.httpServer?.address();
+        if (!address || typeof address === 'string') {
+            return null;
+        }
+        return { host: address.address, port: address.port };
+    }
+
+    public async start(): Promise<void> {
+        const httpServer = createServer((req, res) => {
+            this.handleRequest(req, res).catch(error => {
+                logger.error('Unhandled HTTP transport error', {
+                    method: req.method,
+                    url: req.url,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+                sendJsonRpcError(res, 500, INTERNAL_ERROR, 'Internal server error');
+            });
+        });
+
+        await new Promise<void>((resolve, reject) => {
+            httpServer.once('error', reject);
+            httpServer.listen(this.config.port, this.config.host, () => {
+                httpServer.off('error', reject);
+                resolve();
+            });
+        });
+
+        this.httpServer = httpServer;
+        if (this.config.sessionIdleMs > 0) {
+            this.sweepTimer = setInterval(
+                () => void this.closeIdleSessions(),
+                Math.min(this.config.sessionIdleMs, MAX_SWEEP_INTERVAL_MS)
+            );
+            this.sweepTimer.unref();
+        }
+
+        logger.info('Streamable HTTP transport listening', {
+            ...this.address,
+            path: this.config.path,
+            authRequired: this.config.authToken !== '',
+        });
+        if (!this.config.authToken && !isLoopback(this.config.host)) {
+            logger.warn(
+                'Streamable HTTP transport accepts unauthenticated clients on a non-loopback address; set MCP_HTTP_AUTH_TOKEN or put it behind an authenticating proxy',
+                { host: this.config.host }
+            );
+        }
+    }
+
+    /**
+     * Close sessions that have not sent a request within the idle timeout
+     */
+    public async closeIdleSessions(now = Date.now()): Promise<void> {
+        const idle = [...this.sessions].filter(
+            ([, session]) => now - session.lastActiveAt >= this.config.sessionIdleMs
+        );
+
+        for (const [id] of idle) {
+            this.sessions.delete(id);
+        }
+        if (idle.length > 0) {
+            logger.info('Closed idle MCP HTTP sessions', {
+                closedSessions: idle.length,
+                activeSessions: this.sessions.size,
+            });
+        }
+
+        await Promise.allSettled(idle.map(([, session]) => session.server.close()));
+    }
+
+    public async stop(): Promise<void> {
+        if (this.sweepTimer) {
+            clearInterval(this.sweepTimer);
+            this.sweepTimer = null;
+        }
+
+        const sessions = [...this.sessions.values()];
+        this.sessions.clear();
+
+        await Promise.allSettled(sessions.map(session => session.server.close()));
+
+        const httpServer = this.httpServer;
+        this.httpServer = null;
+        if (httpServer) {
+            httpServer.closeAllConnections();
+            await new Promise<void>(resolve => httpServer.close(() => resolve()));
+        }
+
+        logger.info('Streamable HTTP transport stopped', { closedSessions: sessions.length });
+    }
+
+    private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const pathname = new URL(req.url ?? '/', 'http://localhost').pathname;
+        if (pathname !== this.config.path) {
+            res.writeHead(404).end();
+            return;
+        }
+
+        if (!this.isAuthorized(req)) {
+            res.writeHead(401, { 'WWW-Authenticate': 'Bearer' }).end();
+            return;
+        }
+
+        const sessionId = getSessionId(req);
+        logger.debug('HTTP transport request', { method: req.method, sessionId });
+
+        if (req.method === 'POST') {
+            const body = await readJsonBody(req);
+            if (body === undefined) {
+                sendJsonRpcError(
+                    res,
+                    400,
+                    PARSE_ERROR,
+                    'Parse error: invalid or oversized JSON body'
+                );
+                return;
+            }
+
+            if (!sessionId && isInitializeRequest(body)) {
+                if (this.sessions.size >= this.config.maxSessions) {
+                    sendJsonRpcError(
+                        res,
+                        503,
+                        SERVER_BUSY,
+                        'Server busy: too many open sessions, try again later'
+                    );
+                    return;
+                }
+                await this.openSession(req, res, body);
+                return;
+            }
+
+            const session = sessionId ? this.sessions.get(sessionId) : undefined;
+            if (!session) {
+                sendJsonRpcError(res, 400, INVALID_REQUEST, 'Bad Request: no valid session ID');
+                return;
+            }
+
+            session.lastActiveAt = Date.now();
+            await session.transport.handleRequest(req, res, body);
+            return;
+        }
+
+        if (req.method === 'GET' || req.method === 'DELETE') {
+            const session = sessionId ? this.sessions.get(sessionId) : undefined;
+            if (!session) {
+                sendJsonRpcError(res, 400, INVALID_REQUEST, 'Bad Request: no valid session ID');
+                return;
+            }
+
+            session.lastActiveAt = Date.now();
+            await session.transport.handleRequest(req, res);
+            return;
+        }
+
+        res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+    }
+
+    private async openSession(
+        req: IncomingMessage,
+        res: ServerResponse,
+        body: unknown
+    ): Promise<void> {
+        const server = this.createServer();
+        const transport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            onsessioninitialized: id => {
+                this.sessions.set(id, { server, transport, lastActiveAt: Date.now() });
+                logger.info('MCP HTTP session opened', {
+                    sessionId: id,
+                    activeSessions: this.sessions.size,
+                });
+            },
+        });
+
+        transport.onclose = () => {
+            const id = transport.sessionId;
+            if (id && this.sessions.delete(id)) {
+                logger.info('MCP HTTP session closed', {
+                    sessionId: id,
+                    activeSessions: this.sessions.size,
+                });
+            }
+        };
+
+        await server.connect(transport);
+        await transport.handleRequest(req, res, body);
+    }
+
+    private isAuthorized(req: IncomingMessage): boolean {
+        if (!this.config.authToken) {
+            return true;
+        }
+
+        const [scheme, token] = (req.headers.authorization ?? '').split(' ', 2);
+        return scheme?.toLowerCase() === 'bearer' && safeEqual(token ?? '', this.config.authToken);
+    }
+}
+
+// Compare digests so the check takes the same time whatever the token's length and content
+function safeEqual(value: string, expected: string): boolean {
+    const digest = (text: string) => createHash('sha256').update(text).digest();
+    return timingSafeEqual(digest(value), digest(expected));
+}
+
+function isLoopback(host: string): boolean {
+    return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
+
+function getSessionId(req: IncomingMessage): string | undefined {
+    const header = req.headers[SESSION_HEADER];
+    return Array.isArray(header) ? header[0] : header;
+}
+
+/**
+ * Read and parse a JSON request body. Returns undefined when the body is not valid JSON.
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+        const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        size += buffer.length;
+        if (size > MAX_BODY_BYTES) {
+            return undefined;
+        }
+        chunks.push(buffer);
+    }
+
+    const parsed = safeParse<unknown>(Buffer.concat(chunks).toString('utf8'));
+    return parsed === null ? undefined : parsed;
+}
+
+function sendJsonRpcError(
+    res: ServerResponse,
+    status: number,
+    code: number,
+    message: string
+): void {
+    if (res.headersSent) {
+        res.end();
+        return;
+    }
+
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(
+        JSON.stringify({
+            jsonrpc: '2.0',
+            error: { code, message },
+            id: null,
+        })
+    );
+}
@@ -1,35 +1,258 @@
+import { pathToFileURL } from 'node:url';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
     CallToolRequestSchema,
     ListResourcesRequestSchema,
+    ListResourceTemplatesRequestSchema,
     ListToolsRequestSchema,
     ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import type { MCPServerInstance, ToolDefinition, ResourceDefinition } from '../types/index.js';
+import type {
+    DashboardPage,
+    DashFile,
+    MCPServerConfig,
+    MCPServerInstance,
+    ToolDefinition,
+    ResourceDefinition,
+    ResourceTemplateDefinition,
+    ProgressReporter,
+    RenderedFile,
+    ResourceContent,
+    ToolAnnotations,
+    ToolContent,
+    ToolResult,
+} from '../types/index.js';
 import { ValidationError } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 import { safeStringify } from '../utils/json.js';
 import { SisenseService } from '../services/sisense.js';
-import { env } from '../config/environment.js';
+import { env, type TransportMode } from '../config/environment.js';
+import { StreamableHttpHost } from './http-transport.js';
+import { withTimeout } from '../utils/abort.js';
 import {
     validateDashboardId,
     validateCubeId,
+    validateFolderId,
     validateQuery,
-    validateResourceUri,
+    parseResourceUri,
+    validateInput,
+    jaqlQueryInputSchema,
+    getWidgetDataInputSchema,
+    buildQueryInputSchema,
+    listColumnsInputSchema,
+    profileFieldInputSchema,
+    MAX_PROFILE_TOP_N,
+    listDashboardsInputSchema,
+    dashboardListQuerySchema,
+    MAX_DASHBOARD_PAGE_SIZE,
+    outputFormatSchema,
+    exportQueryInputSchema,
+    exportDashboardInputSchema,
+    exportWidgetInputSchema,
+    renderFormatSchema,
+    MAX_RENDER_SIZE,
+    listBuildsInputSchema,
+    triggerBuildInputSchema,
+    dashboardInputSchema,
+    updateDashboardInputSchema,
+    duplicateDashboardInputSchema,
+    addWidgetInputSchema,
+    updateWidgetInputSchema,
+    deleteWidgetInputSchema,
+    exportDashboardDefinitionInputSchema,
+    importDashboardDefinitionInputSchema,
+    diffDashboardsInputSchema,
+    findFieldUsageInputSchema,
 } from '../utils/validation.js';
+import { decodeCursor, encodeCursor } from '../utils/pagination.js';
+import { summarizeCubeSchema } from '../utils/cube-schema.js';
+import { RESOURCE_TEMPLATES } from '../utils/resource-templates.js';
+import { truncateResponse, type TruncationOptions } from '../utils/truncation.js';
+import { EXPORT_MIME_TYPES, writeExport } from '../utils/export-writer.js';
+import { ToolPolicy } from '../utils/tool-policy.js';
+import { DASH_MIME_TYPE, readDashFile, writeDashFile } from '../utils/dash-file.js';
+import { diffDashboards } from '../utils/dashboard-diff.js';
+
+// Dashboards per page of resources/list
+const RESOURCE_PAGE_SIZE = 100;
+
+// Shared input schema property for tools backed by cached metadata
+const REFRESH_PROPERTY = {
+    type: 'boolean',
+    description: 'Bypass the response cache and fetch fresh data from Sisense',
+};
+
+// Shared input schema property for tools returning tabular data
+const FORMAT_PROPERTY = {
+    type: 'string',
+    enum: ['json', 'csv', 'markdown'],
+    description:
+        'Output format (default json). csv and markdown render the result as a table; non-tabular results stay json',
+};
+
+// How to fetch rows left out of a truncated response, given the number of rows shown
+const PAGING_HINTS: Record<string, (shownRows: number) => string> = {
+    list_dashboards: () =>
+        'To see the rest, call list_dashboards with the nextCursor above, which continues from the first omitted dashboard, or narrow it with search, ownerId or folderId.',
+    execute_query: shown =>
+        `To see the rest, repeat the query with limit ${shown} and offset increased by ${shown} per call.`,
+    jaql_query: shown =>
+        `To see the rest, repeat the query with jaql.count ${shown} and jaql.offset increased by ${shown} per call, or aggregate to fewer rows.`,
+    build_query: () =>
+        'To see less at a time, lower limit, add filters or group by fewer dimensions.',
+    get_widget_data: () => 'To see less at a time, narrow the data with filter overrides.',
+};
+
+// Annotations for tools that change nothing, only add things (to Sisense or as files on
+// the server host), or may overwrite them
+const READ_ONLY_TOOL: ToolAnnotations = { readOnlyHint: true };
+const ADDITIVE_TOOL: ToolAnnotations = { readOnlyHint: false, destructiveHint: false };
+const DESTRUCTIVE_TOOL: ToolAnnotations = { readOnlyHint: false, destructiveHint: true };
+
+// Input schema properties shared by the dashboard and widget write tools
+const DASHBOARD_LAYOUT_PROPERTY = {
+    type: 'object',
+    description:
+        'Sisense columnar layout: {columns: [{width, cells: [{subcells: [{width, elements: [{widgetid, height}]}]}]}]}, widths in percent',
+};
+
+const DASHBOARD_FILTERS_PROPERTY = {
+    type: 'array',
+    description:
+        'Dashboard filters, each {jaql: {dim, datatype, title, filter}}, e.g. {"jaql": {"dim": "[Commerce.Country]", "datatype": "text", "filter": {"members": ["France"]}}}',
+    items: { type: 'object' },
+};
+
+const WIDGET_PROPERTIES = {
+    type: {
+        type: 'string',
+        description:
+            'Widget type, e.g. "indicator", "chart/column", "chart/bar", "chart/line", "chart/pie", "tablewidget" or "pivot2"',
+    },
+    subtype: {
+        type: 'string',
+        description: 'Widget subtype, e.g. "bar/stacked" or "indicator/numeric"',
+    },
+    title: { type: 'string', description: 'Widget title' },
+    description: { type: 'string', description: 'Widget description' },
+    datasource: {
+        type: 'string',
+        description: "Cube title or ID (defaults to the dashboard's datasource)",
+    },
+    panels: {
+        type: 'array',
+        description:
+            'Widget panels, each {name, items: [{jaql}]}. Charts use "categories", "values" and "break by"; indicators "value"; pivots "rows", "columns" and "values"; all can have "filters"',
+        items: {
+            type: 'object',
+            properties: {
+                name: { type: 'string' },
+                items: { type: 'array', items: { type: 'object' } },
+            },
+            required: ['name', 'items'],
+        },
+    },
+    style: { type: 'object', description: 'Widget style options' },
+};
+
+// Input schema properties shared by export_dashboard and export_widget
+const RENDER_PROPERTIES = {
+    fileFormat: {
+        type: 'string',
+        enum: ['png', 'pdf'],
+        description: 'png (default) returns an image; pdf returns an embedded PDF resource',
+    },
+    width: {
+        type: 'number',
+        description: `PNG width in pixels (default 1200, max ${MAX_RENDER_SIZE})`,
+    },
+    paperFormat: {
+        type: 'string',
+        enum: ['A4', 'A3', 'Letter', 'Legal', 'Tabloid'],
+        description: 'PDF paper format (default A4)',
+    },
+    paperOrientation: {
+        type: 'string',
+        enum: ['portrait', 'landscape'],
+        description: 'PDF orientation (default portrait)',
+    },
+};
+
+function slugify(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '');
+}
+
+// e.g. "sample-ecommerce-20240501-093000"
+function defaultExportName(datasource: string): string {
+    const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+    return `${slugify(datasource) || 'export'}-${timestamp}`;
+}
+
+// e.g. "sales-overview-64f0c1e2a8b9c3d4e5f60718"; stable, so repeated backups replace each other
+function defaultDashFileName(dash: DashFile): string {
+    const slug = slugify(dash.title).slice(0, 60);
+    return slug ? `${slug}-${dash.oid}` : dash.oid;
+}
+
+// PNGs are returned as images, PDFs as embedded resources
+function toRenderedContent(file: RenderedFile, uri: string): ToolContent[] {
+    return [
+        file.format === 'png'
+            ? { type: 'image', data: file.data, mimeType: file.mimeType }
+            : { type: 'resource', resource: { uri, mimeType: file.mimeType, blob: file.data } },
+        { type: 'text', text: `Rendered ${uri} (${file.mimeType}, ${file.bytes} bytes)` },
+    ];
+}
 
 export class SisenseMCPServer implements MCPServerInstance {
+    /**
+     * Server bound to stdio. In HTTP mode every session gets its own server
+     * from `createServer()`, all sharing the same `SisenseService`.
+     */
     public readonly server: Server;
-    public readonly transport: StdioServerTransport;
+    public readonly transportMode: TransportMode;
+    private readonly config: MCPServerConfig;
     private readonly sisenseService: SisenseService;
+    private readonly toolPolicy: ToolPolicy;
+    private httpHost: StreamableHttpHost | null = null;
 
-    constructor() {
+    constructor(config?: Partial<MCPServerConfig>) {
+        this.config = {
+            name: config?.name ?? env.MCP_SERVER_NAME,
+            version: config?.version ?? env.MCP_SERVER_VERSION,
+            description: config?.description ?? env.MCP_SERVER_DESCRIPTION,
+            host: config?.host ?? env.MCP_HTTP_HOST,
+            port: config?.port ?? env.MCP_HTTP_PORT,
+            path: config?.path ?? env.MCP_HTTP_PATH,
+            sessionIdleMs: config?.sessionIdleMs ?? env.MCP_HTTP_SESSION_IDLE_MS,
+            maxSessions: config?.maxSessions ?? env.MCP_HTTP_MAX_SESSIONS,
+            authToken: config?.authToken ?? env.MCP_HTTP_AUTH_TOKEN,
+            transport: config?.transport ?? env.MCP_TRANSPORT,
+            logLevel: config?.logLevel ?? env.LOG_LEVEL,
+            toolPolicy: config?.toolPolicy ?? {
+                readOnly: env.MCP_READ_ONLY,
+                allow: env.MCP_TOOL_ALLOW,
+                deny: env.MCP_TOOL_DENY,
+            },
+        };
+        this.transportMode = this.config.transport;
+        this.toolPolicy = new ToolPolicy(this.config.toolPolicy);
         this.sisenseService = new SisenseService();
-        this.server = new Server(
+        this.server = this.createServer();
+    }
+
+    /**
+     * Create an MCP server with all request handlers registered
+     */
+    private createServer(): Server {
+        const server = new Server(
             {
-                name: env.MCP_SERVER_NAME,
-                version: env.MCP_SERVER_VERSION,
+                name: this.config.name,
+                version: this.config.version,
             },
             {
                 capabilities: {
@@ -39,13 +262,13 @@ export class SisenseMCPServer implements MCPServerInstance {
             }
         );
 
-        this.transport = new StdioServerTransport();
-        this.setupHandlers();
+        this.setupHandlers(server);
+        return server;
     }
 
-    private setupHandlers(): void {
+    private setupHandlers(server: Server): void {
         // List available tools
-        this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+        server.setRequestHandler(ListToolsRequestSchema, async () => {
             logger.debug('Listing available tools');
             return {
                 tools: this.getAvailableTools(),
@@ -53,25 +276,35 @@ export class SisenseMCPServer implements MCPServerInstance {
         });
 
         // List available resources
-        this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+        server.setRequestHandler(ListResourcesRequestSchema, async (request, extra) => {
             try {
-                logger.debug('Listing available resources');
-                return {
-                    resources: await this.getAvailableResources(),
-                };
+                logger.debug('Listing available resources', { cursor: request.params?.cursor });
+                return await this.getAvailableResources(request.params?.cursor, extra.signal);
             } catch (error) {
                 logger.error('Error listing resources', {
                     error: error instanceof Error ? error.message : String(error),
                 });
+                // A bad cursor is the client's mistake and must not look like an empty list
+                if (error instanceof ValidationError) {
+                    throw error;
+                }
                 return { resources: [] };
             }
         });
 
+        // List resource templates so clients can address resources that are not enumerated
+        server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+            logger.debug('Listing resource templates');
+            return {
+                resourceTemplates: this.getResourceTemplates(),
+            };
+        });
+
         // Read a specific resource
-        this.server.setRequestHandler(ReadResourceRequestSchema, async request => {
+        server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
             try {
                 logger.debug('Reading resource', { uri: request.params.uri });
-                return await this.readResource(request.params.uri);
+                return await this.readResource(request.params.uri, extra.signal);
             } catch (error) {
                 logger.error('Error reading resource', {
                     uri: request.params.uri,
@@ -82,10 +315,37 @@ export class SisenseMCPServer implements MCPServerInstance {
         });
 
         // Call a tool
-        this.server.setRequestHandler(CallToolRequestSchema, async request => {
+        // The SDK aborts extra.signal when the client sends notifications/cancelled
+        server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
             try {
                 logger.debug('Calling tool', { name: request.params.name });
-                return await this.callTool(request.params.name, request.params.arguments ?? {});
+                // Progress notifications are only sent when the client asked for them
+                const progressToken = request.params._meta?.progressToken;
+                const onProgress: ProgressReporter | undefined =
+                    progressToken === undefined
+                        ? undefined
+                        : update =>
+                              extra
+                                  .sendNotification({
+                                      method: 'notifications/progress',
+                                      params: { progressToken, ...update },
+                                  })
+                                  // A lost notification should not fail the tool call
+                                  .catch(error =>
+                                      logger.warn('Failed to send progress notification', {
+                                          name: request.params.name,
+                                          error:
+                                              error instanceof Error
+                                                  ? error.message
+                                                  : String(error),
+                                      })
+                                  );
+                return await this.callTool(
+                    request.params.name,
+                    request.params.arguments ?? {},
+                    extra.signal,
+                    onProgress
+                );
             } catch (error) {
                 logger.error('Tool execution error', {
                     name: request.params.name,
@@ -96,11 +356,22 @@ export class SisenseMCPServer implements MCPServerInstance {
         });
     }
 
+    /**
+     * Tools that the tool policy allows, as advertised to clients
+     */
     private getAvailableTools(): ToolDefinition[] {
+        return this.getToolDefinitions().filter(tool => this.toolPolicy.isAllowed(tool));
+    }
+
+    /**
+     * Every tool this server implements, whether or not the policy allows it
+     */
+    private getToolDefinitions(): ToolDefinition[] {
         return [
             {
                 name: 'get_server_info',
                 description: 'Get information about the Sisense server',
+                annotations: READ_ONLY_TOOL,
                 inputSchema: {
                     type: 'object',
                     properties: {},
@@ -109,22 +380,77 @@ export class SisenseMCPServer implements MCPServerInstance {
             {
                 name: 'list_data_sources',
                 description: 'List all available data sources in Sisense',
+                annotations: READ_ONLY_TOOL,
                 inputSchema: {
                     type: 'object',
-                    properties: {},
+                    properties: {
+                        refresh: REFRESH_PROPERTY,
+                        format: FORMAT_PROPERTY,
+                    },
                 },
             },
             {
                 name: 'list_dashboards',
-                description: 'List all dashboards in Sisense',
+                description:
+                    'List dashboards in Sisense, one page at a time. Returns a compact projection by default and a nextCursor when more pages exist',
+                annotations: READ_ONLY_TOOL,
                 inputSchema: {
                     type: 'object',
-                    properties: {},
+                    properties: {
+                        search: {
+                            type: 'string',
+                            description: 'Only dashboards whose title matches this text',
+                        },
+                        ownerId: {
+                            type: 'string',
+                            description: 'Only dashboards owned by this user ID',
+                        },
+                        folderId: {
+                            type: 'string',
+                            description: 'Only dashboards in this folder',
+                        },
+                        sort: {
+                            type: 'string',
+                            enum: [
+                                'title',
+                                '-title',
+                                'created',
+                                '-created',
+                                'lastUpdated',
+                                '-lastUpdated',
+                                'lastOpened',
+                                '-lastOpened',
+                            ],
+                            description: 'Sort field; prefix with "-" for descending order',
+                        },
+                        fields: {
+                            type: 'array',
+                            items: { type: 'string' },
+                            description:
+                                'Dashboard fields to return (default: oid, title, desc, owner, parentFolder, lastUpdated)',
+                        },
+                        skip: {
+                            type: 'number',
+                            description: 'Number of dashboards to skip',
+                        },
+                        limit: {
+                            type: 'number',
+                            description: `Page size (default 50, max ${MAX_DASHBOARD_PAGE_SIZE})`,
+                        },
+                        cursor: {
+                            type: 'string',
+                            description:
+                                'nextCursor from a previous call; continues that listing with the same filters',
+                        },
+                        refresh: REFRESH_PROPERTY,
+                        format: FORMAT_PROPERTY,
+                    },
                 },
             },
             {
                 name: 'get_dashboard',
                 description: 'Get details of a specific dashboard',
+                annotations: READ_ONLY_TOOL,
                 inputSchema: {
                     type: 'object',
                     properties: {
@@ -139,6 +465,155 @@ export class SisenseMCPServer implements MCPServerInstance {
             {
                 name: 'get_dashboard_widgets',
                 description: 'Get widgets from a specific dashboard',
+                annotations: READ_ONLY_TOOL,
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        dashboardId: {
+                            type: 'string',
+                            description: 'The ID of the dashboard',
+                        },
+                        format: FORMAT_PROPERTY,
+                    },
+                    required: ['dashboardId'],
+                },
+            },
+            {
+                name: 'get_widget_data',
+                description:
+                    "Run a widget's own query (its rows, values, columns and filters, plus the dashboard filters) and return the table of data it displays. Optional filter overrides answer what-if questions; the filters actually applied are returned",
+                annotations: READ_ONLY_TOOL,
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        dashboardId: {
+                            type: 'string',
+                            description: 'The ID of the dashboard containing the widget',
+                        },
+                        widgetId: {
+                            type: 'string',
+                            description: 'The ID of the widget',
+                        },
+                        filters: {
+                            type: 'object',
+                            description:
+                                'Filter overrides keyed by dimension, e.g. {"[Commerce.Region]": {"members": ["EMEA"]}}. Each value is one of: {members, exclude?}, {dateRange: {from?, to?}, level?}, {relative: {period: "last"|"next", count, offset?}, level}, {numericRange: {min?, max?}}. Overrides replace saved filters on the same dimension',
+                            additionalProperties: {
+                                type: 'object',
+                                properties: {
+                                    members: { type: 'array', items: { type: 'string' } },
+                                    exclude: { type: 'boolean' },
+                                    dateRange: {
+                                        type: 'object',
+                                        properties: {
+                                            from: { type: 'string', description: 'ISO date' },
+                                            to: { type: 'string', description: 'ISO date' },
+                                        },
+                                    },
+                                    relative: {
+                                        type: 'object',
+                                        properties: {
+                                            period: { type: 'string', enum: ['last', 'next'] },
+                                            count: { type: 'number' },
+                                            offset: { type: 'number' },
+                                        },
+                                    },
+                                    level: {
+                                        type: 'string',
+                                        enum: ['years', 'quarters', 'months', 'weeks', 'days'],
+                                    },
+                                    numericRange: {
+                                        type: 'object',
+                                        properties: {
+                                            min: { type: 'number' },
+                                            max: { type: 'number' },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        filterMode: {
+                            type: 'string',
+                            enum: ['extend', 'replace'],
+                            description:
+                                'extend (default) keeps the saved dashboard filters on other dimensions; replace drops them',
+                        },
+                        format: FORMAT_PROPERTY,
+                    },
+                    required: ['dashboardId', 'widgetId'],
+                },
+            },
+            {
+                name: 'export_dashboard',
+                description:
+                    'Render a dashboard with Sisense and return it as a PNG image or a PDF document',
+                annotations: READ_ONLY_TOOL,
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        dashboardId: {
+                            type: 'string',
+                            description: 'The ID of the dashboard',
+                        },
+                        ...RENDER_PROPERTIES,
+                    },
+                    required: ['dashboardId'],
+                },
+            },
+            {
+                name: 'export_widget',
+                description:
+                    'Render a single widget with Sisense and return it as a PNG image or a PDF document',
+                annotations: READ_ONLY_TOOL,
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        dashboardId: {
+                            type: 'string',
+                            description: 'The ID of the dashboard containing the widget',
+                        },
+                        widgetId: {
+                            type: 'string',
+                            description: 'The ID of the widget',
+                        },
+                        ...RENDER_PROPERTIES,
+                        height: {
+                            type: 'number',
+                            description: `PNG height in pixels (default 800, max ${MAX_RENDER_SIZE})`,
+                        },
+                    },
+                    required: ['dashboardId', 'widgetId'],
+                },
+            },
+            {
+                name: 'create_dashboard',
+                description:
+                    'Create a dashboard on a datasource, optionally with a layout and dashboard filters. Add widgets to it with add_widget',
+                annotations: ADDITIVE_TOOL,
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        title: { type: 'string', description: 'Dashboard title' },
+                        description: { type: 'string', description: 'Dashboard description' },
+                        datasource: {
+                            type: 'string',
+                            description: 'Cube title or ID, e.g. "Sample ECommerce"',
+                        },
+                        folderId: {
+                            type: 'string',
+                            description: 'The ID of the folder to file the dashboard in',
+                        },
+                        layout: DASHBOARD_LAYOUT_PROPERTY,
+                        filters: DASHBOARD_FILTERS_PROPERTY,
+                    },
+                    required: ['title', 'datasource'],
+                },
+            },
+            {
+                name: 'update_dashboard',
+                description:
+                    "Change a dashboard's title, description, layout or filters. Layout and filters replace the current ones",
+                annotations: DESTRUCTIVE_TOOL,
                 inputSchema: {
                     type: 'object',
                     properties: {
@@ -146,13 +621,229 @@ export class SisenseMCPServer implements MCPServerInstance {
                             type: 'string',
                             description: 'The ID of the dashboard',
                         },
+                        title: { type: 'string', description: 'New title' },
+                        description: { type: 'string', description: 'New description' },
+                        layout: DASHBOARD_LAYOUT_PROPERTY,
+                        filters: DASHBOARD_FILTERS_PROPERTY,
                     },
                     required: ['dashboardId'],
                 },
             },
+            {
+                name: 'duplicate_dashboard',
+                description:
+                    'Copy a dashboard with its widgets, optionally under a new title or in another folder',
+                annotations: ADDITIVE_TOOL,
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        dashboardId: {
+                            type: 'string',
+                            description: 'The ID of the dashboard to copy',
+                        },
+                        title: { type: 'string', description: 'Title of the copy' },
+                        folderId: {
+                            type: 'string',
+                            description: 'The ID of the folder to file the copy in',
+                        },
+                    },
+                    required: ['dashboardId'],
+                },
+            },
+            {
+                name: 'add_widget',
+                description:
+                    'Add a widget to a dashboard and place it on a new row at the bottom of the layout. Use list_columns to find fields for the panels',
+                annotations: ADDITIVE_TOOL,
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        dashboardId: {
+                            type: 'string',
+                            description: 'The ID of the dashboard',
+                        },
+                        ...WIDGET_PROPERTIES,
+                    },
+                    required: ['dashboardId', 'type'],
+                },
+            },
+            {
+                name: 'update_widget',
+                description:
+                    "Change a widget's type, title, description, datasource, panels or style. Panels replace the current ones",
+                annotations: DESTRUCTIVE_TOOL,
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        dashboardId: {
+                            type: 'string',
+                            description: 'The ID of the dashboard containing the widget',
+                        },
+                        widgetId: {
+                            type: 'string',
+                            description: 'The ID of the widget',
+                        },
+                        ...WIDGET_PROPERTIES,
+                    },
+                    required: ['dashboardId', 'widgetId'],
+                },
+            },
+            {
+                name: 'delete_widget',
+                description: 'Delete a widget from a dashboard and remove it from the layout',
+                annotations: DESTRUCTIVE_TOOL,
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        dashboardId: {
+                            type: 'string',
+                            description: 'The ID of the dashboard containing the widget',
+                        },
+                        widgetId: {
+                            type: 'string',
+                            description: 'The ID of the widget',
+                        },
+                    },
+                    required: ['dashboardId', 'widgetId'],
+                },
+            },
+            {
+                name: 'export_dashboard_definition',
+                description:
+                    'Save a dashboard definition with all its widgets to a local .dash file (the Sisense dashboard export format) for backups or version control. Returns a link to the file',
+                annotations: DESTRUCTIVE_TOOL,
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        dashboardId: {
+                            type: 'string',
+                            description: 'The ID of the dashboard',
+                        },
+                        fileName: {
+                            type: 'string',
+                            description:
+                                'File name, .dash extension optional (default: dashboard title and ID)',
+                        },
+                        overwrite: {
+                            type: 'boolean',
+                            description: 'Replace an existing file (default false)',
+                        },
+                    },
+                    required: ['dashboardId'],
+                },
+            },
+            {
+                name: 'import_dashboard_definition',
+                description:
+                    'Restore a dashboard from a local .dash file, optionally pointing its datasources at other cubes. If the dashboard still exists it is overwritten or the import is added as a copy',
+                annotations: DESTRUCTIVE_TOOL,
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        fileName: {
+                            type: 'string',
+                            description: 'Name of a .dash file in the export directory',
+                        },
+                        onConflict: {
+                            type: 'string',
+                            enum: ['overwrite', 'duplicate'],
+                            description:
+                                'When the dashboard exists: duplicate (default) imports a copy, overwrite replaces it',
+                        },
+                        datasourceMap: {
+                            type: 'object',
+                            description:
+                                'Datasource titles used in the file mapped to the cube title or ID to use instead, e.g. {"Sample ECommerce": "ECommerce Prod"}',
+                            additionalProperties: { type: 'string' },
+                        },
+                    },
+                    required: ['fileName'],
+                },
+            },
+            {
+                name: 'diff_dashboards',
+                description:
+                    'Show what changed between two dashboards, or between a local .dash snapshot and the live dashboard: dashboard properties and filters, widgets added or removed, changed widget titles, types and JAQL dimensions, measures and filters, and layout changes. Widgets are matched by ID, then by title',
+                annotations: READ_ONLY_TOOL,
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        dashboardId: {
+                            type: 'string',
+                            description: 'The ID of the dashboard to check (the "after" version)',
+                        },
+                        baseDashboardId: {
+                            type: 'string',
+                            description: 'The ID of the dashboard to compare against',
+                        },
+                        baseFileName: {
+                            type: 'string',
+                            description:
+                                'A .dash snapshot in the export directory to compare against, e.g. one saved with export_dashboard_definition',
+                        },
+                        format: FORMAT_PROPERTY,
+                    },
+                    required: ['dashboardId'],
+                },
+            },
+            {
+                name: 'find_field_usage',
+                description:
+                    'Find every widget and dashboard filter that uses a datasource, table or column, including fields referenced inside formulas. Use before changing the data model to see which dashboards it affects. Scans all dashboards once and caches the index; pass refresh to rebuild it',
+                annotations: READ_ONLY_TOOL,
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        datasource: {
+                            type: 'string',
+                            description: 'Datasource title, e.g. "Sample ECommerce"',
+                        },
+                        table: {
+                            type: 'string',
+                            description: 'Table name, e.g. "Commerce"',
+                        },
+                        column: {
+                            type: 'string',
+                            description:
+                                'Column name, e.g. "Revenue"; combine with table to find one field',
+                        },
+                        refresh: REFRESH_PROPERTY,
+                        format: FORMAT_PROPERTY,
+                    },
+                },
+            },
+            {
+                name: 'list_folders',
+                description:
+                    'List the folder hierarchy as a tree of subfolders and dashboards (with titles and owners). Dashboards outside any folder are listed at the top level',
+                annotations: READ_ONLY_TOOL,
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        refresh: REFRESH_PROPERTY,
+                    },
+                },
+            },
+            {
+                name: 'get_folder_contents',
+                description: 'Get the subfolders and dashboards inside a specific folder',
+                annotations: READ_ONLY_TOOL,
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        folderId: {
+                            type: 'string',
+                            description: 'The ID of the folder',
+                        },
+                        refresh: REFRESH_PROPERTY,
+                    },
+                    required: ['folderId'],
+                },
+            },
             {
                 name: 'execute_query',
                 description: 'Execute a query against Sisense',
+                annotations: READ_ONLY_TOOL,
                 inputSchema: {
                     type: 'object',
                     properties: {
@@ -160,21 +851,207 @@ export class SisenseMCPServer implements MCPServerInstance {
                             type: 'object',
                             description: 'The query object to execute',
                         },
+                        format: FORMAT_PROPERTY,
                     },
                     required: ['query'],
                 },
             },
+            {
+                name: 'jaql_query',
+                description:
+                    'Execute a JAQL query against a Sisense datasource and return column headers and rows',
+                annotations: READ_ONLY_TOOL,
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        datasource: {
+                            type: 'string',
+                            description: 'The title of the datasource (ElastiCube or live model)',
+                        },
+                        jaql: {
+                            type: 'object',
+                            description:
+                                'JAQL document: "metadata" array of {jaql: {dim | formula, agg, filter, ...}, panel}, plus optional "count" and "offset"',
+                            properties: {
+                                metadata: { type: 'array', items: { type: 'object' } },
+                                count: { type: 'number' },
+                                offset: { type: 'number' },
+                                format: { type: 'string', enum: ['json'] },
+                            },
+                            required: ['metadata'],
+                        },
+                        format: FORMAT_PROPERTY,
+                    },
+                    required: ['datasource', 'jaql'],
+                },
+            },
+            {
+                name: 'build_query',
+                description:
+                    'Build a JAQL query from dimensions, aggregated measures, filters, sort and limit. Field names are checked against the data model schema. Executes the query by default; set execute to false to only return the JAQL document',
+                annotations: READ_ONLY_TOOL,
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        datasource: {
+                            type: 'string',
+                            description: 'Cube title or ID, e.g. "Sample ECommerce"',
+                        },
+                        dimensions: {
+                            type: 'array',
+                            description: 'Fields to group by',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    field: {
+                                        type: 'string',
+                                        description: 'Field as "Table.Column"',
+                                    },
+                                    level: {
+                                        type: 'string',
+                                        enum: ['years', 'quarters', 'months', 'weeks', 'days'],
+                                        description: 'Date granularity for date fields',
+                                    },
+                                    title: { type: 'string' },
+                                },
+                                required: ['field'],
+                            },
+                        },
+                        measures: {
+                            type: 'array',
+                            description: 'Aggregated fields',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    field: {
+                                        type: 'string',
+                                        description: 'Field as "Table.Column"',
+                                    },
+                                    aggregation: {
+                                        type: 'string',
+                                        enum: [
+                                            'sum',
+                                            'avg',
+                                            'min',
+                                            'max',
+                                            'median',
+                                            'count',
+                                            'countDistinct',
+                                        ],
+                                    },
+                                    title: { type: 'string' },
+                                },
+                                required: ['field', 'aggregation'],
+                            },
+                        },
+                        filters: {
+                            type: 'object',
+                            description:
+                                'Filters keyed by "[Table.Column]"; same format as get_widget_data filter overrides',
+                        },
+                        sort: {
+                            type: 'object',
+                            properties: {
+                                field: {
+                                    type: 'string',
+                                    description: 'A selected dimension or measure field',
+                                },
+                                direction: { type: 'string', enum: ['asc', 'desc'] },
+                            },
+                            required: ['field', 'direction'],
+                        },
+                        limit: {
+                            type: 'number',
+                            description: 'Maximum number of rows',
+                        },
+                        execute: {
+                            type: 'boolean',
+                            description: 'Run the query (default true) or only return the JAQL',
+                        },
+                        format: FORMAT_PROPERTY,
+                    },
+                    required: ['datasource'],
+                },
+            },
+            {
+                name: 'export_query',
+                description:
+                    'Run a JAQL query and write the full result set to a local CSV or JSON Lines file, fetching it in pages. Returns a file:// link to the file on the server host with its row count and size instead of the rows; clients on other machines cannot open it. Sort the query so pages are stable',
+                annotations: ADDITIVE_TOOL,
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        datasource: {
+                            type: 'string',
+                            description: 'The title of the datasource (ElastiCube or live model)',
+                        },
+                        jaql: {
+                            type: 'object',
+                            description:
+                                'JAQL document as for jaql_query; "count" limits the total rows exported and "offset" sets the first row',
+                            properties: {
+                                metadata: { type: 'array', items: { type: 'object' } },
+                                count: { type: 'number' },
+                                offset: { type: 'number' },
+                            },
+                            required: ['metadata'],
+                        },
+                        fileFormat: {
+                            type: 'string',
+                            enum: ['csv', 'jsonl'],
+                            description: 'File format (default csv)',
+                        },
+                        fileName: {
+                            type: 'string',
+                            description:
+                                'File name without extension (default: datasource and timestamp). Existing files are not overwritten',
+                        },
+                    },
+                    required: ['datasource', 'jaql'],
+                },
+            },
+            {
+                name: 'profile_field',
+                description:
+                    'Profile the values of a field: distinct count, top values with row counts, null ratio, and min/max for numeric and date fields. Useful before building filters',
+                annotations: READ_ONLY_TOOL,
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        datasource: {
+                            type: 'string',
+                            description: 'Cube title or ID, e.g. "Sample ECommerce"',
+                        },
+                        field: {
+                            type: 'string',
+                            description: 'Field as "Table.Column"',
+                        },
+                        topN: {
+                            type: 'number',
+                            description: `Number of most frequent values to return (default 10, max ${MAX_PROFILE_TOP_N})`,
+                        },
+                        refresh: REFRESH_PROPERTY,
+                        format: FORMAT_PROPERTY,
+                    },
+                    required: ['datasource', 'field'],
+                },
+            },
             {
                 name: 'list_cubes',
                 description: 'List all available cubes in Sisense',
+                annotations: READ_ONLY_TOOL,
                 inputSchema: {
                     type: 'object',
-                    properties: {},
+                    properties: {
+                        refresh: REFRESH_PROPERTY,
+                        format: FORMAT_PROPERTY,
+                    },
                 },
             },
             {
                 name: 'get_cube_metadata',
                 description: 'Get metadata for a specific cube',
+                annotations: READ_ONLY_TOOL,
                 inputSchema: {
                     type: 'object',
                     properties: {
@@ -182,6 +1059,123 @@ export class SisenseMCPServer implements MCPServerInstance {
                             type: 'string',
                             description: 'The ID of the cube',
                         },
+                        refresh: REFRESH_PROPERTY,
+                    },
+                    required: ['cubeId'],
+                },
+            },
+            {
+                name: 'list_tables',
+                description: "List the tables in a cube's data model",
+                annotations: READ_ONLY_TOOL,
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        cubeId: {
+                            type: 'string',
+                            description: 'The ID of the cube (data model)',
+                        },
+                        refresh: REFRESH_PROPERTY,
+                        format: FORMAT_PROPERTY,
+                    },
+                    required: ['cubeId'],
+                },
+            },
+            {
+                name: 'list_columns',
+                description:
+                    "List the columns in a cube's data model with their JAQL dimension, data type (text, numeric, datetime, boolean) and role (dimension, or measure for numeric columns)",
+                annotations: READ_ONLY_TOOL,
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        cubeId: {
+                            type: 'string',
+                            description: 'The ID of the cube (data model)',
+                        },
+                        table: {
+                            type: 'string',
+                            description: 'Only list columns of this table',
+                        },
+                        refresh: REFRESH_PROPERTY,
+                        format: FORMAT_PROPERTY,
+                    },
+                    required: ['cubeId'],
+                },
+            },
+            {
+                name: 'get_relations',
+                description:
+                    "List the relations (joins) between tables in a cube's data model, as the columns each relation connects",
+                annotations: READ_ONLY_TOOL,
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        cubeId: {
+                            type: 'string',
+                            description: 'The ID of the cube (data model)',
+                        },
+                        refresh: REFRESH_PROPERTY,
+                        format: FORMAT_PROPERTY,
+                    },
+                    required: ['cubeId'],
+                },
+            },
+            {
+                name: 'list_builds',
+                description:
+                    'List ElastiCube builds with their type, status and start/completion times, optionally for one cube',
+                annotations: READ_ONLY_TOOL,
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        cubeId: {
+                            type: 'string',
+                            description: 'Only builds of this cube (data model)',
+                        },
+                        format: FORMAT_PROPERTY,
+                    },
+                },
+            },
+            {
+                name: 'get_build_status',
+                description:
+                    "Check how fresh a cube's data is: whether it is building, its latest build and when it last built successfully",
+                annotations: READ_ONLY_TOOL,
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        cubeId: {
+                            type: 'string',
+                            description: 'The ID of the cube (data model)',
+                        },
+                    },
+                    required: ['cubeId'],
+                },
+            },
+            {
+                name: 'trigger_build',
+                description:
+                    'Start an ElastiCube build and, by default, wait for it to finish, sending progress notifications while it runs. Only available when the server runs with MCP_READ_ONLY=false',
+                annotations: ADDITIVE_TOOL,
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        cubeId: {
+                            type: 'string',
+                            description: 'The ID of the cube (data model)',
+                        },
+                        buildType: {
+                            type: 'string',
+                            enum: ['full', 'by_table', 'schema_changes'],
+                            description:
+                                'full (default) rebuilds everything, by_table follows per-table settings, schema_changes only rebuilds changed tables',
+                        },
+                        wait: {
+                            type: 'boolean',
+                            description:
+                                'Wait until the build is done, failed or cancelled (default true); false returns right after starting it',
+                        },
                     },
                     required: ['cubeId'],
                 },
@@ -189,64 +1183,151 @@ export class SisenseMCPServer implements MCPServerInstance {
         ];
     }
 
-    private async getAvailableResources(): Promise<ResourceDefinition[]> {
+    private async getAvailableResources(
+        cursor?: string,
+        signal?: AbortSignal
+    ): Promise<{ resources: ResourceDefinition[]; nextCursor?: string }> {
         if (!this.sisenseService.isConfigured()) {
             logger.warn('Sisense not configured, returning empty resources list');
-            return [];
+            return { resources: [] };
         }
 
+        // Decoded outside the try so an invalid cursor is reported instead of swallowed
+        const query = cursor
+            ? decodeCursor(cursor, dashboardListQuerySchema)
+            : { fields: ['oid', 'title', 'desc'], limit: RESOURCE_PAGE_SIZE };
+
         try {
-            const dashboards = await this.sisenseService.getDashboards();
-            return dashboards.map((dashboard: any) => ({
-                uri: `sisense://dashboard/${dashboard.oid}`,
-                name: dashboard.title || `Dashboard ${dashboard.oid}`,
-                description: dashboard.description,
-                mimeType: 'application/json',
-            }));
+            const requestSignal = withTimeout(env.SISENSE_REQUEST_TIMEOUT_MS, signal);
+            const [cubeResources, page] = await Promise.all([
+                // Cubes are few, so they are all listed on the first page
+                cursor ? [] : this.getCubeResources(requestSignal),
+                this.sisenseService.listDashboards(query, { signal: requestSignal }),
+            ]);
+
+            const resources = [
+                ...cubeResources,
+                ...page.dashboards.map(
+                    (dashboard: DashboardPage['dashboards'][number]): ResourceDefinition => ({
+                        uri: `sisense://dashboard/${dashboard['oid']}`,
+                        name:
+                            typeof dashboard['title'] === 'string' && dashboard['title']
+                                ? dashboard['title']
+                                : `Dashboard ${dashboard['oid']}`,
+                        ...(typeof dashboard['desc'] === 'string' && {
+                            description: dashboard['desc'],
+                        }),
+                        mimeType: 'application/json',
+                    })
+                ),
+            ];
+            return page.nextCursor ? { resources, nextCursor: page.nextCursor } : { resources };
         } catch (error) {
             logger.error('Failed to get available resources', { error });
+            return { resources: [] };
+        }
+    }
+
+    private getResourceTemplates(): ResourceTemplateDefinition[] {
+        return Object.values(RESOURCE_TEMPLATES);
+    }
+
+    /**
+     * Cube resources; a failure here should not hide the dashboards
+     */
+    private async getCubeResources(signal: AbortSignal): Promise<ResourceDefinition[]> {
+        try {
+            const cubes = await this.sisenseService.getCubes({ signal });
+            return cubes
+                .filter(cube => typeof cube['oid'] === 'string')
+                .map(cube => ({
+                    uri: `sisense://cube/${cube['oid']}`,
+                    name: `Cube: ${cube['title'] || cube['oid']}`,
+                    description: 'Data model metadata with a summary of its tables and columns',
+                    mimeType: 'application/json',
+                }));
+        } catch (error) {
+            logger.warn('Failed to list cube resources', {
+                error: error instanceof Error ? error.message : String(error),
+            });
             return [];
         }
     }
 
     private async readResource(
-        uri: string
-    ): Promise<{ contents: Array<{ uri: string; mimeType: string; text: string }> }> {
+        uri: string,
+        signal?: AbortSignal
+    ): Promise<{ contents: ResourceContent[] }> {
         try {
-            const validatedUri = validateResourceUri(uri);
-            const parts = validatedUri.split('/');
-            const resourceType = parts[2]; // 'sisense://dashboard/123' -> ['sisense:', '', 'dashboard', '123']
-            const resourceId = parts[3];
-
-            if (!resourceId) {
-                throw new ValidationError(`Invalid resource URI: missing resource ID`, {
-                    uri: validatedUri,
-                });
+            const { type, params } = parseResourceUri(uri);
+            const requestSignal = withTimeout(env.SISENSE_REQUEST_TIMEOUT_MS, signal);
+
+            if (type === 'dashboardExport' || type === 'widgetExport') {
+                const format = validateInput(renderFormatSchema, params['format']);
+                const file =
+                    type === 'dashboardExport'
+                        ? await this.sisenseService.exportDashboard(
+                              params['dashboardId'] as string,
+                              format,
+                              {},
+                              { signal: requestSignal }
+                          )
+                        : await this.sisenseService.exportWidget(
+                              params['dashboardId'] as string,
+                              params['widgetId'] as string,
+                              format,
+                              {},
+                              { signal: requestSignal }
+                          );
+                return { contents: [{ uri, mimeType: file.mimeType, blob: file.data }] };
             }
 
-            let data: Record<string, unknown>;
+            let data: unknown;
+            let summary: string | undefined;
 
-            switch (resourceType) {
+            switch (type) {
                 case 'dashboard':
-                    data = await this.sisenseService.getDashboard(resourceId);
+                    data = await this.sisenseService.getDashboard(params['dashboardId'] as string, {
+                        signal: requestSignal,
+                    });
                     break;
-                default:
-                    throw new ValidationError(`Unsupported resource type: ${resourceType}`, {
-                        uri: validatedUri,
-                        resourceType,
-                        supportedTypes: ['dashboard'],
+                case 'widget':
+                    data = await this.sisenseService.getWidget(
+                        params['dashboardId'] as string,
+                        params['widgetId'] as string,
+                        { signal: requestSignal }
+                    );
+                    break;
+                case 'folder':
+                    data = await this.sisenseService.getFolderContents(
+                        params['folderId'] as string,
+                        {
+                            signal: requestSignal,
+                        }
+                    );
+                    break;
+                case 'cube': {
+                    const cubeId = params['cubeId'] as string;
+                    const metadata = await this.sisenseService.getCubeMetadata(cubeId, {
+                        signal: requestSignal,
                     });
+                    data = metadata;
+                    summary = summarizeCubeSchema(cubeId, metadata);
+                    break;
+                }
             }
 
-            return {
-                contents: [
-                    {
-                        uri: validatedUri,
-                        mimeType: 'application/json',
-                        text: safeStringify(data, 2),
-                    },
-                ],
-            };
+            const contents: ResourceContent[] = [
+                {
+                    uri,
+                    mimeType: 'application/json',
+                    text: safeStringify(data, 2),
+                },
+            ];
+            if (summary) {
+                contents.push({ uri, mimeType: 'text/plain', text: summary });
+            }
+            return { contents };
         } catch (error) {
             logger.error('Failed to read resource', {
                 uri,
@@ -256,44 +1337,382 @@ export class SisenseMCPServer implements MCPServerInstance {
         }
     }
 
+    /**
+     * Timeout for a whole tool call, including retries
+     */
+    private getToolTimeout(name: string): number {
+        const defaults: Record<string, number> = {
+            trigger_build: env.SISENSE_BUILD_TIMEOUT_MS,
+            find_field_usage: env.SISENSE_SCAN_TIMEOUT_MS,
+            export_query: env.MCP_EXPORT_TIMEOUT_MS,
+        };
+        return env.MCP_TOOL_TIMEOUTS[name] ?? defaults[name] ?? env.SISENSE_REQUEST_TIMEOUT_MS;
+    }
+
     private async callTool(
         name: string,
-        args: Record<string, unknown>
-    ): Promise<{ content: Array<{ type: string; text: string }> }> {
+        args: Record<string, unknown>,
+        cancelSignal?: AbortSignal,
+        onProgress?: ProgressReporter
+    ): Promise<ToolResult> {
         try {
+            const tool = this.getToolDefinitions().find(definition => definition.name === name);
+            if (tool) {
+                this.toolPolicy.assertAllowed(tool);
+            }
+
+            const signal = withTimeout(this.getToolTimeout(name), cancelSignal);
+            const refresh = args['refresh'] === true;
+            const format = validateInput(outputFormatSchema.optional(), args['format']);
             let result: unknown;
+            let sliceResult: TruncationOptions['sliceRows'];
 
             switch (name) {
                 case 'get_server_info':
-                    result = await this.sisenseService.getServerInfo();
+                    result = await this.sisenseService.getServerInfo({ signal });
                     break;
                 case 'list_data_sources':
-                    result = await this.sisenseService.getDataSources();
+                    result = await this.sisenseService.getDataSources({ signal, refresh });
                     break;
-                case 'list_dashboards':
-                    result = await this.sisenseService.getDashboards();
+                case 'list_dashboards': {
+                    const {
+                        cursor,
+                        refresh: refreshList,
+                        ...filters
+                    } = validateInput(listDashboardsInputSchema, args);
+                    const query = cursor ? decodeCursor(cursor, dashboardListQuerySchema) : filters;
+                    const page = await this.sisenseService.listDashboards(query, {
+                        signal,
+                        refresh: refreshList === true,
+                    });
+                    result = page;
+                    // A truncated page continues from its first omitted dashboard, not the next page
+                    sliceResult = shown => ({
+                        ...page,
+                        dashboards: page.dashboards.slice(0, shown),
+                        nextCursor: encodeCursor({
+                            ...query,
+                            skip: page.skip + shown,
+                            limit: page.limit,
+                        }),
+                    });
                     break;
+                }
                 case 'get_dashboard': {
                     const dashboardId = validateDashboardId(args['dashboardId'] as string);
-                    result = await this.sisenseService.getDashboard(dashboardId);
+                    result = await this.sisenseService.getDashboard(dashboardId, { signal });
                     break;
                 }
                 case 'get_dashboard_widgets': {
                     const widgetDashboardId = validateDashboardId(args['dashboardId'] as string);
-                    result = await this.sisenseService.getDashboardWidgets(widgetDashboardId);
+                    result = await this.sisenseService.getDashboardWidgets(widgetDashboardId, {
+                        signal,
+                    });
+                    break;
+                }
+                case 'get_widget_data': {
+                    const input = validateInput(getWidgetDataInputSchema, args);
+                    result = await this.sisenseService.getWidgetData(
+                        input.dashboardId,
+                        input.widgetId,
+                        { filters: input.filters, filterMode: input.filterMode },
+                        { signal }
+                    );
+                    break;
+                }
+                case 'export_dashboard': {
+                    const { dashboardId, fileFormat, ...render } = validateInput(
+                        exportDashboardInputSchema,
+                        args
+                    );
+                    const renderFormat = fileFormat ?? 'png';
+                    const file = await this.sisenseService.exportDashboard(
+                        dashboardId,
+                        renderFormat,
+                        render,
+                        { signal }
+                    );
+                    return {
+                        content: toRenderedContent(
+                            file,
+                            `sisense://dashboard/${dashboardId}/export.${renderFormat}`
+                        ),
+                    };
+                }
+                case 'export_widget': {
+                    const { dashboardId, widgetId, fileFormat, ...render } = validateInput(
+                        exportWidgetInputSchema,
+                        args
+                    );
+                    const renderFormat = fileFormat ?? 'png';
+                    const file = await this.sisenseService.exportWidget(
+                        dashboardId,
+                        widgetId,
+                        renderFormat,
+                        render,
+                        { signal }
+                    );
+                    return {
+                        content: toRenderedContent(
+                            file,
+                            `sisense://dashboard/${dashboardId}/widget/${widgetId}/export.${renderFormat}`
+                        ),
+                    };
+                }
+                case 'create_dashboard': {
+                    const input = validateInput(dashboardInputSchema, args);
+                    result = await this.sisenseService.createDashboard(input, { signal });
+                    break;
+                }
+                case 'update_dashboard': {
+                    const { dashboardId, ...changes } = validateInput(
+                        updateDashboardInputSchema,
+                        args
+                    );
+                    result = await this.sisenseService.updateDashboard(dashboardId, changes, {
+                        signal,
+                    });
+                    break;
+                }
+                case 'duplicate_dashboard': {
+                    const { dashboardId, ...copy } = validateInput(
+                        duplicateDashboardInputSchema,
+                        args
+                    );
+                    result = await this.sisenseService.duplicateDashboard(dashboardId, copy, {
+                        signal,
+                    });
+                    break;
+                }
+                case 'add_widget': {
+                    const { dashboardId, ...widget } = validateInput(addWidgetInputSchema, args);
+                    result = await this.sisenseService.addWidget(dashboardId, widget, { signal });
+                    break;
+                }
+                case 'update_widget': {
+                    const { dashboardId, widgetId, ...changes } = validateInput(
+                        updateWidgetInputSchema,
+                        args
+                    );
+                    result = await this.sisenseService.updateWidget(
+                        dashboardId,
+                        widgetId,
+                        changes,
+                        { signal }
+                    );
+                    break;
+                }
+                case 'delete_widget': {
+                    const { dashboardId, widgetId } = validateInput(deleteWidgetInputSchema, args);
+                    const layout = await this.sisenseService.deleteWidget(dashboardId, widgetId, {
+                        signal,
+                    });
+                    result = { deleted: true, dashboardId, widgetId, ...layout };
+                    break;
+                }
+                case 'export_dashboard_definition': {
+                    const input = validateInput(exportDashboardDefinitionInputSchema, args);
+                    const dash = await this.sisenseService.getDashboardDefinition(
+                        input.dashboardId,
+                        { signal }
+                    );
+                    const saved = await writeDashFile(dash, {
+                        directory: env.MCP_EXPORT_DIR,
+                        fileName: input.fileName ?? defaultDashFileName(dash),
+                        overwrite: input.overwrite,
+                    });
+                    return {
+                        content: [
+                            {
+                                type: 'resource_link',
+                                uri: pathToFileURL(saved.path).href,
+                                name: saved.fileName,
+                                mimeType: DASH_MIME_TYPE,
+                                size: saved.bytes,
+                            },
+                            { type: 'text', text: safeStringify(saved, 2) },
+                        ],
+                    };
+                }
+                case 'import_dashboard_definition': {
+                    const { fileName, ...importOptions } = validateInput(
+                        importDashboardDefinitionInputSchema,
+                        args
+                    );
+                    const dash = await readDashFile(env.MCP_EXPORT_DIR, fileName);
+                    result = await this.sisenseService.importDashboard(dash, importOptions, {
+                        signal,
+                    });
+                    break;
+                }
+                case 'diff_dashboards': {
+                    const input = validateInput(diffDashboardsInputSchema, args);
+                    let baseSource: string;
+                    let loadBase: Promise<DashFile>;
+                    if (input.baseFileName !== undefined) {
+                        baseSource = `file ${input.baseFileName}`;
+                        loadBase = readDashFile(env.MCP_EXPORT_DIR, input.baseFileName);
+                    } else {
+                        baseSource = `dashboard ${input.baseDashboardId}`;
+                        loadBase = this.sisenseService.getDashboardDefinition(
+                            input.baseDashboardId ?? '',
+                            { signal }
+                        );
+                    }
+                    const [base, current] = await Promise.all([
+                        loadBase,
+                        this.sisenseService.getDashboardDefinition(input.dashboardId, { signal }),
+                    ]);
+                    result = diffDashboards(
+                        { source: baseSource, dash: base },
+                        { source: `dashboard ${input.dashboardId}`, dash: current }
+                    );
+                    break;
+                }
+                case 'find_field_usage': {
+                    const input = validateInput(findFieldUsageInputSchema, args);
+                    result = await this.sisenseService.findFieldUsage(
+                        { datasource: input.datasource, table: input.table, column: input.column },
+                        { signal, refresh }
+                    );
+                    break;
+                }
+                case 'list_folders':
+                    result = await this.sisenseService.getFolderTree({ signal, refresh });
+                    break;
+                case 'get_folder_contents': {
+                    const folderId = validateFolderId(args['folderId'] as string);
+                    result = await this.sisenseService.getFolderContents(folderId, {
+                        signal,
+                        refresh,
+                    });
                     break;
                 }
                 case 'execute_query': {
                     const query = validateQuery(args['query']);
-                    result = await this.sisenseService.executeQuery(query);
+                    result = await this.sisenseService.executeQuery(query, { signal });
+                    break;
+                }
+                case 'jaql_query': {
+                    const input = validateInput(jaqlQueryInputSchema, args);
+                    result = await this.sisenseService.executeJaql(input.datasource, input.jaql, {
+                        signal,
+                    });
+                    break;
+                }
+                case 'build_query': {
+                    const { execute, ...spec } = validateInput(buildQueryInputSchema, args);
+                    const compiled = await this.sisenseService.buildQuery(spec, { signal });
+                    if (execute === false) {
+                        result = compiled;
+                        break;
+                    }
+                    const data = await this.sisenseService.executeJaql(
+                        compiled.datasource,
+                        compiled.jaql,
+                        { signal }
+                    );
+                    result = { jaql: compiled.jaql, ...data };
+                    break;
+                }
+                case 'export_query': {
+                    const input = validateInput(exportQueryInputSchema, args);
+                    const exported = await writeExport(
+                        this.sisenseService.streamJaql(
+                            input.datasource,
+                            input.jaql,
+                            env.MCP_EXPORT_PAGE_SIZE,
+                            { signal }
+                        ),
+                        {
+                            directory: env.MCP_EXPORT_DIR,
+                            fileName: input.fileName ?? defaultExportName(input.datasource),
+                            format: input.fileFormat ?? 'csv',
+                        }
+                    );
+                    return {
+                        content: [
+                            {
+                                type: 'resource_link',
+                                uri: pathToFileURL(exported.path).href,
+                                name: exported.fileName,
+                                mimeType: EXPORT_MIME_TYPES[exported.format],
+                                size: exported.bytes,
+                            },
+                            { type: 'text', text: safeStringify(exported, 2) },
+                        ],
+                    };
+                }
+                case 'profile_field': {
+                    const input = validateInput(profileFieldInputSchema, args);
+                    result = await this.sisenseService.profileField(
+                        input.datasource,
+                        input.field,
+                        input.topN,
+                        { signal, refresh }
+                    );
                     break;
                 }
                 case 'list_cubes':
-                    result = await this.sisenseService.getCubes();
+                    result = await this.sisenseService.getCubes({ signal, refresh });
                     break;
                 case 'get_cube_metadata': {
                     const cubeId = validateCubeId(args['cubeId'] as string);
-                    result = await this.sisenseService.getCubeMetadata(cubeId);
+                    result = await this.sisenseService.getCubeMetadata(cubeId, { signal, refresh });
+                    break;
+                }
+                case 'list_tables': {
+                    const cubeId = validateCubeId(args['cubeId'] as string);
+                    result = await this.sisenseService.listTables(cubeId, { signal, refresh });
+                    break;
+                }
+                case 'list_columns': {
+                    const input = validateInput(listColumnsInputSchema, args);
+                    result = await this.sisenseService.listColumns(input.cubeId, input.table, {
+                        signal,
+                        refresh,
+                    });
+                    break;
+                }
+                case 'get_relations': {
+                    const cubeId = validateCubeId(args['cubeId'] as string);
+                    result = await this.sisenseService.getRelations(cubeId, { signal, refresh });
+                    break;
+                }
+                case 'list_builds': {
+                    const input = validateInput(listBuildsInputSchema, args);
+                    result = await this.sisenseService.listBuilds(input.cubeId, { signal });
+                    break;
+                }
+                case 'get_build_status': {
+                    const cubeId = validateCubeId(args['cubeId'] as string);
+                    result = await this.sisenseService.getBuildStatus(cubeId, { signal });
+                    break;
+                }
+                case 'trigger_build': {
+                    const input = validateInput(triggerBuildInputSchema, args);
+                    const build = await this.sisenseService.triggerBuild(
+                        input.cubeId,
+                        input.buildType ?? 'full',
+                        { signal }
+                    );
+                    if (input.wait === false) {
+                        result = build;
+                        break;
+                    }
+
+                    let polls = 0;
+                    result = await this.sisenseService.waitForBuild(
+                        build.oid,
+                        async update => {
+                            polls++;
+                            await onProgress?.({
+                                progress: polls,
+                                message: `Build ${update.oid} of ${update.cubeTitle ?? update.cubeId}: ${update.status}`,
+                            });
+                        },
+                        { signal }
+                    );
                     break;
                 }
                 default:
@@ -303,14 +1722,21 @@ export class SisenseMCPServer implements MCPServerInstance {
                     });
             }
 
-            return {
-                content: [
-                    {
-                        type: 'text',
-                        text: safeStringify(result, 2),
-                    },
-                ],
-            };
+            const response = truncateResponse(result, {
+                maxChars: env.MCP_MAX_RESPONSE_CHARS,
+                format,
+                pagingHint: PAGING_HINTS[name],
+                sliceRows: sliceResult,
+            });
+            const content: ToolContent[] = [{ type: 'text', text: response.text }];
+            if (response.note) {
+                logger.warn('Tool response truncated', {
+                    name,
+                    maxChars: env.MCP_MAX_RESPONSE_CHARS,
+                });
+                content.push({ type: 'text', text: response.note });
+            }
+            return { content };
         } catch (error) {
             logger.error('Tool execution failed', {
                 name,
@@ -323,16 +1749,34 @@ export class SisenseMCPServer implements MCPServerInstance {
 
     public async start(): Promise<void> {
         logger.info('Starting Sisense MCP Server', {
-            name: env.MCP_SERVER_NAME,
-            version: env.MCP_SERVER_VERSION,
+            name: this.config.name,
+            version: this.config.version,
+            transport: this.transportMode,
+            readOnly: this.config.toolPolicy.readOnly,
         });
+        if (env.MCP_ENABLE_WRITES !== undefined) {
+            logger.warn(
+                'MCP_ENABLE_WRITES is no longer supported and is ignored; set MCP_READ_ONLY=false to enable tools that change Sisense or write files',
+                { readOnly: this.config.toolPolicy.readOnly }
+            );
+        }
+
+        if (this.transportMode === 'http') {
+            this.httpHost = new StreamableHttpHost(this.config, () => this.createServer());
+            await this.httpHost.start();
+        } else {
+            await this.server.connect(new StdioServerTransport());
+        }
 
-        await this.server.connect(this.transport);
         logger.info('Sisense MCP Server started successfully');
     }
 
     public async stop(): Promise<void> {
         logger.info('Stopping Sisense MCP Server');
+        if (this.httpHost) {
+            await this.httpHost.stop();
+            this.httpHost = null;
+        }
         await this.server.close();
         logger.info('Sisense MCP Server stopped');
     }
@@ -1,19 +1,101 @@
-import type { SisenseConfig } from '../types/index.js';
+import type {
+    AddedWidget,
+    BuildStatus,
+    BuildTask,
+    BuildType,
+    CacheCategory,
+    CallOptions,
+    CompiledQuery,
+    DashboardChanges,
+    DashboardImportOptions,
+    DashboardImportResult,
+    DashboardInput,
+    DashboardListQuery,
+    DashFile,
+    DatasourceRef,
+    DuplicateDashboardOptions,
+    DataModelColumn,
+    DataModelRelation,
+    DataModelSchema,
+    DataModelTable,
+    FieldProfile,
+    FieldUsageIndex,
+    FieldUsageQuery,
+    FieldUsageResult,
+    DashboardPage,
+    DashboardSummary,
+    FilterOverrides,
+    FolderNode,
+    FolderTree,
+    JaqlResult,
+    QuerySpec,
+    RenderedFile,
+    RenderFormat,
+    RenderOptions,
+    WidgetChanges,
+    WidgetData,
+    WidgetInput,
+    WidgetLayoutResult,
+    RetryPolicy,
+    SisenseConfig,
+    SisenseServiceOptions,
+} from '../types/index.js';
 import {
+    MCPServerError,
     ConfigurationError,
     ExternalServiceError,
     NetworkError,
     NotFoundError,
     AuthenticationError,
+    TimeoutError,
+    RequestCancelledError,
+    ValidationError,
 } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 import { safeParse } from '../utils/json.js';
+import { getBackoffDelay, parseRetryAfter, sleep } from '../utils/retry.js';
+import { CircuitBreaker } from '../utils/circuit-breaker.js';
+import { ResponseCache } from '../utils/cache.js';
+import { isTimeoutReason, raceSignal, withTimeout } from '../utils/abort.js';
+import { encodeCursor } from '../utils/pagination.js';
+import { isBuildFinished, normalizeBuild, summarizeBuilds } from '../utils/builds.js';
+import { buildWidgetQuery } from '../utils/widget-jaql.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { collectFieldReferences, findFieldUsage } from '../utils/field-usage.js';
+import {
+    addWidgetToLayout,
+    removeWidgetFromLayout,
+    toDashboardPayload,
+    toWidgetPayload,
+} from '../utils/dashboard-payload.js';
+import {
+    getDatasourceTitles,
+    readImportResponse,
+    remapDatasources,
+    toDashFile,
+} from '../utils/dash-file.js';
+import { compileQuery } from '../utils/query-builder.js';
+import { normalizeDataModel } from '../utils/data-model.js';
+import { buildProfileQueries, toFieldProfile } from '../utils/field-profile.js';
 import { env } from '../config/environment.js';
 import {
     validateSisenseConfig,
     validateDashboardId,
     validateCubeId,
+    validateFolderId,
+    validateWidgetId,
+    validateBuildId,
     validateQuery,
+    validateDatasource,
+    validateJaqlQuery,
+    validateInput,
+    dashboardListQuerySchema,
+    dashboardInputSchema,
+    dashboardChangesSchema,
+    widgetInputSchema,
+    widgetChangesSchema,
+    dashFileSchema,
+    fieldUsageQuerySchema,
 } from '../utils/validation.js';
 
 // Type for fetch request options
@@ -21,28 +103,116 @@ interface RequestOptions {
     method?: string;
     headers?: Record<string, string>;
     body?: string;
-    signal?: AbortSignal;
+    signal?: AbortSignal | undefined;
+    /** Safe to retry on 5xx/network errors; defaults to true for GET */
+    idempotent?: boolean;
+    /** Read the body as raw bytes (a Buffer) instead of parsing JSON */
+    binary?: boolean;
+}
+
+type FetchOptions = Omit<RequestOptions, 'idempotent'>;
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+const RENDER_MIME_TYPES: Record<RenderFormat, string> = {
+    png: 'image/png',
+    pdf: 'application/pdf',
+};
+
+// Sisense requires a size for PNG renders and a page setup for PDFs
+const DEFAULT_RENDER_OPTIONS = {
+    width: 1200,
+    height: 800,
+    paperFormat: 'A4',
+    paperOrientation: 'portrait',
+} as const;
+
+// Compact projection for dashboard listings unless the caller asks for other fields
+const DEFAULT_DASHBOARD_FIELDS = ['oid', 'title', 'desc', 'owner', 'parentFolder', 'lastUpdated'];
+const DEFAULT_DASHBOARD_PAGE_SIZE = 50;
+
+// Default cache TTLs; metadata such as cubes changes far less often than dashboards
+const DEFAULT_CACHE_TTLS: Record<CacheCategory, number> = {
+    datasources: 5 * 60 * 1000,
+    dashboards: 60 * 1000,
+    folders: 60 * 1000,
+    cubes: 5 * 60 * 1000,
+    cubeMetadata: 10 * 60 * 1000,
+    profiles: 10 * 60 * 1000,
+    fieldUsage: 10 * 60 * 1000,
+};
+
+// Under the dashboards prefix so dashboard writes drop the index too
+const FIELD_USAGE_INDEX_KEY = '/api/v1/dashboards#field-usage';
+
+const DEFAULT_PROFILE_TOP_N = 10;
+
+// Shape of the Sisense authentication endpoint response
+interface LoginResponse {
+    success?: boolean;
+    access_token?: string;
+    message?: string;
 }
 
 export class SisenseService {
     private readonly config: SisenseConfig;
     private readonly baseUrl: string;
+    private readonly requestTimeoutMs: number;
+    private readonly retryPolicy: RetryPolicy;
+    private readonly circuitBreaker: CircuitBreaker;
+    private readonly cache: ResponseCache | null;
+    private readonly cacheTtls: Record<CacheCategory, number>;
+    private readonly buildPollIntervalMs: number;
+    private readonly scanConcurrency: number;
+    private readonly scanTimeoutMs: number;
+    private accessToken: string | null;
+    private loginPromise: Promise<string> | null = null;
+
+    constructor(config?: Partial<SisenseConfig>, options: SisenseServiceOptions = {}) {
+        this.requestTimeoutMs = options.requestTimeoutMs ?? env.SISENSE_REQUEST_TIMEOUT_MS;
+        this.retryPolicy = {
+            maxAttempts: options.retry?.maxAttempts ?? env.SISENSE_RETRY_MAX_ATTEMPTS,
+            baseDelayMs: options.retry?.baseDelayMs ?? env.SISENSE_RETRY_BASE_DELAY_MS,
+            maxDelayMs: options.retry?.maxDelayMs ?? env.SISENSE_RETRY_MAX_DELAY_MS,
+        };
+        this.circuitBreaker = new CircuitBreaker('Sisense', {
+            failureThreshold:
+                options.circuitBreaker?.failureThreshold ?? env.SISENSE_CIRCUIT_FAILURE_THRESHOLD,
+            resetTimeoutMs: options.circuitBreaker?.resetTimeoutMs ?? env.SISENSE_CIRCUIT_RESET_MS,
+        });
+        this.cache =
+            (options.cache?.enabled ?? env.SISENSE_CACHE_ENABLED)
+                ? new ResponseCache({
+                      maxEntries: options.cache?.maxEntries ?? env.SISENSE_CACHE_MAX_ENTRIES,
+                      staleMs: options.cache?.staleMs ?? env.SISENSE_CACHE_STALE_MS,
+                  })
+                : null;
+        this.cacheTtls = {
+            ...DEFAULT_CACHE_TTLS,
+            ...env.SISENSE_CACHE_TTLS,
+            ...options.cache?.ttls,
+        };
+        this.buildPollIntervalMs =
+            options.buildPollIntervalMs ?? env.SISENSE_BUILD_POLL_INTERVAL_MS;
+        this.scanConcurrency = options.scanConcurrency ?? env.SISENSE_SCAN_CONCURRENCY;
+        this.scanTimeoutMs = options.scanTimeoutMs ?? env.SISENSE_SCAN_TIMEOUT_MS;
 
-    constructor(config?: Partial<SisenseConfig>) {
         try {
-            const rawConfig = {
+            const rawConfig: SisenseConfig = {
                 url: config?.url ?? env.SISENSE_URL ?? '',
                 apiKey: config?.apiKey ?? env.SISENSE_API_KEY ?? '',
+                username: config?.username ?? env.SISENSE_USERNAME ?? '',
+                password: config?.password ?? env.SISENSE_PASSWORD ?? '',
             };
 
-            // Validate configuration if both URL and API key are provided
-            if (rawConfig.url && rawConfig.apiKey) {
-                this.config = validateSisenseConfig(rawConfig);
-            } else {
-                this.config = rawConfig as SisenseConfig;
+            // Validate configuration if the URL and some credentials are provided
+            if (rawConfig.url && (rawConfig.apiKey || hasCredentials(rawConfig))) {
+                validateSisenseConfig(rawConfig);
             }
 
+            this.config = rawConfig;
             this.baseUrl = this.config.url;
+            this.accessToken = this.config.apiKey || null;
 
             if (!this.isConfigured()) {
                 logger.warn(
@@ -50,6 +220,7 @@ export class SisenseService {
                     {
                         hasUrl: Boolean(this.config.url),
                         hasApiKey: Boolean(this.config.apiKey),
+                        hasCredentials: hasCredentials(this.config),
                     }
                 );
             }
@@ -57,7 +228,7 @@ export class SisenseService {
             logger.error('Failed to initialize SisenseService', { error });
             throw new ConfigurationError('Invalid Sisense configuration', {
                 originalError: error instanceof Error ? error.message : String(error),
-                providedConfig: config,
+                providedConfig: { ...config, password: config?.password ? '***' : undefined },
             });
         }
     }
@@ -66,62 +237,250 @@ export class SisenseService {
      * Check if Sisense is properly configured
      */
     public isConfigured(): boolean {
-        return Boolean(this.baseUrl && this.config.apiKey);
+        return Boolean(this.baseUrl && (this.config.apiKey || hasCredentials(this.config)));
     }
 
     /**
-     * Get authentication headers
+     * Get authentication headers, logging in first when only credentials are configured
      */
-    private getAuthHeaders(): Record<string, string> {
+    private async getAuthHeaders(signal?: AbortSignal): Promise<Record<string, string>> {
         const headers: Record<string, string> = {
             'Content-Type': 'application/json',
             Accept: 'application/json',
         };
 
-        if (this.config.apiKey) {
-            headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+        const token = this.accessToken ?? (await this.waitForLogin(signal));
+        if (token) {
+            headers['Authorization'] = `Bearer ${token}`;
         }
 
         return headers;
     }
 
     /**
-     * Make an authenticated request to Sisense API
+     * Log in with username/password and cache the returned token.
+     * Concurrent callers share a single in-flight login.
+     */
+    private async login(): Promise<string> {
+        if (!hasCredentials(this.config)) {
+            throw new AuthenticationError('No Sisense username/password configured for login');
+        }
+
+        if (!this.loginPromise) {
+            this.loginPromise = this.requestToken().finally(() => {
+                this.loginPromise = null;
+            });
+        }
+
+        return this.loginPromise;
+    }
+
+    /**
+     * Wait for the shared login, giving up as soon as the caller's signal aborts.
+     * The login itself keeps running for other callers.
+     */
+    private async waitForLogin(signal?: AbortSignal): Promise<string> {
+        try {
+            return await raceSignal(this.login(), signal);
+        } catch (error) {
+            if (signal?.aborted && error === signal.reason) {
+                throw toAbortError(error, { endpoint: '/api/v1/authentication/login' });
+            }
+            throw error;
+        }
+    }
+
+    private async requestToken(): Promise<string> {
+        const url = `${this.baseUrl.replace(/\/$/, '')}/api/v1/authentication/login`;
+        logger.debug('Logging in to Sisense', { url, username: this.config.username });
+
+        const signal = AbortSignal.timeout(this.requestTimeoutMs);
+        let response: Response;
+        try {
+            response = await fetch(url, {
+                method: 'POST',
+                signal,
+                headers: {
+                    'Content-Type': 'application/x-www-form-urlencoded',
+                    Accept: 'application/json',
+                },
+                body: new URLSearchParams({
+                    username: this.config.username,
+                    password: this.config.password,
+                }).toString(),
+            });
+        } catch (error) {
+            if (signal.aborted) {
+                throw toAbortError(signal.reason, { url, timeoutMs: this.requestTimeoutMs });
+            }
+            throw new NetworkError('Network error connecting to Sisense', {
+                url,
+                originalError: error instanceof Error ? error.message : String(error),
+            });
+        }
+
+        const body = response.ok ? safeParse<LoginResponse>(await response.text()) : null;
+        if (!body?.access_token || body.success === false) {
+            throw new AuthenticationError('Sisense login failed', {
+                url,
+                status: response.status,
+                statusText: response.statusText,
+                username: this.config.username,
+                ...(body?.message && { reason: body.message }),
+            });
+        }
+
+        this.accessToken = body.access_token;
+        logger.info('Authenticated with Sisense', { username: this.config.username });
+        return body.access_token;
+    }
+
+    /**
+     * Make an authenticated request to Sisense API, retrying transient failures
      */
     private async makeRequest<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
         if (!this.isConfigured()) {
             throw new ConfigurationError('Sisense is not properly configured', {
                 hasUrl: Boolean(this.config.url),
                 hasApiKey: Boolean(this.config.apiKey),
+                hasCredentials: hasCredentials(this.config),
             });
         }
 
+        const { idempotent, ...fetchOptions } = options;
+        const method = fetchOptions.method || 'GET';
+        const isIdempotent = idempotent ?? IDEMPOTENT_METHODS.includes(method);
+
+        for (let attempt = 1; ; attempt++) {
+            if (fetchOptions.signal?.aborted) {
+                throw toAbortError(fetchOptions.signal.reason, { endpoint, attempt });
+            }
+            this.circuitBreaker.assertRequestAllowed();
+
+            try {
+                const data = await this.sendRequest<T>(endpoint, fetchOptions);
+                this.circuitBreaker.recordSuccess();
+                return data;
+            } catch (error) {
+                // A caller cancellation says nothing about Sisense, but a caller timeout (such
+                // as the tool timeout) does; any HTTP answer other than a server error means
+                // Sisense is up
+                const cancelled =
+                    error instanceof RequestCancelledError ||
+                    (fetchOptions.signal?.aborted === true &&
+                        !isTimeoutReason(fetchOptions.signal.reason));
+                if (cancelled) {
+                    this.circuitBreaker.recordAbort();
+                } else if (isAvailabilityFailure(error)) {
+                    this.circuitBreaker.recordFailure();
+                } else {
+                    this.circuitBreaker.recordSuccess();
+                }
+
+                const delayMs = this.getRetryDelay(error, attempt, isIdempotent);
+                if (delayMs === null) {
+                    throw error;
+                }
+
+                logger.warn('Retrying Sisense request', {
+                    endpoint,
+                    method,
+                    attempt,
+                    maxAttempts: this.retryPolicy.maxAttempts,
+                    delayMs,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+                await sleep(delayMs, fetchOptions.signal).catch((reason: unknown) => {
+                    throw toAbortError(reason, { endpoint, attempt });
+                });
+            }
+        }
+    }
+
+    /**
+     * Delay before the next attempt, or null when the error should not be retried
+     */
+    private getRetryDelay(error: unknown, attempt: number, isIdempotent: boolean): number | null {
+        if (attempt >= this.retryPolicy.maxAttempts || !(error instanceof MCPServerError)) {
+            return null;
+        }
+
+        // A hung request would most likely hang again
+        if (error instanceof TimeoutError) {
+            return null;
+        }
+
+        const status = error.context?.['status'];
+        const isRateLimited = status === 429;
+        if (!isRateLimited && !(isIdempotent && isAvailabilityFailure(error))) {
+            return null;
+        }
+
+        const retryAfterMs = error.context?.['retryAfterMs'];
+        if (typeof retryAfterMs === 'number') {
+            if (retryAfterMs > this.retryPolicy.maxDelayMs) {
+                logger.warn('Sisense Retry-After exceeds maximum retry delay, not retrying', {
+                    retryAfterMs,
+                    maxDelayMs: this.retryPolicy.maxDelayMs,
+                });
+                return null;
+            }
+            return retryAfterMs;
+        }
+
+        return getBackoffDelay(attempt, this.retryPolicy);
+    }
+
+    /**
+     * Send a single request, logging in again once if the token was rejected.
+     * The caller's signal bounds the request; without one the global request timeout applies.
+     */
+    private async sendRequest<T>(
+        endpoint: string,
+        options: FetchOptions,
+        isReauthRetry = false
+    ): Promise<T> {
         const url = `${this.baseUrl.replace(/\/$/, '')}${endpoint}`;
         const headers = {
-            ...this.getAuthHeaders(),
+            ...(await this.getAuthHeaders(options.signal)),
             ...options.headers,
         };
 
+        // Every request keeps its own limit; the caller's signal bounds the whole call
+        const signal = withTimeout(this.requestTimeoutMs, options.signal);
+
         logger.debug('Making request to Sisense', {
             url,
             method: options.method || 'GET',
             endpoint,
         });
 
+        const { binary, ...init } = options;
+
         try {
             const response = await fetch(url, {
-                ...options,
+                ...init,
                 headers,
+                signal,
             });
 
             if (!response.ok) {
+                const retryAfterMs = parseRetryAfter(response.headers?.get('Retry-After'));
                 const errorContext = {
                     url,
                     status: response.status,
                     statusText: response.statusText,
                     method: options.method || 'GET',
+                    ...(retryAfterMs !== null && { retryAfterMs }),
                 };
 
+                // The cached token may have expired: log in again and retry once
+                if (response.status === 401 && !isReauthRetry && hasCredentials(this.config)) {
+                    logger.info('Sisense token rejected, re-authenticating', { endpoint });
+                    this.accessToken = null;
+                    return await this.sendRequest<T>(endpoint, options, true);
+                }
+
                 if (response.status === 401) {
                     throw new AuthenticationError('Sisense authentication failed', errorContext);
                 } else if (response.status === 404) {
@@ -136,6 +495,21 @@ export class SisenseService {
                 }
             }
 
+            // Deletes answer with no content
+            if (response.status === 204) {
+                return undefined as T;
+            }
+
+            if (binary) {
+                const data = Buffer.from(await response.arrayBuffer());
+                logger.debug('Sisense API response received', {
+                    status: response.status,
+                    contentLength: data.length,
+                    endpoint,
+                });
+                return data as T;
+            }
+
             const responseText = await response.text();
             logger.debug('Sisense API response received', {
                 status: response.status,
@@ -155,10 +529,19 @@ export class SisenseService {
 
             return data;
         } catch (error) {
+            if (signal.aborted) {
+                throw toAbortError(signal.reason, {
+                    url,
+                    method: options.method || 'GET',
+                    ...(!options.signal?.aborted && { timeoutMs: this.requestTimeoutMs }),
+                });
+            }
+
+            // undici reports refused connections as "fetch failed" and dropped sockets as "terminated"
             if (
                 error instanceof Error &&
                 error.name === 'TypeError' &&
-                error.message.includes('fetch')
+                (error.message.includes('fetch') || error.message === 'terminated')
             ) {
                 throw new NetworkError('Network error connecting to Sisense', {
                     url,
@@ -172,7 +555,9 @@ export class SisenseService {
                 error instanceof AuthenticationError ||
                 error instanceof NotFoundError ||
                 error instanceof ExternalServiceError ||
-                error instanceof NetworkError
+                error instanceof NetworkError ||
+                error instanceof TimeoutError ||
+                error instanceof RequestCancelledError
             ) {
                 throw error;
             }
@@ -191,66 +576,1122 @@ export class SisenseService {
         }
     }
 
+    /**
+     * GET an endpoint through the response cache
+     */
+    private async cachedRequest<T>(
+        category: CacheCategory,
+        endpoint: string,
+        options: CallOptions
+    ): Promise<T> {
+        return this.cached(
+            category,
+            endpoint,
+            signal => this.makeRequest<T>(endpoint, { signal }),
+            options
+        );
+    }
+
+    /**
+     * Load a value through the response cache. The shared load is not tied to any
+     * single caller's signal; each caller stops waiting when its own signal aborts.
+     */
+    private async cached<T>(
+        category: CacheCategory,
+        key: string,
+        loader: (signal?: AbortSignal) => Promise<T>,
+        options: CallOptions
+    ): Promise<T> {
+        if (!this.cache) {
+            return loader(options.signal);
+        }
+        if (options.signal?.aborted) {
+            throw toAbortError(options.signal.reason, { key });
+        }
+
+        const load = this.cache.getOrLoad(key, () => loader(), {
+            ttlMs: this.cacheTtls[category],
+            refresh: options.refresh,
+        });
+
+        try {
+            return await raceSignal(load, options.signal);
+        } catch (error) {
+            if (options.signal?.aborted && error === options.signal.reason) {
+                throw toAbortError(error, { key });
+            }
+            throw error;
+        }
+    }
+
     /**
      * Get Sisense server information
      */
-    public async getServerInfo(): Promise<Record<string, unknown>> {
-        return this.makeRequest('/api/v1/server/info');
+    public async getServerInfo(options: CallOptions = {}): Promise<Record<string, unknown>> {
+        return this.makeRequest('/api/v1/server/info', { signal: options.signal });
     }
 
     /**
      * Get available data sources
      */
-    public async getDataSources(): Promise<Record<string, unknown>[]> {
-        return this.makeRequest('/api/v1/datasources');
+    public async getDataSources(options: CallOptions = {}): Promise<Record<string, unknown>[]> {
+        return this.cachedRequest('datasources', '/api/v1/datasources', options);
     }
 
     /**
      * Get dashboards
      */
-    public async getDashboards(): Promise<Record<string, unknown>[]> {
-        return this.makeRequest('/api/v1/dashboards');
+    public async getDashboards(options: CallOptions = {}): Promise<Record<string, unknown>[]> {
+        return this.cachedRequest('dashboards', '/api/v1/dashboards', options);
+    }
+
+    /**
+     * List one page of dashboards, filtered, sorted and projected by Sisense
+     */
+    public async listDashboards(
+        query: DashboardListQuery = {},
+        options: CallOptions = {}
+    ): Promise<DashboardPage> {
+        const validatedQuery = validateInput(dashboardListQuerySchema, query);
+        const skip = validatedQuery.skip ?? 0;
+        const limit = validatedQuery.limit ?? DEFAULT_DASHBOARD_PAGE_SIZE;
+        const fields = validatedQuery.fields ?? DEFAULT_DASHBOARD_FIELDS;
+
+        const params = new URLSearchParams({
+            // Always include the ID so results can be followed up on
+            fields: [...new Set(['oid', ...fields])].join(','),
+            skip: String(skip),
+            // Ask for one extra row to learn whether another page exists
+            limit: String(limit + 1),
+        });
+        if (validatedQuery.search) {
+            params.set('name', validatedQuery.search);
+        }
+        if (validatedQuery.ownerId) {
+            params.set('owner', validatedQuery.ownerId);
+        }
+        if (validatedQuery.folderId) {
+            params.set('parentFolder', validatedQuery.folderId);
+        }
+        if (validatedQuery.sort) {
+            params.set('sort', validatedQuery.sort);
+        }
+
+        const rows = await this.cachedRequest<Record<string, unknown>[]>(
+            'dashboards',
+            `/api/v1/dashboards?${params.toString()}`,
+            options
+        );
+
+        const dashboards = rows.slice(0, limit);
+        const page: DashboardPage = { dashboards, skip, limit, count: dashboards.length };
+        if (rows.length > limit) {
+            page.nextCursor = encodeCursor({ ...validatedQuery, skip: skip + limit, limit });
+        }
+        return page;
+    }
+
+    /**
+     * Get the folder hierarchy with the dashboards filed in each folder
+     */
+    public async getFolderTree(options: CallOptions = {}): Promise<FolderTree> {
+        const [folders, dashboards] = await Promise.all([
+            this.cachedRequest<Record<string, unknown>[]>(
+                'folders',
+                '/api/v1/folders?fields=oid,name,owner,parentId',
+                options
+            ),
+            this.cachedRequest<Record<string, unknown>[]>(
+                'dashboards',
+                '/api/v1/dashboards?fields=oid,title,owner,parentFolder',
+                options
+            ),
+        ]);
+
+        return buildFolderTree(folders, dashboards);
+    }
+
+    /**
+     * Get a folder with its subfolders and dashboards
+     */
+    public async getFolderContents(
+        folderId: string,
+        options: CallOptions = {}
+    ): Promise<FolderNode> {
+        const validatedId = validateFolderId(folderId);
+        const tree = await this.getFolderTree(options);
+
+        const folder = findFolder(tree.folders, validatedId);
+        if (!folder) {
+            throw new NotFoundError(`Folder not found: ${validatedId}`, { folderId: validatedId });
+        }
+        return folder;
     }
 
     /**
      * Get specific dashboard by ID
      */
-    public async getDashboard(dashboardId: string): Promise<Record<string, unknown>> {
+    public async getDashboard(
+        dashboardId: string,
+        options: CallOptions = {}
+    ): Promise<Record<string, unknown>> {
         const validatedId = validateDashboardId(dashboardId);
-        return this.makeRequest(`/api/v1/dashboards/${validatedId}`);
+        return this.makeRequest(`/api/v1/dashboards/${validatedId}`, { signal: options.signal });
     }
 
     /**
      * Get widgets from a dashboard
      */
-    public async getDashboardWidgets(dashboardId: string): Promise<Record<string, unknown>[]> {
+    public async getDashboardWidgets(
+        dashboardId: string,
+        options: CallOptions = {}
+    ): Promise<Record<string, unknown>[]> {
+        const validatedId = validateDashboardId(dashboardId);
+        return this.makeRequest(`/api/v1/dashboards/${validatedId}/widgets`, {
+            signal: options.signal,
+        });
+    }
+
+    /**
+     * Get a single widget from a dashboard
+     */
+    public async getWidget(
+        dashboardId: string,
+        widgetId: string,
+        options: CallOptions = {}
+    ): Promise<Record<string, unknown>> {
+        const validatedDashboardId = validateDashboardId(dashboardId);
+        const validatedWidgetId = validateWidgetId(widgetId);
+        return this.makeRequest(
+            `/api/v1/dashboards/${validatedDashboardId}/widgets/${validatedWidgetId}`,
+            { signal: options.signal }
+        );
+    }
+
+    /**
+     * Create a dashboard on a datasource
+     */
+    public async createDashboard(
+        input: DashboardInput,
+        options: CallOptions = {}
+    ): Promise<Record<string, unknown>> {
+        const validatedInput = validateInput(dashboardInputSchema, input);
+        const datasource = await this.resolveDatasource(validatedInput.datasource, options);
+
+        const dashboard = await this.makeRequest<Record<string, unknown>>('/api/v1/dashboards', {
+            method: 'POST',
+            signal: options.signal,
+            body: JSON.stringify(toDashboardPayload(validatedInput, datasource)),
+        });
+        this.invalidateDashboards();
+        logger.info('Created dashboard', { dashboardId: dashboard['oid'] });
+        return dashboard;
+    }
+
+    /**
+     * Change a dashboard's title, description, layout or filters
+     */
+    public async updateDashboard(
+        dashboardId: string,
+        changes: DashboardChanges,
+        options: CallOptions = {}
+    ): Promise<Record<string, unknown>> {
+        const validatedId = validateDashboardId(dashboardId);
+        const validatedChanges = validateInput(dashboardChangesSchema, changes);
+        return this.patchDashboard(validatedId, toDashboardPayload(validatedChanges), options);
+    }
+
+    /**
+     * Copy a dashboard with its widgets, optionally renaming it or filing it in another folder
+     */
+    public async duplicateDashboard(
+        dashboardId: string,
+        copy: DuplicateDashboardOptions = {},
+        options: CallOptions = {}
+    ): Promise<Record<string, unknown>> {
+        const validatedId = validateDashboardId(dashboardId);
+        const dashboard = await this.makeRequest<Record<string, unknown>>(
+            `/api/v1/dashboards/${validatedId}/duplicate`,
+            { method: 'POST', signal: options.signal, body: '{}' }
+        );
+        this.invalidateDashboards();
+        logger.info('Duplicated dashboard', { dashboardId: validatedId, copyId: dashboard['oid'] });
+
+        const changes = toDashboardPayload(copy);
+        if (Object.keys(changes).length === 0 || typeof dashboard['oid'] !== 'string') {
+            return dashboard;
+        }
+        return this.patchDashboard(dashboard['oid'], changes, options);
+    }
+
+    /**
+     * Add a widget to a dashboard and place it on a new row at the bottom of the layout.
+     * The widget uses the dashboard's datasource unless it names its own.
+     */
+    public async addWidget(
+        dashboardId: string,
+        widget: WidgetInput,
+        options: CallOptions = {}
+    ): Promise<AddedWidget> {
+        const validatedId = validateDashboardId(dashboardId);
+        const validatedWidget = validateInput(widgetInputSchema, widget);
+        const datasource = validatedWidget.datasource
+            ? await this.resolveDatasource(validatedWidget.datasource, options)
+            : (await this.getDashboard(validatedId, options))['datasource'];
+
+        const created = await this.makeRequest<Record<string, unknown>>(
+            `/api/v1/dashboards/${validatedId}/widgets`,
+            {
+                method: 'POST',
+                signal: options.signal,
+                body: JSON.stringify(
+                    toWidgetPayload(
+                        validatedWidget,
+                        datasource as Record<string, unknown> | undefined
+                    )
+                ),
+            }
+        );
+        this.invalidateDashboards();
+        logger.info('Added widget', { dashboardId: validatedId, widgetId: created['oid'] });
+
+        const widgetId = created['oid'];
+        if (typeof widgetId !== 'string') {
+            return {
+                widget: created,
+                layoutUpdated: false,
+                warning:
+                    'Sisense returned no widget ID, so the widget was not placed in the layout',
+            };
+        }
+        const placement = await this.updateWidgetLayout(
+            validatedId,
+            layout => addWidgetToLayout(layout, widgetId),
+            'The widget was added but could not be placed in the dashboard layout; do not add it again, place it with update_dashboard instead',
+            options
+        );
+        return { widget: created, ...placement };
+    }
+
+    /**
+     * Change a widget's type, title, panels, datasource or style
+     */
+    public async updateWidget(
+        dashboardId: string,
+        widgetId: string,
+        changes: WidgetChanges,
+        options: CallOptions = {}
+    ): Promise<Record<string, unknown>> {
+        const validatedDashboardId = validateDashboardId(dashboardId);
+        const validatedWidgetId = validateWidgetId(widgetId);
+        const validatedChanges = validateInput(widgetChangesSchema, changes);
+        const datasource = validatedChanges.datasource
+            ? await this.resolveDatasource(validatedChanges.datasource, options)
+            : undefined;
+
+        const widget = await this.makeRequest<Record<string, unknown>>(
+            `/api/v1/dashboards/${validatedDashboardId}/widgets/${validatedWidgetId}`,
+            {
+                method: 'PATCH',
+                signal: options.signal,
+                body: JSON.stringify(toWidgetPayload(validatedChanges, datasource)),
+            }
+        );
+        this.invalidateDashboards();
+        logger.info('Updated widget', {
+            dashboardId: validatedDashboardId,
+            widgetId: validatedWidgetId,
+        });
+        return widget;
+    }
+
+    /**
+     * Delete a widget and take it out of the dashboard layout
+     */
+    public async deleteWidget(
+        dashboardId: string,
+        widgetId: string,
+        options: CallOptions = {}
+    ): Promise<WidgetLayoutResult> {
+        const validatedDashboardId = validateDashboardId(dashboardId);
+        const validatedWidgetId = validateWidgetId(widgetId);
+
+        await this.makeRequest<unknown>(
+            `/api/v1/dashboards/${validatedDashboardId}/widgets/${validatedWidgetId}`,
+            { method: 'DELETE', signal: options.signal }
+        );
+        this.invalidateDashboards();
+        logger.info('Deleted widget', {
+            dashboardId: validatedDashboardId,
+            widgetId: validatedWidgetId,
+        });
+
+        return this.updateWidgetLayout(
+            validatedDashboardId,
+            layout => removeWidgetFromLayout(layout, validatedWidgetId),
+            'The widget was deleted but is still in the dashboard layout; remove it with update_dashboard',
+            options
+        );
+    }
+
+    /**
+     * A dashboard with its widgets embedded, ready to be saved as a .dash file
+     */
+    public async getDashboardDefinition(
+        dashboardId: string,
+        options: CallOptions = {}
+    ): Promise<DashFile> {
         const validatedId = validateDashboardId(dashboardId);
-        return this.makeRequest(`/api/v1/dashboards/${validatedId}/widgets`);
+        const [dashboard, widgets] = await Promise.all([
+            this.getDashboard(validatedId, options),
+            this.getDashboardWidgets(validatedId, options),
+        ]);
+        return toDashFile(dashboard, widgets);
+    }
+
+    /**
+     * Import a dashboard definition, pointing mapped datasources at other cubes first.
+     * When a dashboard with the same ID exists it is overwritten, or kept and the import
+     * added as a copy.
+     */
+    public async importDashboard(
+        dash: DashFile,
+        importOptions: DashboardImportOptions = {},
+        options: CallOptions = {}
+    ): Promise<DashboardImportResult> {
+        const validatedDash = validateInput(dashFileSchema, dash);
+        const onConflict = importOptions.onConflict ?? 'duplicate';
+        const datasourceMap = importOptions.datasourceMap ?? {};
+
+        const used = getDatasourceTitles(validatedDash);
+        const unknown = Object.keys(datasourceMap).filter(title => !used.includes(title));
+        if (unknown.length > 0) {
+            throw new ValidationError(
+                `Dashboard does not use datasource(s): ${unknown.join(', ')}`,
+                { unknown, datasources: used }
+            );
+        }
+
+        const targets = Object.fromEntries(
+            await Promise.all(
+                Object.entries(datasourceMap).map(
+                    async ([title, datasource]) =>
+                        [title, await this.resolveDatasource(datasource, options)] as const
+                )
+            )
+        );
+
+        const response = await this.makeRequest<unknown>(
+            `/api/v1/dashboards/import/bulk?action=${onConflict}`,
+            {
+                method: 'POST',
+                signal: options.signal,
+                body: JSON.stringify([remapDatasources(validatedDash, targets)]),
+            }
+        );
+        this.invalidateDashboards();
+
+        const { dashboardId, failed } = readImportResponse(response);
+        if (failed.length > 0) {
+            throw new ExternalServiceError('Sisense could not import the dashboard', {
+                dashboardId: validatedDash.oid,
+                failed,
+            });
+        }
+        logger.info('Imported dashboard', { dashboardId, onConflict });
+
+        return {
+            dashboardId: dashboardId ?? validatedDash.oid,
+            title: validatedDash.title,
+            widgetCount: validatedDash.widgets.length,
+            onConflict,
+            remapped: Object.fromEntries(
+                Object.entries(targets).map(([title, target]) => [title, target.title])
+            ),
+        };
+    }
+
+    /**
+     * Every widget and dashboard filter that refers to a datasource, table or column,
+     * including references inside formulas. Looked up in an index of all dashboards that
+     * is cached until dashboards change.
+     */
+    public async findFieldUsage(
+        query: FieldUsageQuery,
+        options: CallOptions = {}
+    ): Promise<FieldUsageResult> {
+        const validatedQuery = validateInput(fieldUsageQuerySchema, query);
+        const index = await this.cached(
+            'fieldUsage',
+            FIELD_USAGE_INDEX_KEY,
+            // A cached scan is shared by every caller waiting on it, so it runs under its own
+            // time limit rather than any one caller's signal
+            signal =>
+                this.buildFieldUsageIndex({
+                    signal: withTimeout(this.scanTimeoutMs, signal),
+                    refresh: options.refresh,
+                }),
+            options
+        );
+        return findFieldUsage(index, validatedQuery);
+    }
+
+    /**
+     * Load the widgets of every dashboard, a few dashboards at a time, and index the
+     * fields they use. Dashboards that fail to load are skipped and reported.
+     */
+    private async buildFieldUsageIndex(options: CallOptions): Promise<FieldUsageIndex> {
+        const dashboards = await this.getDashboards(options);
+        const skipped: FieldUsageIndex['skipped'] = [];
+
+        const references = await mapWithConcurrency(
+            dashboards,
+            this.scanConcurrency,
+            async dashboard => {
+                const dashboardId = String(dashboard['oid'] ?? '');
+                try {
+                    const widgets = await this.getDashboardWidgets(dashboardId, options);
+                    return collectFieldReferences(dashboard, widgets);
+                } catch (error) {
+                    if (options.signal?.aborted) {
+                        throw error;
+                    }
+                    skipped.push({
+                        dashboardId,
+                        title: String(dashboard['title'] ?? ''),
+                        error: error instanceof Error ? error.message : String(error),
+                    });
+                    return collectFieldReferences(dashboard, []);
+                }
+            }
+        );
+
+        if (dashboards.length > 0 && skipped.length === dashboards.length) {
+            throw new ExternalServiceError('Could not load the widgets of any dashboard', {
+                skipped,
+            });
+        }
+        logger.info('Indexed field usage', {
+            dashboards: dashboards.length,
+            skipped: skipped.length,
+        });
+
+        return {
+            builtAt: new Date().toISOString(),
+            dashboardCount: dashboards.length,
+            references: references.flat(),
+            skipped,
+        };
+    }
+
+    private async patchDashboard(
+        dashboardId: string,
+        payload: Record<string, unknown>,
+        options: CallOptions
+    ): Promise<Record<string, unknown>> {
+        const dashboard = await this.makeRequest<Record<string, unknown>>(
+            `/api/v1/dashboards/${dashboardId}`,
+            { method: 'PATCH', signal: options.signal, body: JSON.stringify(payload) }
+        );
+        this.invalidateDashboards();
+        logger.info('Updated dashboard', { dashboardId, fields: Object.keys(payload) });
+        return dashboard;
+    }
+
+    /**
+     * Update a dashboard layout after a widget was added or deleted. The widget change has
+     * already gone through, so a failure here is reported instead of thrown: a client
+     * retrying the whole tool would otherwise add the widget twice.
+     */
+    private async updateWidgetLayout(
+        dashboardId: string,
+        update: (layout: unknown) => Record<string, unknown> | null,
+        warning: string,
+        options: CallOptions
+    ): Promise<WidgetLayoutResult> {
+        try {
+            const { layout } = await this.getDashboard(dashboardId, options);
+            const updated = update(layout);
+            if (updated) {
+                await this.patchDashboard(dashboardId, { layout: updated }, options);
+            }
+            return { layoutUpdated: true };
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            logger.warn('Could not update dashboard layout', { dashboardId, error: reason });
+            return { layoutUpdated: false, warning: `${warning} (${reason})` };
+        }
+    }
+
+    /**
+     * Drop cached dashboard listings (including the folder tree) after a write
+     */
+    private invalidateDashboards(): void {
+        this.cache?.invalidate('/api/v1/dashboards');
+    }
+
+    /**
+     * The datasource object dashboards and widgets store, for a cube title or ID
+     */
+    private async resolveDatasource(
+        datasource: string,
+        options: CallOptions
+    ): Promise<DatasourceRef> {
+        const cube = await this.findCube(datasource, options);
+        return { title: cube.title, fullname: cube.fullname, id: cube.oid };
+    }
+
+    /**
+     * Render a dashboard to PNG or PDF
+     */
+    public async exportDashboard(
+        dashboardId: string,
+        format: RenderFormat,
+        render: RenderOptions = {},
+        options: CallOptions = {}
+    ): Promise<RenderedFile> {
+        const validatedId = validateDashboardId(dashboardId);
+        const params =
+            format === 'png'
+                ? { width: render.width ?? DEFAULT_RENDER_OPTIONS.width }
+                : {
+                      paperFormat: render.paperFormat ?? DEFAULT_RENDER_OPTIONS.paperFormat,
+                      paperOrientation:
+                          render.paperOrientation ?? DEFAULT_RENDER_OPTIONS.paperOrientation,
+                      layout: 'asis',
+                  };
+        return this.renderFile(
+            `/api/v1/dashboards/${validatedId}/export/${format}`,
+            format,
+            { includeTitle: true, includeFilters: true, ...params },
+            options
+        );
+    }
+
+    /**
+     * Render a single widget to PNG or PDF
+     */
+    public async exportWidget(
+        dashboardId: string,
+        widgetId: string,
+        format: RenderFormat,
+        render: RenderOptions = {},
+        options: CallOptions = {}
+    ): Promise<RenderedFile> {
+        const validatedDashboardId = validateDashboardId(dashboardId);
+        const validatedWidgetId = validateWidgetId(widgetId);
+        const params =
+            format === 'png'
+                ? {
+                      width: render.width ?? DEFAULT_RENDER_OPTIONS.width,
+                      height: render.height ?? DEFAULT_RENDER_OPTIONS.height,
+                  }
+                : {
+                      paperFormat: render.paperFormat ?? DEFAULT_RENDER_OPTIONS.paperFormat,
+                      paperOrientation:
+                          render.paperOrientation ?? DEFAULT_RENDER_OPTIONS.paperOrientation,
+                      includeTitle: true,
+                  };
+        return this.renderFile(
+            `/api/v1/dashboards/${validatedDashboardId}/widgets/${validatedWidgetId}/export/${format}`,
+            format,
+            params,
+            options
+        );
+    }
+
+    private async renderFile(
+        endpoint: string,
+        format: RenderFormat,
+        params: Record<string, string | number | boolean>,
+        options: CallOptions
+    ): Promise<RenderedFile> {
+        const query = new URLSearchParams(
+            Object.entries(params).map(([key, value]) => [key, String(value)])
+        );
+        const data = await this.makeRequest<Buffer>(`${endpoint}?${query.toString()}`, {
+            headers: { Accept: RENDER_MIME_TYPES[format] },
+            signal: options.signal,
+            binary: true,
+        });
+        return {
+            format,
+            mimeType: RENDER_MIME_TYPES[format],
+            data: data.toString('base64'),
+            bytes: data.length,
+        };
     }
 
     /**
      * Execute a query
      */
-    public async executeQuery(query: unknown): Promise<Record<string, unknown>> {
+    public async executeQuery(
+        query: unknown,
+        options: CallOptions = {}
+    ): Promise<Record<string, unknown>> {
         const validatedQuery = validateQuery(query);
         return this.makeRequest('/api/v1/query/execute', {
             method: 'POST',
+            signal: options.signal,
             body: JSON.stringify(validatedQuery),
         });
     }
 
+    /**
+     * Execute a JAQL query against a datasource
+     */
+    public async executeJaql(
+        datasource: string,
+        jaql: unknown,
+        options: CallOptions = {}
+    ): Promise<JaqlResult> {
+        const validatedDatasource = validateDatasource(datasource);
+        const validatedJaql = validateJaqlQuery(jaql);
+
+        const response = await this.makeRequest<Record<string, unknown>>(
+            `/api/datasources/${encodeURIComponent(validatedDatasource)}/jaql`,
+            {
+                method: 'POST',
+                signal: options.signal,
+                // JAQL queries only read data, so they are safe to retry
+                idempotent: true,
+                body: JSON.stringify({
+                    ...validatedJaql,
+                    datasource: validatedDatasource,
+                    format: 'json',
+                }),
+            }
+        );
+
+        return normalizeJaqlResponse(validatedDatasource, validatedJaql.metadata, response);
+    }
+
+    /**
+     * Execute a JAQL query one page at a time using `count` and `offset`. Honors the
+     * query's own `offset` as the start and `count` as the total row limit; stops after
+     * the first short page. Paging is only stable when the query is sorted.
+     */
+    public async *streamJaql(
+        datasource: string,
+        jaql: unknown,
+        pageSize: number,
+        options: CallOptions = {}
+    ): AsyncGenerator<JaqlResult> {
+        const validatedJaql = validateJaqlQuery(jaql);
+        let offset = validatedJaql.offset ?? 0;
+        let remaining = validatedJaql.count ?? Infinity;
+
+        while (remaining > 0) {
+            const count = Math.min(pageSize, remaining);
+            const page = await this.executeJaql(
+                datasource,
+                { ...validatedJaql, count, offset },
+                options
+            );
+            yield page;
+
+            if (page.rows.length < count) {
+                return;
+            }
+            offset += count;
+            remaining -= count;
+        }
+    }
+
+    /**
+     * Run a widget's own query, with the dashboard filters and any overrides applied,
+     * and return its table along with the filters that were used
+     */
+    public async getWidgetData(
+        dashboardId: string,
+        widgetId: string,
+        overrides: FilterOverrides = {},
+        options: CallOptions = {}
+    ): Promise<WidgetData> {
+        const [dashboard, widget] = await Promise.all([
+            this.getDashboard(dashboardId, { signal: options.signal }),
+            this.getWidget(dashboardId, widgetId, { signal: options.signal }),
+        ]);
+
+        const query = buildWidgetQuery(widget, dashboard, overrides);
+        const result = await this.executeJaql(query.datasource, query.jaql, {
+            signal: options.signal,
+        });
+
+        return {
+            dashboardId,
+            widgetId,
+            title: typeof widget['title'] === 'string' ? widget['title'] : undefined,
+            widgetType: typeof widget['type'] === 'string' ? widget['type'] : undefined,
+            ...result,
+            filters: query.filters,
+        };
+    }
+
+    /**
+     * Compile a structured query to JAQL, validating its fields against the data model schema
+     */
+    public async buildQuery(spec: QuerySpec, options: CallOptions = {}): Promise<CompiledQuery> {
+        const cube = await this.findCube(spec.datasource, options);
+        const schema = await this.getDataModelSchema(cube.oid, options);
+        return compileQuery({ ...spec, datasource: cube.title }, schema.columns);
+    }
+
+    /**
+     * Profile a field: distinct count, top values, null ratio and, for numeric and date
+     * fields, min/max. Profiles are cached because each one runs several JAQL queries.
+     */
+    public async profileField(
+        datasource: string,
+        field: string,
+        topN: number = DEFAULT_PROFILE_TOP_N,
+        options: CallOptions = {}
+    ): Promise<FieldProfile> {
+        const cube = await this.findCube(datasource, options);
+        const dim = field.startsWith('[') ? field : `[${field}]`;
+
+        const schema = await this.getDataModelSchema(cube.oid, options);
+        const column = schema.columns.find(candidate => candidate.dim === dim);
+        if (!column) {
+            throw new ValidationError(`Unknown field for datasource ${cube.title}: ${dim}`, {
+                datasource: cube.title,
+                field: dim,
+            });
+        }
+
+        return this.cached(
+            'profiles',
+            `profile:${cube.title}:${dim}:${topN}`,
+            async signal => {
+                const queries = buildProfileQueries(dim, column.dataType, topN);
+                const run = (jaql: unknown) => this.executeJaql(cube.title, jaql, { signal });
+                const [summary, topValues, nulls] = await Promise.all([
+                    run(queries.summary),
+                    run(queries.topValues),
+                    run(queries.nulls),
+                ]);
+                return toFieldProfile(cube.title, dim, column.dataType, {
+                    summary,
+                    topValues,
+                    nulls,
+                });
+            },
+            options
+        );
+    }
+
+    /**
+     * Find the cube behind a datasource given by title or ID
+     */
+    private async findCube(
+        datasource: string,
+        options: CallOptions
+    ): Promise<{ oid: string; title: string; fullname: string }> {
+        const validatedDatasource = validateDatasource(datasource);
+        const cubes = await this.getCubes(options);
+        const cube = cubes.find(
+            candidate =>
+                candidate['oid'] === validatedDatasource ||
+                candidate['title'] === validatedDatasource
+        );
+        if (!cube || typeof cube['oid'] !== 'string') {
+            throw new NotFoundError(`No cube found for datasource: ${validatedDatasource}`, {
+                datasource: validatedDatasource,
+            });
+        }
+
+        // JAQL addresses datasources by title
+        const title = typeof cube['title'] === 'string' ? cube['title'] : validatedDatasource;
+        // Dashboards and widgets also need the full name; ElastiCubes are "localhost/<title>"
+        const fullname =
+            typeof cube['fullname'] === 'string' ? cube['fullname'] : `localhost/${title}`;
+        return { oid: cube['oid'], title, fullname };
+    }
+
     /**
      * Get available cubes
      */
-    public async getCubes(): Promise<Record<string, unknown>[]> {
-        return this.makeRequest('/api/v1/cubes');
+    public async getCubes(options: CallOptions = {}): Promise<Record<string, unknown>[]> {
+        return this.cachedRequest('cubes', '/api/v1/cubes', options);
     }
 
     /**
      * Get cube metadata
      */
-    public async getCubeMetadata(cubeId: string): Promise<Record<string, unknown>> {
+    public async getCubeMetadata(
+        cubeId: string,
+        options: CallOptions = {}
+    ): Promise<Record<string, unknown>> {
+        const validatedId = validateCubeId(cubeId);
+        return this.cachedRequest('cubeMetadata', `/api/v1/cubes/${validatedId}/metadata`, options);
+    }
+
+    /**
+     * Get a cube's data model schema, normalized into tables, columns and relations
+     */
+    public async getDataModelSchema(
+        cubeId: string,
+        options: CallOptions = {}
+    ): Promise<DataModelSchema> {
+        const validatedId = validateCubeId(cubeId);
+        const raw = await this.cachedRequest<Record<string, unknown>>(
+            'cubeMetadata',
+            `/api/v2/datamodels/${validatedId}/schema`,
+            options
+        );
+        return normalizeDataModel(raw);
+    }
+
+    /**
+     * List the tables of a cube's data model
+     */
+    public async listTables(cubeId: string, options: CallOptions = {}): Promise<DataModelTable[]> {
+        return (await this.getDataModelSchema(cubeId, options)).tables;
+    }
+
+    /**
+     * List the columns of a cube's data model, optionally for a single table
+     */
+    public async listColumns(
+        cubeId: string,
+        table?: string,
+        options: CallOptions = {}
+    ): Promise<DataModelColumn[]> {
+        const schema = await this.getDataModelSchema(cubeId, options);
+        if (table === undefined) {
+            return schema.columns;
+        }
+        if (!schema.tables.some(candidate => candidate.name === table)) {
+            throw new NotFoundError(`Table not found: ${table}`, { cubeId, table });
+        }
+        return schema.columns.filter(column => column.table === table);
+    }
+
+    /**
+     * List the relations (joins) between tables of a cube's data model
+     */
+    public async getRelations(
+        cubeId: string,
+        options: CallOptions = {}
+    ): Promise<DataModelRelation[]> {
+        return (await this.getDataModelSchema(cubeId, options)).relations;
+    }
+
+    /**
+     * List ElastiCube builds, optionally for a single cube. Never cached, so the
+     * statuses are always current.
+     */
+    public async listBuilds(cubeId?: string, options: CallOptions = {}): Promise<BuildTask[]> {
+        const query = cubeId === undefined ? '' : `?datamodelId=${validateCubeId(cubeId)}`;
+        const builds = await this.makeRequest<unknown>(`/api/v2/builds${query}`, {
+            signal: options.signal,
+        });
+        return (Array.isArray(builds) ? builds : [])
+            .filter(
+                (build): build is Record<string, unknown> =>
+                    typeof build === 'object' && build !== null
+            )
+            .map(normalizeBuild);
+    }
+
+    /**
+     * Get a single build task
+     */
+    public async getBuild(buildId: string, options: CallOptions = {}): Promise<BuildTask> {
+        const validatedId = validateBuildId(buildId);
+        const build = await this.makeRequest<Record<string, unknown>>(
+            `/api/v2/builds/${validatedId}`,
+            { signal: options.signal }
+        );
+        return normalizeBuild(build);
+    }
+
+    /**
+     * Whether a cube is building, its latest build and when it last built successfully
+     */
+    public async getBuildStatus(cubeId: string, options: CallOptions = {}): Promise<BuildStatus> {
         const validatedId = validateCubeId(cubeId);
-        return this.makeRequest(`/api/v1/cubes/${validatedId}/metadata`);
+        return summarizeBuilds(validatedId, await this.listBuilds(validatedId, options));
+    }
+
+    /**
+     * Start a build of a cube
+     */
+    public async triggerBuild(
+        cubeId: string,
+        buildType: BuildType,
+        options: CallOptions = {}
+    ): Promise<BuildTask> {
+        const validatedId = validateCubeId(cubeId);
+        const build = await this.makeRequest<Record<string, unknown>>('/api/v2/builds', {
+            method: 'POST',
+            signal: options.signal,
+            body: JSON.stringify({ datamodelId: validatedId, buildType, schemaOrigin: 'latest' }),
+        });
+        logger.info('Triggered ElastiCube build', { cubeId: validatedId, buildType });
+        return normalizeBuild(build);
+    }
+
+    /**
+     * Poll a build until it is done, failed or cancelled, reporting each status seen
+     */
+    public async waitForBuild(
+        buildId: string,
+        onStatus?: (build: BuildTask) => Promise<void>,
+        options: CallOptions = {}
+    ): Promise<BuildTask> {
+        for (;;) {
+            const build = await this.getBuild(buildId, options);
+            await onStatus?.(build);
+            if (isBuildFinished(build)) {
+                return build;
+            }
+
+            try {
+                await sleep(this.buildPollIntervalMs, options.signal);
+            } catch (error) {
+                if (options.signal?.aborted) {
+                    throw toAbortError(options.signal.reason, { buildId, status: build.status });
+                }
+                throw error;
+            }
+        }
+    }
+}
+
+/**
+ * Whether an error means Sisense itself is unreachable or failing
+ */
+function isAvailabilityFailure(error: unknown): boolean {
+    if (error instanceof NetworkError || error instanceof TimeoutError) {
+        return true;
+    }
+    if (error instanceof ExternalServiceError) {
+        const status = error.context?.['status'];
+        return typeof status === 'number' && status >= 500;
+    }
+    return false;
+}
+
+/**
+ * Map the reason of an aborted signal to a timeout or a cancellation
+ */
+function toAbortError(
+    reason: unknown,
+    context: Record<string, unknown>
+): TimeoutError | RequestCancelledError {
+    if (isTimeoutReason(reason)) {
+        return new TimeoutError('Sisense request timed out', context);
+    }
+    return new RequestCancelledError('Sisense request was cancelled', {
+        ...context,
+        ...(reason !== undefined && {
+            reason: reason instanceof Error ? reason.message : String(reason),
+        }),
+    });
+}
+
+function hasCredentials(config: SisenseConfig): boolean {
+    return Boolean(config.username && config.password);
+}
+
+/**
+ * Flatten a JAQL response into column headers and rows of raw cell values
+ */
+function normalizeJaqlResponse(
+    datasource: string,
+    metadata: Array<{
+        jaql: { title?: string | undefined; dim?: string | undefined };
+        panel?: string | undefined;
+    }>,
+    response: Record<string, unknown>
+): JaqlResult {
+    const responseHeaders = response['headers'];
+    // Filter-only (scope) items do not produce result columns
+    const headers = Array.isArray(responseHeaders)
+        ? responseHeaders.map(header => String(header))
+        : metadata
+              .filter(item => item.panel !== 'scope')
+              .map((item, index) => item.jaql.title ?? item.jaql.dim ?? `Column ${index + 1}`);
+
+    const values = Array.isArray(response['values']) ? response['values'] : [];
+    // Single-column queries may return a flat list of cells
+    const rows = values.map(row => (Array.isArray(row) ? row : [row]).map(getCellValue));
+
+    return {
+        datasource,
+        headers,
+        rows,
+        rowCount: rows.length,
+    };
+}
+
+function getCellValue(cell: unknown): unknown {
+    if (cell !== null && typeof cell === 'object' && 'data' in cell) {
+        return (cell as { data: unknown }).data;
+    }
+    return cell;
+}
+
+/**
+ * Nest flat folder and dashboard listings into a tree. Folders whose parent is unknown
+ * (e.g. not shared with the current user) are shown at the top level.
+ */
+function buildFolderTree(
+    folderRows: Record<string, unknown>[],
+    dashboardRows: Record<string, unknown>[]
+): FolderTree {
+    const nodes = new Map<string, FolderNode>();
+    for (const row of folderRows) {
+        const oid = String(row['oid']);
+        const parentId = typeof row['parentId'] === 'string' ? row['parentId'] : null;
+        nodes.set(oid, {
+            oid,
+            name: typeof row['name'] === 'string' ? row['name'] : oid,
+            owner: typeof row['owner'] === 'string' ? row['owner'] : undefined,
+            parentId,
+            folders: [],
+            dashboards: [],
+        });
+    }
+
+    const tree: FolderTree = { folders: [], dashboards: [] };
+    for (const node of nodes.values()) {
+        const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+        (parent ? parent.folders : tree.folders).push(node);
+    }
+
+    for (const row of dashboardRows) {
+        const oid = String(row['oid']);
+        const summary: DashboardSummary = {
+            oid,
+            title: typeof row['title'] === 'string' ? row['title'] : oid,
+            owner: typeof row['owner'] === 'string' ? row['owner'] : undefined,
+        };
+        const folderId = typeof row['parentFolder'] === 'string' ? row['parentFolder'] : null;
+        const folder = folderId ? nodes.get(folderId) : undefined;
+        (folder ? folder.dashboards : tree.dashboards).push(summary);
+    }
+
+    sortFolder(tree);
+    return tree;
+}
+
+function sortFolder(folder: Pick<FolderNode, 'folders' | 'dashboards'>): void {
+    folder.folders.sort((a, b) => a.name.localeCompare(b.name));
+    folder.dashboards.sort((a, b) => a.title.localeCompare(b.title));
+    folder.folders.forEach(sortFolder);
+}
+
+function findFolder(folders: FolderNode[], folderId: string): FolderNode | undefined {
+    for (const folder of folders) {
+        if (folder.oid === folderId) {
+            return folder;
+        }
+        const match = findFolder(folder.folders, folderId);
+        if (match) {
+            return match;
+        }
     }
+    return undefined;
 }
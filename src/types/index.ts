@@ -1,6 +1,5 @@
 import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import type { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import type { LogLevel } from '../config/environment.js';
+import type { LogLevel, TransportMode } from '../config/environment.js';
 
 // MCP Server Configuration
 export interface MCPServerConfig {
@@ -9,13 +8,79 @@ export interface MCPServerConfig {
     description: string;
     host: string;
     port: number;
+    path: string;
+    // HTTP sessions idle for longer than this are closed (0 keeps them open)
+    sessionIdleMs: number;
+    maxSessions: number;
+    // Bearer token HTTP clients must send (empty string means "not required")
+    authToken: string;
+    transport: TransportMode;
     logLevel: LogLevel;
+    toolPolicy: ToolPolicyOptions;
 }
 
-// Sisense Configuration
+// Sisense Configuration (empty strings mean "not set")
 export interface SisenseConfig {
     url: string;
     apiKey: string;
+    username: string;
+    password: string;
+}
+
+// Retry policy for Sisense requests
+export interface RetryPolicy {
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+// Circuit breaker settings for Sisense requests
+export interface CircuitBreakerOptions {
+    failureThreshold: number;
+    resetTimeoutMs: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// Groups of cached Sisense endpoints, each with its own TTL
+export type CacheCategory =
+    | 'datasources'
+    | 'dashboards'
+    | 'folders'
+    | 'cubes'
+    | 'cubeMetadata'
+    | 'profiles'
+    | 'fieldUsage';
+
+// Response cache settings
+export interface ResponseCacheOptions {
+    maxEntries: number;
+    /** How long past its TTL an entry may be served while it is refreshed */
+    staleMs: number;
+}
+
+// Optional tuning for SisenseService
+export interface SisenseServiceOptions {
+    requestTimeoutMs?: number;
+    retry?: Partial<RetryPolicy>;
+    circuitBreaker?: Partial<CircuitBreakerOptions>;
+    cache?: Partial<ResponseCacheOptions> & {
+        enabled?: boolean;
+        ttls?: Partial<Record<CacheCategory, number>>;
+    };
+    /** How often a running ElastiCube build is polled */
+    buildPollIntervalMs?: number;
+    /** How many dashboards are loaded at once when indexing field usage */
+    scanConcurrency?: number;
+    /** Time limit for building the field usage index, which outlives the calls waiting on it */
+    scanTimeoutMs?: number;
+}
+
+// Per-call options for SisenseService methods
+export interface CallOptions {
+    signal?: AbortSignal | undefined;
+    /** Bypass cached responses and fetch fresh data */
+    refresh?: boolean | undefined;
 }
 
 // Tool Definition
@@ -23,6 +88,24 @@ export interface ToolDefinition {
     name: string;
     description: string;
     inputSchema: Record<string, unknown>;
+    /** MCP tool annotations; read-only mode hides tools without `readOnlyHint: true` */
+    annotations: ToolAnnotations;
+}
+
+export interface ToolAnnotations {
+    /** The tool does not change anything in Sisense or write files on the server host */
+    readOnlyHint: boolean;
+    /** A mutating tool may delete or overwrite existing content */
+    destructiveHint?: boolean;
+}
+
+// Which tools may be listed and called
+export interface ToolPolicyOptions {
+    readOnly: boolean;
+    /** Tool name patterns (`*` and `?` globs); when non-empty only matching tools are allowed */
+    allow: string[];
+    /** Tool name patterns that are never allowed, even when also allowed */
+    deny: string[];
 }
 
 // Resource Definition
@@ -33,6 +116,436 @@ export interface ResourceDefinition {
     mimeType?: string;
 }
 
+// Resource template (RFC 6570 URI template) advertised via resources/templates/list
+export type ResourceType =
+    | 'dashboard'
+    | 'widget'
+    | 'folder'
+    | 'cube'
+    | 'dashboardExport'
+    | 'widgetExport';
+
+export interface ResourceTemplateDefinition {
+    uriTemplate: string;
+    name: string;
+    description?: string;
+    mimeType?: string;
+}
+
+// Normalized JAQL query result
+export interface JaqlResult {
+    datasource: string;
+    headers: string[];
+    rows: unknown[][];
+    rowCount: number;
+}
+
+// Filter overrides for widget data, keyed by dimension
+export type DateLevel = 'years' | 'quarters' | 'months' | 'weeks' | 'days';
+
+export type FilterOverride =
+    | { members: string[]; exclude?: boolean | undefined }
+    | {
+          dateRange: { from?: string | undefined; to?: string | undefined };
+          level?: DateLevel | undefined;
+      }
+    | {
+          relative: { period: 'last' | 'next'; count: number; offset?: number | undefined };
+          level: DateLevel;
+      }
+    | { numericRange: { min?: number | undefined; max?: number | undefined } };
+
+export interface FilterOverrides {
+    filters?: Record<string, FilterOverride> | undefined;
+    /** `extend` (default) keeps saved dashboard filters on other dimensions; `replace` drops them */
+    filterMode?: 'extend' | 'replace' | undefined;
+}
+
+// Data model schema, normalized from the Sisense datamodel API
+export type ColumnDataType = 'text' | 'numeric' | 'datetime' | 'boolean' | 'other';
+
+export interface DataModelTable {
+    id: string;
+    name: string;
+    dataset?: string | undefined;
+    columnCount: number;
+    hidden: boolean;
+}
+
+export interface DataModelColumn {
+    table: string;
+    name: string;
+    /** JAQL dimension, e.g. "[Commerce.Revenue]" */
+    dim: string;
+    dataType: ColumnDataType;
+    /** Numeric columns can be aggregated as measures; everything else is a dimension */
+    role: 'dimension' | 'measure';
+    hidden: boolean;
+}
+
+export interface DataModelRelation {
+    id: string;
+    /** Columns joined by the relation */
+    columns: Array<{ table: string; column: string; dim: string }>;
+}
+
+export interface DataModelSchema {
+    id: string;
+    title: string;
+    tables: DataModelTable[];
+    columns: DataModelColumn[];
+    relations: DataModelRelation[];
+}
+
+// Value distribution of a single field, from profile_field
+export interface FieldProfile {
+    datasource: string;
+    field: string;
+    dataType: ColumnDataType;
+    rowCount: number;
+    distinctCount: number;
+    nullCount: number;
+    /** nullCount / rowCount */
+    nullRatio: number;
+    /** Numeric and date fields only */
+    min?: unknown;
+    max?: unknown;
+    topValues: Array<{ value: unknown; count: number }>;
+}
+
+// Structured query compiled to JAQL by build_query
+export type Aggregation = 'sum' | 'avg' | 'min' | 'max' | 'median' | 'count' | 'countDistinct';
+
+export interface QuerySpec {
+    datasource: string;
+    dimensions?:
+        | Array<{ field: string; level?: DateLevel | undefined; title?: string | undefined }>
+        | undefined;
+    measures?:
+        | Array<{ field: string; aggregation: Aggregation; title?: string | undefined }>
+        | undefined;
+    filters?: Record<string, FilterOverride> | undefined;
+    sort?: { field: string; direction: 'asc' | 'desc' } | undefined;
+    limit?: number | undefined;
+}
+
+export interface CompiledQuery {
+    datasource: string;
+    jaql: { metadata: Array<{ jaql: Record<string, unknown>; panel: string }>; count?: number };
+}
+
+// A filter that was applied to a query, and where it came from
+export interface AppliedFilter {
+    dim: string;
+    source: 'widget' | 'dashboard' | 'override';
+    jaql: Record<string, unknown>;
+}
+
+// Data a dashboard widget displays
+export interface WidgetData extends JaqlResult {
+    dashboardId: string;
+    widgetId: string;
+    title?: string | undefined;
+    widgetType?: string | undefined;
+    filters: AppliedFilter[];
+}
+
+// ElastiCube builds
+export type BuildType = 'full' | 'by_table' | 'schema_changes';
+
+export interface BuildTask {
+    oid: string;
+    cubeId: string;
+    cubeTitle?: string | undefined;
+    buildType?: string | undefined;
+    /** Sisense build status, e.g. waiting, building, done, failed or cancelled */
+    status: string;
+    created?: string | undefined;
+    started?: string | undefined;
+    completed?: string | undefined;
+}
+
+export interface BuildStatus {
+    cubeId: string;
+    building: boolean;
+    latestBuild: BuildTask | null;
+    /** Completion time of the most recent successful build */
+    lastSuccessfulBuild: string | null;
+}
+
+// Progress update for a long-running tool call
+export interface ProgressUpdate {
+    progress: number;
+    total?: number | undefined;
+    message?: string | undefined;
+}
+
+export type ProgressReporter = (update: ProgressUpdate) => Promise<void>;
+
+// Dashboards and widgets rendered by Sisense
+export type RenderFormat = 'png' | 'pdf';
+
+export interface RenderOptions {
+    /** Image size in pixels (PNG) */
+    width?: number | undefined;
+    height?: number | undefined;
+    /** Page setup (PDF) */
+    paperFormat?: 'A4' | 'A3' | 'Letter' | 'Legal' | 'Tabloid' | undefined;
+    paperOrientation?: 'portrait' | 'landscape' | undefined;
+}
+
+export interface RenderedFile {
+    format: RenderFormat;
+    mimeType: string;
+    /** Base64-encoded file content */
+    data: string;
+    bytes: number;
+}
+
+// Query results written to a local file
+export type ExportFormat = 'csv' | 'jsonl';
+
+export interface ExportResult {
+    path: string;
+    fileName: string;
+    format: ExportFormat;
+    rowCount: number;
+    bytes: number;
+}
+
+// Filters, sorting and paging for dashboard listings
+export interface DashboardListQuery {
+    search?: string | undefined;
+    ownerId?: string | undefined;
+    folderId?: string | undefined;
+    sort?: string | undefined;
+    fields?: string[] | undefined;
+    skip?: number | undefined;
+    limit?: number | undefined;
+}
+
+// One page of a dashboard listing
+export interface DashboardPage {
+    dashboards: Record<string, unknown>[];
+    skip: number;
+    limit: number;
+    count: number;
+    /** Pass back as `cursor` to fetch the next page; absent on the last page */
+    nextCursor?: string;
+}
+
+// Datasource reference stored on dashboards and widgets
+export interface DatasourceRef {
+    title: string;
+    fullname: string;
+    id?: string | undefined;
+}
+
+// Dashboard created through create_dashboard
+export interface DashboardInput {
+    title: string;
+    description?: string | undefined;
+    /** Cube title or ID */
+    datasource: string;
+    folderId?: string | undefined;
+    /** Sisense columnar layout: columns > cells > subcells > elements ({widgetid}) */
+    layout?: Record<string, unknown> | undefined;
+    /** Dashboard filters, each an object with a `jaql` filter */
+    filters?: Record<string, unknown>[] | undefined;
+}
+
+export interface DashboardChanges {
+    title?: string | undefined;
+    description?: string | undefined;
+    layout?: Record<string, unknown> | undefined;
+    filters?: Record<string, unknown>[] | undefined;
+}
+
+export interface DuplicateDashboardOptions {
+    title?: string | undefined;
+    folderId?: string | undefined;
+}
+
+// A widget panel, e.g. "categories" or "values", holding JAQL items
+export interface WidgetPanel {
+    name: string;
+    items: Record<string, unknown>[];
+}
+
+// Widget added through add_widget
+export interface WidgetInput {
+    /** Sisense widget type, e.g. "indicator", "chart/column" or "pivot2" */
+    type: string;
+    subtype?: string | undefined;
+    title?: string | undefined;
+    description?: string | undefined;
+    /** Cube title or ID; defaults to the dashboard's datasource */
+    datasource?: string | undefined;
+    panels?: WidgetPanel[] | undefined;
+    style?: Record<string, unknown> | undefined;
+}
+
+export type WidgetChanges = { [K in keyof WidgetInput]?: WidgetInput[K] | undefined };
+
+// Outcome of the layout update that follows adding or deleting a widget
+export interface WidgetLayoutResult {
+    layoutUpdated: boolean;
+    /** Why the layout was not updated; the widget change itself did go through */
+    warning?: string | undefined;
+}
+
+export interface AddedWidget extends WidgetLayoutResult {
+    widget: Record<string, unknown>;
+}
+
+// Dashboard definition with its widgets, as stored in .dash files
+export type DashFile = Record<string, unknown> & {
+    oid: string;
+    title: string;
+    widgets: Record<string, unknown>[];
+};
+
+export interface DashFileResult {
+    path: string;
+    fileName: string;
+    dashboardId: string;
+    title: string;
+    widgetCount: number;
+    bytes: number;
+}
+
+// What to do when an imported dashboard already exists
+export type DashboardConflictAction = 'overwrite' | 'duplicate';
+
+export interface DashboardImportOptions {
+    /** `duplicate` (default) imports a copy next to the existing dashboard */
+    onConflict?: DashboardConflictAction | undefined;
+    /** Datasource title in the file -> cube title or ID to use instead */
+    datasourceMap?: Record<string, string> | undefined;
+}
+
+export interface DashboardImportResult {
+    dashboardId: string;
+    title: string;
+    widgetCount: number;
+    onConflict: DashboardConflictAction;
+    /** Datasource titles that were replaced, with the title now used */
+    remapped: Record<string, string>;
+}
+
+// Semantic differences between two versions of a dashboard, from diff_dashboards
+export interface DashboardChange {
+    area: 'dashboard' | 'filters' | 'widgets' | 'layout';
+    /** The dashboard, filter dimension, widget or layout part that changed */
+    target: string;
+    change: 'added' | 'removed' | 'changed' | 'moved';
+    detail: string;
+}
+
+export interface DashboardVersion {
+    /** Where this version came from, e.g. "dashboard d1" or "file sales.dash" */
+    source: string;
+    dashboardId: string;
+    title: string;
+}
+
+export interface DashboardDiff {
+    before: DashboardVersion;
+    after: DashboardVersion;
+    identical: boolean;
+    changes: DashboardChange[];
+}
+
+// Where a field is referenced, from find_field_usage
+export type FieldUsageLocation = 'widget' | 'widget filter' | 'dashboard filter';
+
+export interface FieldReference {
+    dashboardId: string;
+    dashboardTitle: string;
+    widgetId?: string | undefined;
+    widgetTitle?: string | undefined;
+    location: FieldUsageLocation;
+    /** Widget panel holding the reference, e.g. "values" */
+    panel?: string | undefined;
+    datasource?: string | undefined;
+    table: string;
+    column: string;
+    /** JAQL dimension as written, e.g. "[Commerce.Date (Calendar)]" */
+    dim: string;
+    /** Referenced from a formula's context rather than directly */
+    inFormula: boolean;
+}
+
+export interface FieldUsageIndex {
+    builtAt: string;
+    dashboardCount: number;
+    references: FieldReference[];
+    /** Dashboards whose widgets could not be loaded */
+    skipped: Array<{ dashboardId: string; title: string; error: string }>;
+}
+
+export interface FieldUsageQuery {
+    /** Datasource title */
+    datasource?: string | undefined;
+    table?: string | undefined;
+    column?: string | undefined;
+}
+
+export interface FieldUsageResult {
+    query: FieldUsageQuery;
+    indexedAt: string;
+    dashboardsScanned: number;
+    /** Dashboards and widgets with at least one matching reference */
+    dashboardCount: number;
+    widgetCount: number;
+    usages: FieldReference[];
+    skipped: FieldUsageIndex['skipped'];
+}
+
+// Folder hierarchy
+export interface DashboardSummary {
+    oid: string;
+    title: string;
+    owner?: string | undefined;
+}
+
+export interface FolderNode {
+    oid: string;
+    name: string;
+    owner?: string | undefined;
+    parentId: string | null;
+    folders: FolderNode[];
+    dashboards: DashboardSummary[];
+}
+
+export interface FolderTree {
+    folders: FolderNode[];
+    /** Dashboards that are not filed in any folder */
+    dashboards: DashboardSummary[];
+}
+
+// Content items of a tool result
+export type ToolContent =
+    | { type: 'text'; text: string }
+    | {
+          type: 'resource_link';
+          uri: string;
+          name: string;
+          mimeType?: string | undefined;
+          size?: number | undefined;
+      }
+    | { type: 'image'; data: string; mimeType: string }
+    | { type: 'resource'; resource: ResourceContent };
+
+// Content items of a resource read
+export type ResourceContent =
+    | { uri: string; mimeType: string; text: string }
+    | { uri: string; mimeType: string; blob: string };
+
+export type ToolResult = {
+    content: ToolContent[];
+};
+
 // Error Types
 export class MCPServerError extends Error {
     constructor(
@@ -100,6 +613,38 @@ export class NetworkError extends MCPServerError {
     }
 }
 
+export class TimeoutError extends MCPServerError {
+    constructor(message: string, context?: Record<string, unknown>) {
+        super(message, 'TIMEOUT', 504, context);
+        this.name = 'TimeoutError';
+        Object.setPrototypeOf(this, TimeoutError.prototype);
+    }
+}
+
+export class RequestCancelledError extends MCPServerError {
+    constructor(message: string, context?: Record<string, unknown>) {
+        super(message, 'REQUEST_CANCELLED', 499, context);
+        this.name = 'RequestCancelledError';
+        Object.setPrototypeOf(this, RequestCancelledError.prototype);
+    }
+}
+
+export class ToolNotAllowedError extends MCPServerError {
+    constructor(message: string, context?: Record<string, unknown>) {
+        super(message, 'TOOL_NOT_ALLOWED', 403, context);
+        this.name = 'ToolNotAllowedError';
+        Object.setPrototypeOf(this, ToolNotAllowedError.prototype);
+    }
+}
+
+export class CircuitOpenError extends MCPServerError {
+    constructor(message: string, context?: Record<string, unknown>) {
+        super(message, 'CIRCUIT_OPEN', 503, context);
+        this.name = 'CircuitOpenError';
+        Object.setPrototypeOf(this, CircuitOpenError.prototype);
+    }
+}
+
 // Logger Interface
 export interface Logger {
     error(message: string, data?: Record<string, unknown>): void;
@@ -111,7 +656,7 @@ export interface Logger {
 // MCP Server Instance
 export interface MCPServerInstance {
     server: Server;
-    transport: StdioServerTransport;
+    transportMode: TransportMode;
     start(): Promise<void>;
     stop(): Promise<void>;
 }
@@ -0,0 +1,38 @@
+/**
+ * Combine an optional caller signal (e.g. MCP cancellation) with a timeout
+ */
+export function withTimeout(timeoutMs: number, signal?: AbortSignal): AbortSignal {
+    const timeout = AbortSignal.timeout(timeoutMs);
+    return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+/**
+ * Whether an aborted signal was aborted by a timeout rather than a cancellation
+ */
+export function isTimeoutReason(reason: unknown): boolean {
+    // AbortSignal.timeout() aborts with a DOMException, which is not always an Error instance
+    return (
+        typeof reason === 'object' &&
+        reason !== null &&
+        (reason as { name?: unknown }).name === 'TimeoutError'
+    );
+}
+
+/**
+ * Settle with the promise, or reject with the signal's reason as soon as it aborts.
+ * The underlying work keeps running, which suits shared work such as cache loads.
+ */
+export function raceSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+        return promise;
+    }
+    if (signal.aborted) {
+        return Promise.reject(signal.reason);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
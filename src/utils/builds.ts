@@ -0,0 +1,47 @@
+import type { BuildStatus, BuildTask } from '../types/index.js';
+import { asString } from './records.js';
+
+// Statuses after which a build no longer changes
+const FINISHED_STATUSES = new Set(['done', 'failed', 'cancelled', 'canceled']);
+const SUCCESS_STATUS = 'done';
+
+/**
+ * Normalize a build task from the Sisense builds API
+ */
+export function normalizeBuild(raw: Record<string, unknown>): BuildTask {
+    return {
+        oid: asString(raw['oid']) ?? asString(raw['_id']) ?? '',
+        cubeId: asString(raw['datamodelId']) ?? '',
+        cubeTitle: asString(raw['datamodelTitle']),
+        buildType: asString(raw['buildType']),
+        status: (asString(raw['status']) ?? 'unknown').toLowerCase(),
+        created: asString(raw['created']),
+        started: asString(raw['started']),
+        completed: asString(raw['completed']),
+    };
+}
+
+export function isBuildFinished(build: BuildTask): boolean {
+    return FINISHED_STATUSES.has(build.status);
+}
+
+/**
+ * Freshness of a cube from its builds: the latest build and when the last successful one completed
+ */
+export function summarizeBuilds(cubeId: string, builds: BuildTask[]): BuildStatus {
+    const sorted = [...builds].sort((a, b) => buildTime(b) - buildTime(a));
+    const latestBuild = sorted[0] ?? null;
+    const lastSuccess = sorted.find(build => build.status === SUCCESS_STATUS);
+
+    return {
+        cubeId,
+        building: latestBuild !== null && !isBuildFinished(latestBuild),
+        latestBuild,
+        lastSuccessfulBuild: lastSuccess?.completed ?? lastSuccess?.created ?? null,
+    };
+}
+
+function buildTime(build: BuildTask): number {
+    const time = Date.parse(build.created ?? build.started ?? '');
+    return Number.isNaN(time) ? 0 : time;
+}
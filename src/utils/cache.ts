@@ -0,0 +1,117 @@
+import type { ResponseCacheOptions } from '../types/index.js';
+import { logger } from './logger.js';
+
+interface CacheEntry {
+    value: unknown;
+    storedAt: number;
+    ttlMs: number;
+}
+
+export interface CacheLoadOptions {
+    ttlMs: number;
+    /** Skip any cached value and load a fresh one */
+    refresh?: boolean | undefined;
+}
+
+/**
+ * In-memory TTL cache with LRU eviction, stale-while-revalidate and
+ * single-flight loading (concurrent loads of one key share a promise).
+ */
+export class ResponseCache {
+    private readonly entries = new Map<string, CacheEntry>();
+    private readonly inFlight = new Map<string, Promise<unknown>>();
+
+    constructor(
+        private readonly options: ResponseCacheOptions,
+        private readonly now: () => number = Date.now
+    ) {}
+
+    public get size(): number {
+        return this.entries.size;
+    }
+
+    public async getOrLoad<T>(
+        key: string,
+        loader: () => Promise<T>,
+        options: CacheLoadOptions
+    ): Promise<T> {
+        const entry = options.refresh ? undefined : this.entries.get(key);
+
+        if (entry) {
+            const age = this.now() - entry.storedAt;
+
+            if (age < entry.ttlMs) {
+                // Re-insert to mark as most recently used
+                this.entries.delete(key);
+                this.entries.set(key, entry);
+                logger.debug('Cache hit', { key, ageMs: age });
+                return entry.value as T;
+            }
+
+            if (age < entry.ttlMs + this.options.staleMs) {
+                logger.debug('Serving stale cache entry while revalidating', { key, ageMs: age });
+                this.load(key, loader, options.ttlMs).catch(error => {
+                    logger.warn('Background cache revalidation failed', {
+                        key,
+                        error: error instanceof Error ? error.message : String(error),
+                    });
+                });
+                return entry.value as T;
+            }
+        }
+
+        logger.debug('Cache miss', { key, refresh: Boolean(options.refresh) });
+        return this.load(key, loader, options.ttlMs);
+    }
+
+    /**
+     * Drop entries whose key starts with the prefix, or all entries without one
+     */
+    public invalidate(prefix?: string): void {
+        if (prefix === undefined) {
+            this.entries.clear();
+            return;
+        }
+
+        for (const key of [...this.entries.keys()]) {
+            if (key.startsWith(prefix)) {
+                this.entries.delete(key);
+            }
+        }
+    }
+
+    private load<T>(key: string, loader: () => Promise<T>, ttlMs: number): Promise<T> {
+        const pending = this.inFlight.get(key);
+        if (pending) {
+            return pending as Promise<T>;
+        }
+
+        const promise = loader()
+            .then(value => {
+                this.set(key, value, ttlMs);
+                return value;
+            })
+            .finally(() => {
+                this.inFlight.delete(key);
+            });
+
+        this.inFlight.set(key, promise);
+        return promise;
+    }
+
+    private set(key: string, value: unknown, ttlMs: number): void {
+        if (ttlMs <= 0 || this.options.maxEntries <= 0) {
+            return;
+        }
+
+        this.entries.delete(key);
+        this.entries.set(key, { value, storedAt: this.now(), ttlMs });
+
+        // Maps iterate in insertion order, so the first key is the least recently used
+        while (this.entries.size > this.options.maxEntries) {
+            const oldest = this.entries.keys().next().value as string;
+            this.entries.delete(oldest);
+            logger.debug('Evicted cache entry', { key: oldest });
+        }
+    }
+}
@@ -0,0 +1,104 @@
+import type { CircuitBreakerOptions, CircuitState } from '../types/index.js';
+import { CircuitOpenError } from '../types/index.js';
+import { logger } from './logger.js';
+
+/**
+ * Tracks consecutive failures of a remote service. After `failureThreshold` failures the
+ * circuit opens and requests fail fast; once `resetTimeoutMs` has passed a single probe
+ * request is let through (half-open) to decide whether to close it again.
+ */
+export class CircuitBreaker {
+    private state: CircuitState = 'closed';
+    private consecutiveFailures = 0;
+    private openedAt = 0;
+    private probeInFlight = false;
+
+    constructor(
+        private readonly name: string,
+        private readonly options: CircuitBreakerOptions,
+        private readonly now: () => number = Date.now
+    ) {}
+
+    public getState(): CircuitState {
+        return this.state;
+    }
+
+    /**
+     * Throw CircuitOpenError if requests should not be sent right now
+     */
+    public assertRequestAllowed(): void {
+        if (this.state === 'open') {
+            const elapsed = this.now() - this.openedAt;
+            if (elapsed < this.options.resetTimeoutMs) {
+                throw new CircuitOpenError(
+                    `${this.name} is unavailable after repeated failures; not sending requests for another ${Math.ceil((this.options.resetTimeoutMs - elapsed) / 1000)}s`,
+                    {
+                        service: this.name,
+                        consecutiveFailures: this.consecutiveFailures,
+                        retryAfterMs: this.options.resetTimeoutMs - elapsed,
+                    }
+                );
+            }
+            this.transition('half-open');
+        }
+
+        if (this.state === 'half-open') {
+            if (this.probeInFlight) {
+                throw new CircuitOpenError(
+                    `${this.name} is recovering; waiting for a probe request to complete`,
+                    { service: this.name }
+                );
+            }
+            this.probeInFlight = true;
+        }
+    }
+
+    public recordSuccess(): void {
+        this.probeInFlight = false;
+        this.consecutiveFailures = 0;
+        if (this.state !== 'closed') {
+            this.transition('closed');
+        }
+    }
+
+    /**
+     * A request that ended without an answer from the service, e.g. one the caller
+     * cancelled: counts as neither success nor failure but frees the probe slot
+     */
+    public recordAbort(): void {
+        this.probeInFlight = false;
+    }
+
+    public recordFailure(): void {
+        this.probeInFlight = false;
+        this.consecutiveFailures++;
+
+        if (
+            this.state === 'half-open' ||
+            (this.state === 'closed' && this.consecutiveFailures >= this.options.failureThreshold)
+        ) {
+            this.openedAt = this.now();
+            this.transition('open');
+        }
+    }
+
+    private transition(state: CircuitState): void {
+        const previous = this.state;
+        this.state = state;
+
+        const data = {
+            service: this.name,
+            from: previous,
+            to: state,
+            consecutiveFailures: this.consecutiveFailures,
+        };
+        if (state === 'open') {
+            logger.warn('Circuit breaker opened', {
+                ...data,
+                resetTimeoutMs: this.options.resetTimeoutMs,
+            });
+        } else {
+            logger.info('Circuit breaker state changed', data);
+        }
+    }
+}
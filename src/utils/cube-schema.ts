@@ -0,0 +1,82 @@
+import { isRecord } from './records.js';
+
+interface SchemaColumn {
+    name: string;
+    type?: string | undefined;
+}
+
+interface SchemaTable {
+    name: string;
+    columns: SchemaColumn[];
+}
+
+// Columns listed per table before the rest are elided
+const MAX_SUMMARY_COLUMNS = 25;
+
+/**
+ * Collect tables from cube metadata. Accepts tables at the top level or nested in
+ * data model datasets (`datasets[].schema.tables`).
+ */
+function extractTables(metadata: Record<string, unknown>): SchemaTable[] {
+    const rawTables: unknown[] = [];
+
+    if (Array.isArray(metadata['tables'])) {
+        rawTables.push(...metadata['tables']);
+    }
+    if (Array.isArray(metadata['datasets'])) {
+        for (const dataset of metadata['datasets']) {
+            const tables = (dataset as { schema?: { tables?: unknown } })?.schema?.tables;
+            if (Array.isArray(tables)) {
+                rawTables.push(...tables);
+            }
+        }
+    }
+
+    return rawTables.filter(isRecord).map(table => ({
+        name: getName(table) ?? 'unnamed',
+        columns: (Array.isArray(table['columns']) ? table['columns'] : [])
+            .filter(isRecord)
+            .map(column => ({
+                name: getName(column) ?? 'unnamed',
+                type: getType(column),
+            })),
+    }));
+}
+
+/**
+ * Render a compact, human-readable outline of a cube's tables and columns
+ */
+export function summarizeCubeSchema(cubeId: string, metadata: Record<string, unknown>): string {
+    const title = getName(metadata) ?? cubeId;
+    const tables = extractTables(metadata);
+
+    if (tables.length === 0) {
+        return `Cube: ${title}\nNo table information available.`;
+    }
+
+    const lines = [`Cube: ${title} (${tables.length} ${tables.length === 1 ? 'table' : 'tables'})`];
+    for (const table of tables) {
+        const columns = table.columns
+            .slice(0, MAX_SUMMARY_COLUMNS)
+            .map(column => (column.type ? `${column.name} (${column.type})` : column.name));
+        if (table.columns.length > MAX_SUMMARY_COLUMNS) {
+            columns.push(`… ${table.columns.length - MAX_SUMMARY_COLUMNS} more`);
+        }
+        lines.push(`- ${table.name}: ${columns.length > 0 ? columns.join(', ') : 'no columns'}`);
+    }
+    return lines.join('\n');
+}
+
+function getName(value: Record<string, unknown>): string | undefined {
+    for (const key of ['title', 'name', 'id']) {
+        if (typeof value[key] === 'string' && value[key]) {
+            return value[key] as string;
+        }
+    }
+    return undefined;
+}
+
+function getType(column: Record<string, unknown>): string | undefined {
+    const type = column['dataType'] ?? column['type'];
+    return typeof type === 'string' || typeof type === 'number' ? String(type) : undefined;
+}
@@ -0,0 +1,153 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import type { DashFile, DashFileResult, DatasourceRef } from '../types/index.js';
+import { NotFoundError, ValidationError } from '../types/index.js';
+import { safeParse } from './json.js';
+import { dashFileSchema, validateInput } from './validation.js';
+import { datasourceTitle } from './records.js';
+
+export const DASH_FILE_EXTENSION = '.dash';
+export const DASH_MIME_TYPE = 'application/json';
+
+export interface DashFileOptions {
+    directory: string;
+    /** File name, with or without the .dash extension */
+    fileName: string;
+    /** Replace an existing file instead of refusing to write */
+    overwrite?: boolean | undefined;
+}
+
+/**
+ * A dashboard with its widgets embedded, in the shape Sisense uses for .dash files
+ */
+export function toDashFile(
+    dashboard: Record<string, unknown>,
+    widgets: Record<string, unknown>[]
+): DashFile {
+    return validateInput(dashFileSchema, { ...dashboard, widgets });
+}
+
+/**
+ * Write a dashboard definition as indented JSON, so backups diff well under version control
+ */
+export async function writeDashFile(
+    dash: DashFile,
+    options: DashFileOptions
+): Promise<DashFileResult> {
+    const directory = resolve(options.directory);
+    const fileName = withDashExtension(options.fileName);
+    const path = join(directory, fileName);
+    const text = `${JSON.stringify(dash, null, 2)}\n`;
+
+    await mkdir(directory, { recursive: true });
+    await writeFile(path, text, { flag: options.overwrite ? 'w' : 'wx' }).catch(
+        (error: unknown) => {
+            if (errorCode(error) === 'EEXIST') {
+                throw new ValidationError(
+                    `Dashboard file already exists: ${fileName}; pass overwrite to replace it`,
+                    { path }
+                );
+            }
+            throw error;
+        }
+    );
+
+    return {
+        path,
+        fileName,
+        dashboardId: dash.oid,
+        title: dash.title,
+        widgetCount: dash.widgets.length,
+        bytes: Buffer.byteLength(text),
+    };
+}
+
+/**
+ * Read and validate a dashboard definition from the export directory
+ */
+export async function readDashFile(directory: string, fileName: string): Promise<DashFile> {
+    const path = join(resolve(directory), withDashExtension(fileName));
+    const text = await readFile(path, 'utf8').catch((error: unknown) => {
+        if (errorCode(error) === 'ENOENT') {
+            throw new NotFoundError(`Dashboard file not found: ${fileName}`, { path });
+        }
+        throw error;
+    });
+
+    const parsed = safeParse<unknown>(text);
+    if (parsed === null) {
+        throw new ValidationError(`Dashboard file is not valid JSON: ${fileName}`, { path });
+    }
+    return validateInput(dashFileSchema, parsed);
+}
+
+/**
+ * Titles of the datasources a dashboard definition refers to, including those in widget
+ * and filter JAQL
+ */
+export function getDatasourceTitles(dash: DashFile): string[] {
+    const titles = new Set<string>();
+    visitDatasources(dash, datasource => {
+        const title = datasourceTitle(datasource);
+        if (title) {
+            titles.add(title);
+        }
+        return datasource;
+    });
+    return [...titles].sort();
+}
+
+/**
+ * Copy of a dashboard definition with every datasource whose title is mapped replaced
+ */
+export function remapDatasources(dash: DashFile, map: Record<string, DatasourceRef>): DashFile {
+    return visitDatasources(dash, datasource => {
+        const title = datasourceTitle(datasource);
+        const target = title !== undefined && Object.hasOwn(map, title) ? map[title] : undefined;
+        if (!target) {
+            return datasource;
+        }
+        // JAQL sometimes names the datasource by title alone
+        return typeof datasource === 'string' ? target.title : { ...target };
+    }) as DashFile;
+}
+
+/**
+ * ID of the dashboard Sisense created from a bulk import, and the entries it rejected
+ */
+export function readImportResponse(response: unknown): {
+    dashboardId: string | undefined;
+    failed: unknown[];
+} {
+    const record = (response ?? {}) as Record<string, unknown>;
+    // Sisense spells it "succeded"
+    const succeeded = [record['succeded'], record['succeeded']].find(Array.isArray) ?? [];
+    const oid = (succeeded[0] as { oid?: unknown } | undefined)?.oid;
+    return {
+        dashboardId: typeof oid === 'string' ? oid : undefined,
+        failed: Array.isArray(record['failed']) ? record['failed'] : [],
+    };
+}
+
+function visitDatasources(value: unknown, replace: (datasource: unknown) => unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(item => visitDatasources(item, replace));
+    }
+    if (typeof value !== 'object' || value === null) {
+        return value;
+    }
+    return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+            key,
+            key === 'datasource' ? replace(item) : visitDatasources(item, replace),
+        ])
+    );
+}
+
+function withDashExtension(fileName: string): string {
+    return fileName.endsWith(DASH_FILE_EXTENSION) ? fileName : `${fileName}${DASH_FILE_EXTENSION}`;
+}
+
+function errorCode(error: unknown): unknown {
+    return (error as { code?: unknown } | null)?.code;
+}
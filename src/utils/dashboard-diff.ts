@@ -0,0 +1,477 @@
+import type { DashboardChange, DashboardDiff, DashFile } from '../types/index.js';
+import { asRecord, asRecords, asString, datasourceTitle, isRecord } from './records.js';
+import { FILTER_PANELS, MEASURE_PANELS } from './widget-jaql.js';
+
+export interface DashboardSnapshot {
+    /** Where this version came from, e.g. "dashboard d1" or "file sales.dash" */
+    source: string;
+    dash: DashFile;
+}
+
+interface PanelItem {
+    panel: string;
+    kind: 'dimension' | 'measure' | 'filter';
+    jaql: Record<string, unknown>;
+    disabled: boolean;
+}
+
+interface LayoutPosition {
+    column: number;
+    row: number;
+    height: unknown;
+}
+
+/**
+ * Compare two versions of a dashboard: its properties, dashboard filters, widgets (their
+ * titles, types and JAQL dimensions, measures and filters) and layout. Widgets are matched
+ * by ID, then by title, so copies of a dashboard can be compared too.
+ */
+export function diffDashboards(before: DashboardSnapshot, after: DashboardSnapshot): DashboardDiff {
+    const { pairs, removed, added } = matchWidgets(before.dash.widgets, after.dash.widgets);
+
+    const changes = [
+        ...diffProperties(before.dash, after.dash),
+        ...diffFilters(asRecords(before.dash['filters']), asRecords(after.dash['filters'])),
+        ...removed.map(widget =>
+            widgetChange(widget, 'removed', `Widget removed (${describeWidget(widget)})`)
+        ),
+        ...added.map(widget =>
+            widgetChange(widget, 'added', `Widget added (${describeWidget(widget)})`)
+        ),
+        ...pairs.flatMap(([old, current]) => diffWidget(old, current)),
+        ...diffLayout(before.dash['layout'], after.dash['layout'], pairs),
+    ];
+
+    return {
+        before: toVersion(before),
+        after: toVersion(after),
+        identical: changes.length === 0,
+        changes,
+    };
+}
+
+function diffProperties(before: DashFile, after: DashFile): DashboardChange[] {
+    const changes: DashboardChange[] = [];
+    const compare = (label: string, old: unknown, current: unknown) => {
+        if (!sameValue(old, current)) {
+            changes.push({
+                area: 'dashboard',
+                target: after.title,
+                change: 'changed',
+                detail: `${label} changed from ${show(old)} to ${show(current)}`,
+            });
+        }
+    };
+
+    compare('Title', before.title, after.title);
+    compare('Description', before['desc'] || undefined, after['desc'] || undefined);
+    compare(
+        'Datasource',
+        datasourceTitle(before['datasource']),
+        datasourceTitle(after['datasource'])
+    );
+    return changes;
+}
+
+function diffFilters(
+    before: Record<string, unknown>[],
+    after: Record<string, unknown>[]
+): DashboardChange[] {
+    const oldFilters = keyBy(before, filterKey);
+    const newFilters = keyBy(after, filterKey);
+    const changes: DashboardChange[] = [];
+
+    for (const [key, filter] of oldFilters) {
+        if (!newFilters.has(key)) {
+            changes.push({
+                area: 'filters',
+                target: key,
+                change: 'removed',
+                detail: `Filter removed (was ${describeFilter(asRecord(filter['jaql']))})`,
+            });
+        }
+    }
+    for (const [key, filter] of newFilters) {
+        const old = oldFilters.get(key);
+        if (!old) {
+            changes.push({
+                area: 'filters',
+                target: key,
+                change: 'added',
+                detail: `Filter added: ${describeFilter(asRecord(filter['jaql']))}`,
+            });
+            continue;
+        }
+        changes.push(
+            ...diffFilterSettings(old, filter).map(detail => ({
+                area: 'filters' as const,
+                target: key,
+                change: 'changed' as const,
+                detail,
+            }))
+        );
+    }
+    return changes;
+}
+
+// Differences in a filter's members or conditions and whether it is enabled
+function diffFilterSettings(
+    before: Record<string, unknown>,
+    after: Record<string, unknown>
+): string[] {
+    const oldJaql = asRecord(before['jaql']);
+    const newJaql = asRecord(after['jaql']);
+    const details: string[] = [];
+    if (!sameValue(oldJaql['filter'], newJaql['filter'])) {
+        details.push(
+            `Filter changed from ${describeFilter(oldJaql)} to ${describeFilter(newJaql)}`
+        );
+    }
+    if (Boolean(before['disabled']) !== Boolean(after['disabled'])) {
+        details.push(after['disabled'] ? 'Filter disabled' : 'Filter enabled');
+    }
+    return details;
+}
+
+function matchWidgets(
+    before: Record<string, unknown>[],
+    after: Record<string, unknown>[]
+): {
+    pairs: Array<[Record<string, unknown>, Record<string, unknown>]>;
+    removed: Record<string, unknown>[];
+    added: Record<string, unknown>[];
+} {
+    const pairs: Array<[Record<string, unknown>, Record<string, unknown>]> = [];
+    let removed = [...before];
+    let added = [...after];
+
+    const pair = (key: (widget: Record<string, unknown>) => string | undefined) => {
+        const candidates = uniqueBy(added, key);
+        for (const [value, old] of uniqueBy(removed, key)) {
+            const current = candidates.get(value);
+            if (current) {
+                pairs.push([old, current]);
+                removed = removed.filter(widget => widget !== old);
+                added = added.filter(widget => widget !== current);
+            }
+        }
+    };
+    pair(widget => asString(widget['oid']));
+    pair(widget => asString(widget['title']));
+
+    return { pairs, removed, added };
+}
+
+function diffWidget(
+    before: Record<string, unknown>,
+    after: Record<string, unknown>
+): DashboardChange[] {
+    const details: string[] = [];
+    const compare = (label: string, old: unknown, current: unknown) => {
+        if (!sameValue(old, current)) {
+            details.push(`${label} changed from ${show(old)} to ${show(current)}`);
+        }
+    };
+
+    compare('Title', asString(before['title']), asString(after['title']));
+    compare('Type', widgetType(before), widgetType(after));
+    compare(
+        'Datasource',
+        datasourceTitle(before['datasource']),
+        datasourceTitle(after['datasource'])
+    );
+    details.push(...diffPanels(panelItems(before), panelItems(after)));
+
+    return details.map(detail => widgetChange(after, 'changed', detail));
+}
+
+function diffPanels(before: PanelItem[], after: PanelItem[]): string[] {
+    const oldItems = keyBy(before, itemKey);
+    const newItems = keyBy(after, itemKey);
+    const details: string[] = [];
+
+    for (const [key, item] of oldItems) {
+        if (!newItems.has(key)) {
+            details.push(
+                `${capitalize(item.kind)} ${describeItem(item)} removed from "${item.panel}"`
+            );
+        }
+    }
+    for (const [key, item] of newItems) {
+        const old = oldItems.get(key);
+        if (!old) {
+            details.push(`${capitalize(item.kind)} ${describeItem(item)} added to "${item.panel}"`);
+            continue;
+        }
+
+        const label = `${capitalize(item.kind)} ${describeItem(old)}`;
+        if (item.kind === 'measure' && !sameValue(old.jaql['agg'], item.jaql['agg'])) {
+            details.push(
+                `${label}: aggregation changed from ${show(old.jaql['agg'])} to ${show(item.jaql['agg'])}`
+            );
+        }
+        if (!sameValue(old.jaql['title'], item.jaql['title'])) {
+            details.push(
+                `${label}: title changed from ${show(old.jaql['title'])} to ${show(item.jaql['title'])}`
+            );
+        }
+        if (!sameValue(old.jaql['filter'], item.jaql['filter'])) {
+            details.push(
+                `${label}: filter changed from ${describeFilter(old.jaql)} to ${describeFilter(item.jaql)}`
+            );
+        }
+        if (old.disabled !== item.disabled) {
+            details.push(`${label} ${item.disabled ? 'disabled' : 'enabled'}`);
+        }
+    }
+    return details;
+}
+
+function diffLayout(
+    before: unknown,
+    after: unknown,
+    pairs: Array<[Record<string, unknown>, Record<string, unknown>]>
+): DashboardChange[] {
+    const changes: DashboardChange[] = [];
+    const oldColumns = columnWidths(before);
+    const newColumns = columnWidths(after);
+    if (!sameValue(oldColumns, newColumns)) {
+        changes.push({
+            area: 'layout',
+            target: 'columns',
+            change: 'changed',
+            detail: `Columns changed from ${describeColumns(oldColumns)} to ${describeColumns(newColumns)}`,
+        });
+    }
+
+    const oldPositions = layoutPositions(before);
+    const newPositions = layoutPositions(after);
+    for (const [old, current] of pairs) {
+        const from = oldPositions.get(asString(old['oid']) ?? '');
+        const to = newPositions.get(asString(current['oid']) ?? '');
+        if (!from || !to) {
+            continue;
+        }
+        if (from.column !== to.column || from.row !== to.row) {
+            changes.push(
+                layoutChange(
+                    current,
+                    'moved',
+                    `Moved from ${describePosition(from)} to ${describePosition(to)}`
+                )
+            );
+        }
+        if (!sameValue(from.height, to.height)) {
+            changes.push(
+                layoutChange(
+                    current,
+                    'changed',
+                    `Height changed from ${show(from.height)} to ${show(to.height)}`
+                )
+            );
+        }
+    }
+    return changes;
+}
+
+function panelItems(widget: Record<string, unknown>): PanelItem[] {
+    return asRecords(asRecord(widget['metadata'])['panels']).flatMap(panel => {
+        const name = asString(panel['name']) ?? '';
+        const lowerName = name.toLowerCase();
+        const kind = FILTER_PANELS.has(lowerName)
+            ? 'filter'
+            : MEASURE_PANELS.has(lowerName)
+              ? 'measure'
+              : 'dimension';
+        return asRecords(panel['items']).map(item => ({
+            panel: name,
+            kind,
+            jaql: asRecord(item['jaql']),
+            disabled: item['disabled'] === true,
+        }));
+    });
+}
+
+function layoutPositions(layout: unknown): Map<string, LayoutPosition> {
+    const positions = new Map<string, LayoutPosition>();
+    asRecords(asRecord(layout)['columns']).forEach((column, columnIndex) => {
+        asRecords(column['cells']).forEach((cell, rowIndex) => {
+            for (const subcell of asRecords(cell['subcells'])) {
+                for (const element of asRecords(subcell['elements'])) {
+                    const widgetId = asString(element['widgetid']);
+                    if (widgetId) {
+                        positions.set(widgetId, {
+                            column: columnIndex + 1,
+                            row: rowIndex + 1,
+                            height: element['height'],
+                        });
+                    }
+                }
+            }
+        });
+    });
+    return positions;
+}
+
+function columnWidths(layout: unknown): unknown[] {
+    return asRecords(asRecord(layout)['columns']).map(column => column['width']);
+}
+
+function filterKey(filter: Record<string, unknown>): string | undefined {
+    const levels = asRecords(filter['levels']);
+    if (levels.length > 0) {
+        return levels.map(level => asString(level['dim']) ?? '?').join(' > ');
+    }
+    return asString(asRecord(filter['jaql'])['dim']);
+}
+
+function itemKey(item: PanelItem): string {
+    const field = asString(item.jaql['dim']) ?? asString(item.jaql['formula']) ?? '?';
+    const level = asString(item.jaql['level']);
+    return [item.panel, field, level].filter(Boolean).join('|');
+}
+
+function describeItem(item: PanelItem): string {
+    const { jaql } = item;
+    const dim = asString(jaql['dim']);
+    if (!dim) {
+        return `formula ${show(asString(jaql['title']) ?? asString(jaql['formula']))}`;
+    }
+    if (item.kind === 'measure' && asString(jaql['agg'])) {
+        return `${jaql['agg']}(${dim})`;
+    }
+    const level = asString(jaql['level']);
+    return level ? `${dim} (${level})` : dim;
+}
+
+function describeFilter(jaql: Record<string, unknown>): string {
+    const filter = asRecord(jaql['filter']);
+    if (filter['all'] === true || Object.keys(filter).length === 0) {
+        return 'all members';
+    }
+    if (Array.isArray(filter['members'])) {
+        return `members ${filter['members'].join(', ')}`;
+    }
+    const exclude = asRecord(filter['exclude']);
+    if (Array.isArray(exclude['members'])) {
+        return `all except ${exclude['members'].join(', ')}`;
+    }
+    return stableStringify(filter);
+}
+
+function describeWidget(widget: Record<string, unknown>): string {
+    const panels = panelItems(widget).map(item => describeItem(item));
+    const type = widgetType(widget) ?? 'unknown type';
+    return panels.length > 0 ? `${type}: ${panels.join(', ')}` : type;
+}
+
+function describeColumns(widths: unknown[]): string {
+    if (widths.length === 0) {
+        return 'no layout';
+    }
+    return widths
+        .map(width => (typeof width === 'number' ? `${Math.round(width)}%` : '?'))
+        .join(' | ');
+}
+
+function describePosition(position: LayoutPosition): string {
+    return `column ${position.column}, row ${position.row}`;
+}
+
+function widgetChange(
+    widget: Record<string, unknown>,
+    change: DashboardChange['change'],
+    detail: string
+): DashboardChange {
+    return { area: 'widgets', target: widgetLabel(widget), change, detail };
+}
+
+function layoutChange(
+    widget: Record<string, unknown>,
+    change: DashboardChange['change'],
+    detail: string
+): DashboardChange {
+    return { area: 'layout', target: widgetLabel(widget), change, detail };
+}
+
+// e.g. "Revenue by country (w1)"
+function widgetLabel(widget: Record<string, unknown>): string {
+    const oid = asString(widget['oid']) ?? '?';
+    const title = asString(widget['title']);
+    return title ? `${title} (${oid})` : oid;
+}
+
+function widgetType(widget: Record<string, unknown>): string | undefined {
+    const type = asString(widget['type']);
+    const subtype = asString(widget['subtype']);
+    return type && subtype ? `${type} (${subtype})` : type;
+}
+
+function toVersion(snapshot: DashboardSnapshot): DashboardDiff['before'] {
+    return { source: snapshot.source, dashboardId: snapshot.dash.oid, title: snapshot.dash.title };
+}
+
+function keyBy<T>(items: T[], key: (item: T) => string | undefined): Map<string, T> {
+    const map = new Map<string, T>();
+    for (const item of items) {
+        const value = key(item);
+        if (value === undefined) {
+            continue;
+        }
+        // Repeated keys (e.g. the same field twice in a panel) get a counter
+        let unique = value;
+        for (let count = 2; map.has(unique); count++) {
+            unique = `${value} #${count}`;
+        }
+        map.set(unique, item);
+    }
+    return map;
+}
+
+// Items whose key is unique in the list; ambiguous keys are left out
+function uniqueBy<T>(items: T[], key: (item: T) => string | undefined): Map<string, T> {
+    const counts = new Map<string, number>();
+    for (const item of items) {
+        const value = key(item);
+        if (value !== undefined) {
+            counts.set(value, (counts.get(value) ?? 0) + 1);
+        }
+    }
+    const map = new Map<string, T>();
+    for (const item of items) {
+        const value = key(item);
+        if (value !== undefined && counts.get(value) === 1) {
+            map.set(value, item);
+        }
+    }
+    return map;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+    return stableStringify(a) === stableStringify(b);
+}
+
+// JSON with object keys sorted, so key order does not count as a change
+function stableStringify(value: unknown): string {
+    if (value === undefined) {
+        return 'undefined';
+    }
+    return JSON.stringify(value, (_, item: unknown) =>
+        isRecord(item)
+            ? Object.fromEntries(
+                  Object.entries(item).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+              )
+            : item
+    );
+}
+
+function show(value: unknown): string {
+    if (value === undefined || value === null || value === '') {
+        return '(none)';
+    }
+    return typeof value === 'string' ? `"${value}"` : stableStringify(value);
+}
+
+function capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
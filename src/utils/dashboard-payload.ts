@@ -0,0 +1,131 @@
+import type {
+    DashboardChanges,
+    DatasourceRef,
+    DuplicateDashboardOptions,
+    WidgetChanges,
+} from '../types/index.js';
+import { asRecord } from './records.js';
+
+// Size Sisense gives a widget placed on its own row
+const DEFAULT_WIDGET_HEIGHT = 384;
+
+/**
+ * Sisense dashboard fields for a create or update request
+ */
+export function toDashboardPayload(
+    input: DashboardChanges & DuplicateDashboardOptions,
+    datasource?: DatasourceRef
+): Record<string, unknown> {
+    return withoutUndefined({
+        title: input.title,
+        desc: input.description,
+        datasource,
+        parentFolder: input.folderId,
+        layout: input.layout,
+        filters: input.filters,
+    });
+}
+
+/**
+ * Sisense widget fields for a create or update request
+ */
+export function toWidgetPayload(
+    input: WidgetChanges,
+    datasource?: DatasourceRef | Record<string, unknown>
+): Record<string, unknown> {
+    return withoutUndefined({
+        type: input.type,
+        subtype: input.subtype,
+        title: input.title,
+        desc: input.description,
+        datasource,
+        metadata: input.panels && { panels: input.panels },
+        style: input.style,
+    });
+}
+
+/**
+ * Place a widget on a new row at the bottom of the first layout column, creating a
+ * single-column layout when the dashboard has none. Null when the widget is already placed.
+ */
+export function addWidgetToLayout(
+    layout: unknown,
+    widgetId: string
+): Record<string, unknown> | null {
+    const current = asRecord(layout);
+    const columns = asArray(current['columns']).map(asRecord);
+    if (columns.some(column => columnHasWidget(column, widgetId))) {
+        return null;
+    }
+
+    const cell = {
+        subcells: [
+            { width: 100, elements: [{ widgetid: widgetId, height: DEFAULT_WIDGET_HEIGHT }] },
+        ],
+    };
+    const [first, ...rest] = columns;
+    return {
+        ...current,
+        type: current['type'] ?? 'columnar',
+        columns: [
+            first
+                ? { ...first, cells: [...asArray(first['cells']), cell] }
+                : { width: 100, cells: [cell] },
+            ...rest,
+        ],
+    };
+}
+
+/**
+ * Take a widget out of a layout, dropping cells left empty. Null when the widget is not placed.
+ */
+export function removeWidgetFromLayout(
+    layout: unknown,
+    widgetId: string
+): Record<string, unknown> | null {
+    const current = asRecord(layout);
+    const columns = asArray(current['columns']).map(asRecord);
+    if (!columns.some(column => columnHasWidget(column, widgetId))) {
+        return null;
+    }
+
+    return {
+        ...current,
+        columns: columns.map(column => ({
+            ...column,
+            cells: asArray(column['cells'])
+                .map(asRecord)
+                .map(cell => ({
+                    ...cell,
+                    subcells: asArray(cell['subcells'])
+                        .map(asRecord)
+                        .map(subcell => ({
+                            ...subcell,
+                            elements: asArray(subcell['elements']).filter(
+                                element => asRecord(element)['widgetid'] !== widgetId
+                            ),
+                        }))
+                        .filter(subcell => subcell.elements.length > 0),
+                }))
+                .filter(cell => cell.subcells.length > 0),
+        })),
+    };
+}
+
+function columnHasWidget(column: Record<string, unknown>, widgetId: string): boolean {
+    return asArray(column['cells']).some(cell =>
+        asArray(asRecord(cell)['subcells']).some(subcell =>
+            asArray(asRecord(subcell)['elements']).some(
+                element => asRecord(element)['widgetid'] === widgetId
+            )
+        )
+    );
+}
+
+function withoutUndefined(record: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined));
+}
+
+function asArray(value: unknown): unknown[] {
+    return Array.isArray(value) ? value : [];
+}
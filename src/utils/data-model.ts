@@ -0,0 +1,121 @@
+import type {
+    ColumnDataType,
+    DataModelColumn,
+    DataModelRelation,
+    DataModelSchema,
+    DataModelTable,
+} from '../types/index.js';
+import { asRecord, asRecords, asString } from './records.js';
+
+// The datamodel API reports column types as SQL Server type codes (SqlDbType)
+const TYPE_CODES: Record<number, ColumnDataType> = {
+    0: 'numeric', // bigint
+    2: 'boolean', // bit
+    3: 'text', // char
+    4: 'datetime', // datetime
+    5: 'numeric', // decimal
+    6: 'numeric', // float
+    8: 'numeric', // int
+    9: 'numeric', // money
+    10: 'text', // nchar
+    11: 'text', // ntext
+    12: 'text', // nvarchar
+    13: 'numeric', // real
+    15: 'datetime', // smalldatetime
+    16: 'numeric', // smallint
+    17: 'numeric', // smallmoney
+    18: 'text', // text
+    20: 'numeric', // tinyint
+    22: 'text', // varchar
+    31: 'datetime', // date
+    32: 'datetime', // time
+    33: 'datetime', // datetime2
+    34: 'datetime', // datetimeoffset
+};
+
+/**
+ * Normalize a datamodel schema (`/api/v2/datamodels/{id}/schema`) into tables, columns and
+ * relations addressed by name
+ */
+export function normalizeDataModel(raw: Record<string, unknown>): DataModelSchema {
+    const tables: DataModelTable[] = [];
+    const columns: DataModelColumn[] = [];
+    // Relations reference tables and columns by oid
+    const tableNames = new Map<string, string>();
+    const columnNames = new Map<string, string>();
+
+    for (const dataset of asRecords(raw['datasets'])) {
+        const datasetName = asString(dataset['name']);
+        const schema = asRecord(dataset['schema']);
+
+        for (const table of asRecords(schema['tables'])) {
+            const tableName = asString(table['name']) ?? asString(table['id']) ?? 'unnamed';
+            const tableColumns = asRecords(table['columns']);
+            tableNames.set(asString(table['oid']) ?? tableName, tableName);
+
+            tables.push({
+                id: asString(table['oid']) ?? asString(table['id']) ?? tableName,
+                name: tableName,
+                dataset: datasetName,
+                columnCount: tableColumns.length,
+                hidden: table['hidden'] === true,
+            });
+
+            for (const column of tableColumns) {
+                const name = asString(column['name']) ?? asString(column['id']) ?? 'unnamed';
+                const dataType = toDataType(column['type'] ?? column['dataType']);
+                columnNames.set(asString(column['oid']) ?? `${tableName}.${name}`, name);
+
+                columns.push({
+                    table: tableName,
+                    name,
+                    dim: `[${tableName}.${name}]`,
+                    dataType,
+                    role: dataType === 'numeric' ? 'measure' : 'dimension',
+                    hidden: column['hidden'] === true,
+                });
+            }
+        }
+    }
+
+    const relations: DataModelRelation[] = asRecords(raw['relations']).map((relation, index) => ({
+        id: asString(relation['oid']) ?? String(index),
+        columns: asRecords(relation['columns']).map(column => {
+            const tableRef = asString(column['table']) ?? '';
+            const columnRef = asString(column['column']) ?? '';
+            const table = tableNames.get(tableRef) ?? tableRef;
+            const name = columnNames.get(columnRef) ?? columnRef;
+            return { table, column: name, dim: `[${table}.${name}]` };
+        }),
+    }));
+
+    return {
+        id: asString(raw['oid']) ?? '',
+        title: asString(raw['title']) ?? '',
+        tables,
+        columns,
+        relations,
+    };
+}
+
+function toDataType(type: unknown): ColumnDataType {
+    if (typeof type === 'number') {
+        return TYPE_CODES[type] ?? 'other';
+    }
+    if (typeof type === 'string') {
+        const normalized = type.toLowerCase();
+        if (/date|time/.test(normalized)) {
+            return 'datetime';
+        }
+        if (/int|num|float|decimal|double|money|real/.test(normalized)) {
+            return 'numeric';
+        }
+        if (/bool|bit/.test(normalized)) {
+            return 'boolean';
+        }
+        if (/text|char|string/.test(normalized)) {
+            return 'text';
+        }
+    }
+    return 'other';
+}
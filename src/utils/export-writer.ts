@@ -0,0 +1,77 @@
+import { mkdir, open, rm } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import type { ExportFormat, ExportResult, JaqlResult } from '../types/index.js';
+import { ValidationError } from '../types/index.js';
+import { toCsvRow } from './formatter.js';
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+    csv: 'text/csv',
+    jsonl: 'application/x-ndjson',
+};
+
+export interface ExportOptions {
+    directory: string;
+    /** File name without extension */
+    fileName: string;
+    format: ExportFormat;
+}
+
+/**
+ * Write query result pages to a new file in the export directory, one page at a time,
+ * so only a single page is held in memory. A partly written file is removed on failure.
+ */
+export async function writeExport(
+    pages: AsyncIterable<JaqlResult>,
+    options: ExportOptions
+): Promise<ExportResult> {
+    const directory = resolve(options.directory);
+    const fileName = `${options.fileName}.${options.format}`;
+    const path = join(directory, fileName);
+
+    await mkdir(directory, { recursive: true });
+    const file = await open(path, 'wx').catch((error: unknown) => {
+        if ((error as { code?: unknown } | null)?.code === 'EEXIST') {
+            throw new ValidationError(`Export file already exists: ${fileName}`, { path });
+        }
+        throw error;
+    });
+
+    let rowCount = 0;
+    let bytes = 0;
+    let headers: string[] | undefined;
+
+    try {
+        for await (const page of pages) {
+            const lines: string[] = [];
+            if (!headers) {
+                headers = page.headers;
+                if (options.format === 'csv') {
+                    lines.push(toCsvRow(headers));
+                }
+            }
+            for (const row of page.rows) {
+                lines.push(formatRow(headers, row, options.format));
+            }
+            if (lines.length > 0) {
+                const chunk = `${lines.join('\n')}\n`;
+                await file.write(chunk);
+                bytes += Buffer.byteLength(chunk);
+            }
+            rowCount += page.rows.length;
+        }
+    } catch (error) {
+        await file.close();
+        await rm(path, { force: true });
+        throw error;
+    }
+    await file.close();
+
+    return { path, fileName, format: options.format, rowCount, bytes };
+}
+
+function formatRow(headers: string[], row: unknown[], format: ExportFormat): string {
+    if (format === 'csv') {
+        return toCsvRow(row);
+    }
+    return JSON.stringify(Object.fromEntries(headers.map((header, index) => [header, row[index]])));
+}
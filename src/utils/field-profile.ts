@@ -0,0 +1,102 @@
+import type { ColumnDataType, FieldProfile, JaqlResult } from '../types/index.js';
+
+export interface ProfileQueries {
+    summary: { metadata: Array<{ jaql: Record<string, unknown>; panel: string }> };
+    topValues: {
+        metadata: Array<{ jaql: Record<string, unknown>; panel: string }>;
+        count: number;
+    };
+    nulls: { metadata: Array<{ jaql: Record<string, unknown>; panel: string }> };
+}
+
+// ElastiCubes store missing values as the "N\A" member
+const NULL_MEMBER = 'N\\A';
+
+/**
+ * JAQL queries behind a field profile: one summary row (distinct count, row count and,
+ * for numeric and date fields, min/max), the top members by row count, and the null count
+ */
+export function buildProfileQueries(
+    dim: string,
+    dataType: ColumnDataType,
+    topN: number
+): ProfileQueries {
+    const dateLevel: Record<string, unknown> =
+        dataType === 'datetime' ? { datatype: 'datetime', level: 'days' } : {};
+    const ranged = dataType === 'numeric' || dataType === 'datetime';
+
+    return {
+        summary: {
+            metadata: [
+                { jaql: { dim, agg: 'count', title: 'distinctCount' }, panel: 'measures' },
+                { jaql: { dim, agg: 'countduplicates', title: 'rowCount' }, panel: 'measures' },
+                ...(ranged
+                    ? [
+                          {
+                              jaql: { dim, ...dateLevel, agg: 'min', title: 'min' },
+                              panel: 'measures',
+                          },
+                          {
+                              jaql: { dim, ...dateLevel, agg: 'max', title: 'max' },
+                              panel: 'measures',
+                          },
+                      ]
+                    : []),
+            ],
+        },
+        topValues: {
+            metadata: [
+                { jaql: { dim, ...dateLevel, title: 'value' }, panel: 'rows' },
+                {
+                    jaql: { dim, agg: 'countduplicates', title: 'count', sort: 'desc' },
+                    panel: 'measures',
+                },
+            ],
+            count: topN,
+        },
+        nulls: {
+            metadata: [
+                { jaql: { dim, agg: 'countduplicates', title: 'nullCount' }, panel: 'measures' },
+                { jaql: { dim, filter: { members: [NULL_MEMBER] } }, panel: 'scope' },
+            ],
+        },
+    };
+}
+
+/**
+ * Assemble a field profile from the results of the profile queries
+ */
+export function toFieldProfile(
+    datasource: string,
+    dim: string,
+    dataType: ColumnDataType,
+    results: { summary: JaqlResult; topValues: JaqlResult; nulls: JaqlResult }
+): FieldProfile {
+    const summary = results.summary.rows[0] ?? [];
+    const rowCount = toNumber(summary[1]);
+    const nullCount = toNumber(results.nulls.rows[0]?.[0]);
+
+    const profile: FieldProfile = {
+        datasource,
+        field: dim,
+        dataType,
+        rowCount,
+        distinctCount: toNumber(summary[0]),
+        nullCount,
+        nullRatio: rowCount > 0 ? nullCount / rowCount : 0,
+        topValues: results.topValues.rows.map(row => ({
+            value: row[0] ?? null,
+            count: toNumber(row[1]),
+        })),
+    };
+    if (dataType === 'numeric' || dataType === 'datetime') {
+        profile.min = summary[2] ?? null;
+        profile.max = summary[3] ?? null;
+    }
+    return profile;
+}
+
+function toNumber(value: unknown): number {
+    const number = typeof value === 'number' ? value : Number(value);
+    return Number.isFinite(number) ? number : 0;
+}
@@ -0,0 +1,154 @@
+import type {
+    FieldReference,
+    FieldUsageIndex,
+    FieldUsageLocation,
+    FieldUsageQuery,
+    FieldUsageResult,
+} from '../types/index.js';
+import { asRecord, asRecords, asString, datasourceTitle } from './records.js';
+import { FILTER_PANELS } from './widget-jaql.js';
+
+// "[Table.Column]", with a " (Calendar)" suffix on date dimensions
+const DIM_PATTERN = /^\[([^.\]]+)\.([^\]]+?)(?: \(Calendar\))?\]$/;
+
+// Where a reference sits: the dashboard, widget and panel it belongs to
+interface ReferenceSite {
+    dashboardId: string;
+    dashboardTitle: string;
+    widgetId?: string | undefined;
+    widgetTitle?: string | undefined;
+    location: FieldUsageLocation;
+    panel?: string | undefined;
+}
+
+/**
+ * Every field a dashboard's filters and its widgets' panels refer to, including fields
+ * inside formulas and ranking filters. Each field is listed once per widget panel.
+ */
+export function collectFieldReferences(
+    dashboard: Record<string, unknown>,
+    widgets: Record<string, unknown>[]
+): FieldReference[] {
+    const dashboardId = asString(dashboard['oid']) ?? '';
+    const dashboardTitle = asString(dashboard['title']) ?? dashboardId;
+    const dashboardDatasource = datasourceTitle(dashboard['datasource']);
+    const references: FieldReference[] = [];
+
+    collect(
+        dashboard['filters'],
+        { dashboardId, dashboardTitle, location: 'dashboard filter' },
+        dashboardDatasource,
+        false,
+        references
+    );
+    for (const widget of widgets) {
+        const datasource = datasourceTitle(widget['datasource']) ?? dashboardDatasource;
+        for (const panel of asRecords(asRecord(widget['metadata'])['panels'])) {
+            const name = asString(panel['name']);
+            const site: ReferenceSite = {
+                dashboardId,
+                dashboardTitle,
+                widgetId: asString(widget['oid']),
+                widgetTitle: asString(widget['title']),
+                location: FILTER_PANELS.has(name?.toLowerCase() ?? '') ? 'widget filter' : 'widget',
+                panel: name,
+            };
+            collect(panel['items'], site, datasource, false, references);
+        }
+    }
+
+    const seen = new Set<string>();
+    return references.filter(reference => {
+        const key = JSON.stringify([
+            reference.widgetId,
+            reference.location,
+            reference.panel,
+            reference.datasource,
+            reference.dim,
+            reference.inFormula,
+        ]);
+        if (seen.has(key)) {
+            return false;
+        }
+        seen.add(key);
+        return true;
+    });
+}
+
+/**
+ * References in the index to a datasource, table and/or column. Names match
+ * case-insensitively; fields left out of the query match anything.
+ */
+export function findFieldUsage(index: FieldUsageIndex, query: FieldUsageQuery): FieldUsageResult {
+    const usages = index.references.filter(
+        reference =>
+            matchesName(reference.datasource, query.datasource) &&
+            matchesName(reference.table, query.table) &&
+            matchesName(reference.column, query.column)
+    );
+
+    return {
+        query,
+        indexedAt: index.builtAt,
+        dashboardsScanned: index.dashboardCount,
+        dashboardCount: new Set(usages.map(usage => usage.dashboardId)).size,
+        widgetCount: new Set(
+            usages
+                .filter(usage => usage.widgetId !== undefined)
+                .map(usage => `${usage.dashboardId}/${usage.widgetId}`)
+        ).size,
+        usages,
+        skipped: index.skipped,
+    };
+}
+
+// Walk JAQL, recording every dimension with the datasource in scope at that point
+function collect(
+    value: unknown,
+    site: ReferenceSite,
+    datasource: string | undefined,
+    inFormula: boolean,
+    references: FieldReference[]
+): void {
+    if (Array.isArray(value)) {
+        for (const item of value) {
+            collect(item, site, datasource, inFormula, references);
+        }
+        return;
+    }
+    if (typeof value !== 'object' || value === null) {
+        return;
+    }
+
+    const record = value as Record<string, unknown>;
+    const scope = datasourceTitle(record['datasource']) ?? datasource;
+    const dim = asString(record['dim']);
+    const match = dim ? DIM_PATTERN.exec(dim) : null;
+    if (dim && match) {
+        references.push({
+            dashboardId: site.dashboardId,
+            dashboardTitle: site.dashboardTitle,
+            widgetId: site.widgetId,
+            widgetTitle: site.widgetTitle,
+            location: site.location,
+            panel: site.panel,
+            datasource: scope,
+            table: match[1] as string,
+            column: match[2] as string,
+            dim,
+            inFormula,
+        });
+    }
+
+    // Formulas name their fields in a context of JAQL items, e.g. { "[A1]": { dim } }
+    const nestedInFormula = inFormula || typeof record['formula'] === 'string';
+    for (const [key, item] of Object.entries(record)) {
+        if (key !== 'datasource') {
+            collect(item, site, scope, nestedInFormula, references);
+        }
+    }
+}
+
+function matchesName(value: string | undefined, wanted: string | undefined): boolean {
+    return wanted === undefined || value?.toLowerCase() === wanted.toLowerCase();
+}
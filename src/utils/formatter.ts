@@ -0,0 +1,183 @@
+import { safeStringify } from './json.js';
+import { isRecord } from './records.js';
+
+export type OutputFormat = 'json' | 'csv' | 'markdown';
+
+export interface Table {
+    headers: string[];
+    rows: unknown[][];
+    /** Other top-level fields of the result, e.g. `rowCount` or `nextCursor` */
+    extras: Record<string, unknown>;
+}
+
+/**
+ * Render a tool result in the requested format. Results that do not look like a table
+ * are always rendered as JSON.
+ */
+export function formatResult(result: unknown, format: OutputFormat = 'json'): string {
+    if (format === 'json') {
+        return safeStringify(result, 2);
+    }
+
+    const table = toTable(result);
+    if (!table) {
+        return safeStringify(result, 2);
+    }
+
+    return format === 'csv' ? toCsv(table) : toMarkdown(table);
+}
+
+/**
+ * Extract a table from a result: query results (`headers` + `rows`), arrays of records,
+ * or an object holding one array of records (e.g. a page of dashboards)
+ */
+export function toTable(result: unknown): Table | null {
+    const location = locateRows(result);
+    if (!location) {
+        return null;
+    }
+    if (location.kind === 'rows') {
+        const record = result as Record<string, unknown>;
+        return {
+            headers: (record['headers'] as unknown[]).map(String),
+            rows: location.rows as unknown[][],
+            extras: omit(record, ['headers', 'rows']),
+        };
+    }
+    return fromRecords(
+        location.rows as Record<string, unknown>[],
+        location.kind === 'records' ? omit(result as Record<string, unknown>, [location.key]) : {}
+    );
+}
+
+/**
+ * Number of table rows in a result, or null when it is not tabular
+ */
+export function countRows(result: unknown): number | null {
+    return locateRows(result)?.rows.length ?? null;
+}
+
+/**
+ * Copy of a tabular result keeping only its first `count` rows; other results are
+ * returned unchanged
+ */
+export function sliceRows(result: unknown, count: number): unknown {
+    const location = locateRows(result);
+    if (!location) {
+        return result;
+    }
+    const rows = location.rows.slice(0, count);
+    switch (location.kind) {
+        case 'array':
+            return rows;
+        case 'rows':
+            return { ...(result as Record<string, unknown>), rows };
+        case 'records':
+            return { ...(result as Record<string, unknown>), [location.key]: rows };
+    }
+}
+
+type RowLocation =
+    | { kind: 'array'; rows: unknown[] }
+    | { kind: 'rows'; rows: unknown[] }
+    | { kind: 'records'; key: string; rows: unknown[] };
+
+function locateRows(result: unknown): RowLocation | null {
+    if (Array.isArray(result)) {
+        return isRecordArray(result) ? { kind: 'array', rows: result } : null;
+    }
+    if (!isRecord(result)) {
+        return null;
+    }
+
+    const { headers, rows } = result;
+    if (Array.isArray(headers) && Array.isArray(rows) && rows.every(Array.isArray)) {
+        return { kind: 'rows', rows };
+    }
+
+    const tableKeys = Object.keys(result).filter(
+        key => Array.isArray(result[key]) && isRecordArray(result[key] as unknown[])
+    );
+    if (tableKeys.length === 1) {
+        const key = tableKeys[0] as string;
+        return { kind: 'records', key, rows: result[key] as unknown[] };
+    }
+
+    return null;
+}
+
+function fromRecords(records: Record<string, unknown>[], extras: Record<string, unknown>): Table {
+    const headers = [...new Set(records.flatMap(record => Object.keys(record)))];
+    return {
+        headers,
+        rows: records.map(record => headers.map(header => record[header])),
+        extras,
+    };
+}
+
+function toCsv(table: Table): string {
+    // Extras go in comment lines so the table itself stays plain CSV
+    const lines = Object.entries(table.extras).map(
+        ([key, value]) => `# ${key}: ${formatCell(value)}`
+    );
+    lines.push(toCsvRow(table.headers));
+    for (const row of table.rows) {
+        lines.push(toCsvRow(row));
+    }
+    return lines.join('\n');
+}
+
+/**
+ * One CSV line, quoting cells as needed and rendering nested values as JSON
+ */
+export function toCsvRow(cells: unknown[]): string {
+    return cells.map(cell => escapeCsv(formatCell(cell))).join(',');
+}
+
+function toMarkdown(table: Table): string {
+    const lines = Object.entries(table.extras).map(
+        ([key, value]) => `**${key}**: ${escapeMarkdown(formatCell(value))}`
+    );
+    if (lines.length > 0) {
+        lines.push('');
+    }
+
+    if (table.headers.length === 0) {
+        lines.push('_No columns_');
+        return lines.join('\n');
+    }
+
+    lines.push(`| ${table.headers.map(escapeMarkdown).join(' | ')} |`);
+    lines.push(`| ${table.headers.map(() => '---').join(' | ')} |`);
+    for (const row of table.rows) {
+        const cells = table.headers.map((_, index) => escapeMarkdown(formatCell(row[index])));
+        lines.push(`| ${cells.join(' | ')} |`);
+    }
+    return lines.join('\n');
+}
+
+function formatCell(value: unknown): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+    if (typeof value === 'object') {
+        return safeStringify(value);
+    }
+    return String(value);
+}
+
+function escapeCsv(value: string): string {
+    return /[",\n\r]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function escapeMarkdown(value: string): string {
+    return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function isRecordArray(value: unknown[]): value is Record<string, unknown>[] {
+    return value.length > 0 && value.every(isRecord);
+}
+
+function omit(record: Record<string, unknown>, keys: string[]): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(record).filter(([key]) => !keys.includes(key)));
+}
@@ -0,0 +1,44 @@
+import type { FilterOverride } from '../types/index.js';
+
+/**
+ * Compile a filter override into a JAQL filter element for the dimension
+ */
+export function toJaqlFilter(dim: string, override: FilterOverride): Record<string, unknown> {
+    if ('members' in override) {
+        return {
+            dim,
+            filter: override.exclude
+                ? { exclude: { members: override.members } }
+                : { members: override.members },
+        };
+    }
+
+    if ('dateRange' in override) {
+        return {
+            dim,
+            datatype: 'datetime',
+            level: override.level ?? 'days',
+            filter: definedOnly({ from: override.dateRange.from, to: override.dateRange.to }),
+        };
+    }
+
+    if ('relative' in override) {
+        const { period, count, offset } = override.relative;
+        return {
+            dim,
+            datatype: 'datetime',
+            level: override.level,
+            filter: { [period]: { count, offset: offset ?? 0 } },
+        };
+    }
+
+    // JAQL numeric filters: `from` is >= and `to` is <=, together they form a between
+    return {
+        dim,
+        filter: definedOnly({ from: override.numericRange.min, to: override.numericRange.max }),
+    };
+}
+
+function definedOnly(values: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+}
@@ -0,0 +1,22 @@
+import type { z } from 'zod';
+import { ValidationError } from '../types/index.js';
+import { safeParse } from './json.js';
+import { validateInput } from './validation.js';
+
+/**
+ * Encode paging state into an opaque continuation cursor
+ */
+export function encodeCursor(state: Record<string, unknown>): string {
+    return Buffer.from(JSON.stringify(state), 'utf8').toString('base64url');
+}
+
+/**
+ * Decode a continuation cursor and validate the paging state it carries
+ */
+export function decodeCursor<T>(cursor: string, schema: z.ZodSchema<T>): T {
+    const state = safeParse<unknown>(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (state === null || typeof state !== 'object') {
+        throw new ValidationError('Invalid pagination cursor', { cursor });
+    }
+    return validateInput(schema, state);
+}
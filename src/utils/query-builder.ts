@@ -0,0 +1,135 @@
+import type { Aggregation, CompiledQuery, DataModelColumn, QuerySpec } from '../types/index.js';
+import { ExternalServiceError, ValidationError } from '../types/index.js';
+import { toJaqlFilter } from './jaql-filters.js';
+
+// JAQL "count" counts distinct values; "countduplicates" counts every row
+const JAQL_AGGREGATIONS: Record<Aggregation, string> = {
+    sum: 'sum',
+    avg: 'avg',
+    min: 'min',
+    max: 'max',
+    median: 'median',
+    count: 'countduplicates',
+    countDistinct: 'count',
+};
+
+type MetadataItem = CompiledQuery['jaql']['metadata'][number];
+
+// What the builder needs to know about a data model column
+type QueryColumn = Pick<DataModelColumn, 'dim' | 'dataType'>;
+
+/**
+ * Compile a structured query into JAQL, checking every field against the data model's columns
+ */
+export function compileQuery(spec: QuerySpec, dataModelColumns: QueryColumn[]): CompiledQuery {
+    const columns = new Map(dataModelColumns.map(column => [column.dim, column]));
+
+    const dimensions = spec.dimensions ?? [];
+    const measures = spec.measures ?? [];
+    const filters = Object.entries(spec.filters ?? {});
+    const referenced = [
+        ...dimensions.map(item => toDim(item.field)),
+        ...measures.map(item => toDim(item.field)),
+        ...filters.map(([dim]) => toDim(dim)),
+    ];
+
+    // An empty schema means the Sisense payload was unreadable, not a model without fields
+    if (columns.size === 0) {
+        throw new ExternalServiceError('Could not read the data model schema', {
+            datasource: spec.datasource,
+        });
+    }
+    assertKnownFields(spec.datasource, referenced, columns);
+
+    const isDate = (dim: string) => columns.get(dim)?.dataType === 'datetime';
+
+    const metadata: MetadataItem[] = [
+        ...dimensions.map(item => {
+            const dim = toDim(item.field);
+            const jaql: Record<string, unknown> = { dim, title: item.title ?? columnName(dim) };
+            if (item.level || isDate(dim)) {
+                jaql['datatype'] = 'datetime';
+                jaql['level'] = item.level ?? 'days';
+            }
+            return { jaql, panel: 'rows' };
+        }),
+        ...measures.map(item => {
+            const dim = toDim(item.field);
+            return {
+                jaql: {
+                    dim,
+                    agg: JAQL_AGGREGATIONS[item.aggregation],
+                    title: item.title ?? `${item.aggregation} of ${columnName(dim)}`,
+                },
+                panel: 'measures',
+            };
+        }),
+    ];
+
+    if (spec.sort) {
+        const sortDim = toDim(spec.sort.field);
+        const target = metadata.find(item => item.jaql['dim'] === sortDim);
+        if (!target) {
+            throw new ValidationError(
+                'Sort field must be one of the selected dimensions or measures',
+                {
+                    field: spec.sort.field,
+                }
+            );
+        }
+        target.jaql['sort'] = spec.sort.direction;
+    }
+
+    for (const [field, override] of filters) {
+        const dim = toDim(field);
+        const jaql = toJaqlFilter(dim, override);
+        if (isDate(dim)) {
+            jaql['datatype'] = 'datetime';
+            jaql['level'] ??= 'days';
+        }
+        metadata.push({ jaql, panel: 'scope' });
+    }
+
+    const compiled: CompiledQuery = { datasource: spec.datasource, jaql: { metadata } };
+    if (spec.limit !== undefined) {
+        compiled.jaql.count = spec.limit;
+    }
+    return compiled;
+}
+
+function assertKnownFields(
+    datasource: string,
+    fields: string[],
+    columns: Map<string, QueryColumn>
+): void {
+    const unknownFields = [...new Set(fields.filter(field => !columns.has(field)))];
+    if (unknownFields.length === 0) {
+        return;
+    }
+
+    // Suggest fields that differ only in case, the most common slip
+    const known = [...columns.keys()];
+    const suggestions = Object.fromEntries(
+        unknownFields.flatMap(field => {
+            const match = known.find(candidate => candidate.toLowerCase() === field.toLowerCase());
+            return match ? [[field, match]] : [];
+        })
+    );
+
+    throw new ValidationError(
+        `Unknown fields for datasource ${datasource}: ${unknownFields.join(', ')}`,
+        {
+            datasource,
+            unknownFields,
+            suggestions,
+        }
+    );
+}
+
+function toDim(field: string): string {
+    return field.startsWith('[') ? field : `[${field}]`;
+}
+
+function columnName(dim: string): string {
+    return dim.slice(dim.indexOf('.') + 1, -1);
+}
@@ -0,0 +1,38 @@
+// Helpers for reading loosely typed Sisense JSON (dashboards, widgets, schemas)
+
+/**
+ * Whether a value is a plain object rather than null, an array or a primitive
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The value as an object, or an empty object when it is not one
+ */
+export function asRecord(value: unknown): Record<string, unknown> {
+    return isRecord(value) ? value : {};
+}
+
+/**
+ * The objects in an array, or an empty list when the value is not an array
+ */
+export function asRecords(value: unknown): Record<string, unknown>[] {
+    return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+/**
+ * The value when it is a non-empty string
+ */
+export function asString(value: unknown): string | undefined {
+    return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * Title of a datasource given either as its title or as a `{ title, ... }` object
+ */
+export function datasourceTitle(datasource: unknown): string | undefined {
+    return typeof datasource === 'string'
+        ? datasource || undefined
+        : asString(asRecord(datasource)['title']);
+}
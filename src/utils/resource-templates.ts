@@ -0,0 +1,82 @@
+import type { ResourceTemplateDefinition, ResourceType } from '../types/index.js';
+
+export interface ResourceUriMatch {
+    type: ResourceType;
+    params: Record<string, string>;
+}
+
+export const RESOURCE_TEMPLATES: Record<ResourceType, ResourceTemplateDefinition> = {
+    dashboard: {
+        uriTemplate: 'sisense://dashboard/{dashboardId}',
+        name: 'Dashboard',
+        description: 'Dashboard definition as JSON',
+        mimeType: 'application/json',
+    },
+    widget: {
+        uriTemplate: 'sisense://dashboard/{dashboardId}/widget/{widgetId}',
+        name: 'Dashboard widget',
+        description: 'Widget definition as JSON',
+        mimeType: 'application/json',
+    },
+    folder: {
+        uriTemplate: 'sisense://folder/{folderId}',
+        name: 'Folder',
+        description: 'Subfolders and dashboards inside a folder as JSON',
+        mimeType: 'application/json',
+    },
+    cube: {
+        uriTemplate: 'sisense://cube/{cubeId}',
+        name: 'Cube',
+        description: 'Cube metadata as JSON, plus a plain-text summary of its tables and columns',
+        mimeType: 'application/json',
+    },
+    dashboardExport: {
+        uriTemplate: 'sisense://dashboard/{dashboardId}/export.{format}',
+        name: 'Dashboard export',
+        description: 'Dashboard rendered by Sisense as a PNG image or PDF (format: png or pdf)',
+    },
+    widgetExport: {
+        uriTemplate: 'sisense://dashboard/{dashboardId}/widget/{widgetId}/export.{format}',
+        name: 'Widget export',
+        description: 'Widget rendered by Sisense as a PNG image or PDF (format: png or pdf)',
+    },
+};
+
+// Template variables match a single path segment
+const VARIABLE_PATTERN = /\{([a-zA-Z0-9_]+)\}/g;
+const SEGMENT_PATTERN = '([a-zA-Z0-9_-]+)';
+
+const compiledTemplates = (
+    Object.entries(RESOURCE_TEMPLATES) as Array<[ResourceType, ResourceTemplateDefinition]>
+).map(([type, template]) => {
+    const names: string[] = [];
+    const source = template.uriTemplate
+        .split(VARIABLE_PATTERN)
+        .map((part, index) => {
+            // split() with a capture group alternates literal text and variable names
+            if (index % 2 === 1) {
+                names.push(part);
+                return SEGMENT_PATTERN;
+            }
+            return part.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+        })
+        .join('');
+    return { type, names, pattern: new RegExp(`^${source}$`) };
+});
+
+/**
+ * Match a resource URI against the known templates
+ */
+export function matchResourceUri(uri: string): ResourceUriMatch | null {
+    for (const template of compiledTemplates) {
+        const match = template.pattern.exec(uri);
+        if (match) {
+            const params: Record<string, string> = {};
+            template.names.forEach((name, index) => {
+                params[name] = match[index + 1] as string;
+            });
+            return { type: template.type, params };
+        }
+    }
+    return null;
+}
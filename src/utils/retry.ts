@@ -0,0 +1,59 @@
+import type { RetryPolicy } from '../types/index.js';
+
+/**
+ * Exponential backoff with jitter: half of the delay is fixed, the other half random,
+ * so concurrent clients don't retry in lockstep.
+ */
+export function getBackoffDelay(
+    attempt: number,
+    policy: Pick<RetryPolicy, 'baseDelayMs' | 'maxDelayMs'>,
+    random: () => number = Math.random
+): number {
+    const exponential = policy.baseDelayMs * 2 ** Math.max(0, attempt - 1);
+    const capped = Math.min(policy.maxDelayMs, exponential);
+    return Math.round(capped / 2 + random() * (capped / 2));
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(
+    value: string | null | undefined,
+    now: number = Date.now()
+): number | null {
+    if (!value) {
+        return null;
+    }
+
+    const trimmed = value.trim();
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+        return Math.round(Number(trimmed) * 1000);
+    }
+
+    const date = Date.parse(trimmed);
+    if (Number.isNaN(date)) {
+        return null;
+    }
+
+    return Math.max(0, date - now);
+}
+
+/**
+ * Wait for `ms` milliseconds; rejects with the signal's reason as soon as it aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+        return Promise.reject(signal.reason);
+    }
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal?.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
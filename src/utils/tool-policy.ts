@@ -0,0 +1,68 @@
+import type { ToolDefinition, ToolPolicyOptions } from '../types/index.js';
+import { ToolNotAllowedError } from '../types/index.js';
+
+/**
+ * Decides which tools are exposed: read-only mode drops every tool not annotated as
+ * read-only, then the allow list (if any) and the deny list are applied by name.
+ */
+export class ToolPolicy {
+    private readonly allow: RegExp[];
+    private readonly deny: RegExp[];
+
+    constructor(private readonly options: ToolPolicyOptions) {
+        this.allow = options.allow.map(globToRegExp);
+        this.deny = options.deny.map(globToRegExp);
+    }
+
+    /**
+     * Why a tool is not allowed, or null when it is
+     */
+    public getDenialReason(tool: ToolDefinition): string | null {
+        if (this.options.readOnly && !tool.annotations.readOnlyHint) {
+            return 'the server is in read-only mode (MCP_READ_ONLY=true)';
+        }
+        if (this.allow.length > 0 && !this.allow.some(pattern => pattern.test(tool.name))) {
+            return 'it is not in the tool allow list (MCP_TOOL_ALLOW)';
+        }
+        if (this.deny.some(pattern => pattern.test(tool.name))) {
+            return 'it is in the tool deny list (MCP_TOOL_DENY)';
+        }
+        return null;
+    }
+
+    public isAllowed(tool: ToolDefinition): boolean {
+        return this.getDenialReason(tool) === null;
+    }
+
+    /**
+     * Throw ToolNotAllowedError if the tool may not be called
+     */
+    public assertAllowed(tool: ToolDefinition): void {
+        const reason = this.getDenialReason(tool);
+        if (reason) {
+            throw new ToolNotAllowedError(`Tool ${tool.name} is not allowed: ${reason}`, {
+                toolName: tool.name,
+                readOnly: tool.annotations.readOnlyHint,
+            });
+        }
+    }
+}
+
+/**
+ * Compile a tool name pattern where `*` matches any run of characters and `?` one character
+ */
+export function globToRegExp(pattern: string): RegExp {
+    const source = pattern
+        .split('')
+        .map(char => {
+            if (char === '*') {
+                return '.*';
+            }
+            if (char === '?') {
+                return '.';
+            }
+            return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        })
+        .join('');
+    return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,164 @@
+import { countRows, formatResult, sliceRows, toTable, type OutputFormat } from './formatter.js';
+import { safeStringify } from './json.js';
+
+export interface ColumnSummary {
+    column: string;
+    /** Non-empty values in the column */
+    count: number;
+    distinct: number;
+    /** Present when every non-empty value is numeric */
+    sum?: number | undefined;
+    min?: number | undefined;
+    max?: number | undefined;
+    avg?: number | undefined;
+}
+
+export interface TruncatedResponse {
+    text: string;
+    /** Explains what was left out; absent when the response fits */
+    note?: string | undefined;
+}
+
+export interface TruncationOptions {
+    maxChars: number;
+    format?: OutputFormat | undefined;
+    /** How to fetch the omitted rows, given the number of rows shown */
+    pagingHint?: ((shownRows: number) => string) | undefined;
+    /**
+     * The result cut to its first `shownRows` rows; defaults to dropping the other rows.
+     * Override it to point a continuation cursor at the first omitted row.
+     */
+    sliceRows?: ((shownRows: number) => unknown) | undefined;
+}
+
+const DEFAULT_PAGING_HINT = 'Narrow the request with filters or a smaller limit to see the rest.';
+
+/**
+ * Render a result within a character budget. Tabular results keep as many leading rows
+ * as fit and get a note with the omitted range and aggregates over all rows (or, when not
+ * even that fits, just the aggregates); other results are cut at the budget.
+ */
+export function truncateResponse(result: unknown, options: TruncationOptions): TruncatedResponse {
+    const { maxChars, format } = options;
+    const text = formatResult(result, format);
+    if (maxChars <= 0 || text.length <= maxChars) {
+        return { text };
+    }
+
+    const totalRows = countRows(result);
+    if (totalRows !== null && totalRows > 1) {
+        const columns = summarizeColumns(result);
+        // Hints about paging by the number of rows shown make no sense when none are
+        const pagingHint = (shown: number) =>
+            shown > 0 && options.pagingHint ? options.pagingHint(shown) : DEFAULT_PAGING_HINT;
+        const slice = options.sliceRows ?? (shown => sliceRows(result, shown));
+        const render = (shown: number): TruncatedResponse => ({
+            text: formatResult(slice(shown), format),
+            note: buildRowNote(shown, totalRows, columns, pagingHint(shown)),
+        });
+
+        // Binary search for the most rows that fit alongside the note
+        let low = 0;
+        let high = totalRows - 1;
+        while (low < high) {
+            const mid = Math.ceil((low + high) / 2);
+            if (size(render(mid)) <= maxChars) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        const response = render(low);
+        if (size(response) <= maxChars) {
+            return response;
+        }
+
+        // Cutting the JSON mid-row would leave neither rows nor the summary usable
+        return {
+            text: safeStringify(
+                {
+                    truncated: true,
+                    message: `Response too large: even with all ${totalRows} rows left out it exceeds the ${maxChars}-character limit, so only the column summary is shown.`,
+                    totalRows,
+                    columns,
+                    hint: DEFAULT_PAGING_HINT,
+                },
+                2
+            ),
+        };
+    }
+
+    return {
+        text: text.slice(0, maxChars),
+        note: `Response truncated: showing the first ${maxChars} of ${text.length} characters, so it is incomplete. ${DEFAULT_PAGING_HINT}`,
+    };
+}
+
+/**
+ * Count, distinct count and, for numeric columns, sum/min/max/avg of each table column
+ */
+export function summarizeColumns(result: unknown): ColumnSummary[] {
+    const table = toTable(result);
+    if (!table) {
+        return [];
+    }
+
+    return table.headers.map((column, index) => {
+        const values = table.rows
+            .map(row => row[index])
+            .filter(value => value !== null && value !== undefined && value !== '');
+        const summary: ColumnSummary = {
+            column,
+            count: values.length,
+            distinct: new Set(values.map(value => JSON.stringify(value))).size,
+        };
+
+        if (values.length > 0 && values.every(value => typeof value === 'number')) {
+            const numbers = values as number[];
+            const sum = numbers.reduce((total, value) => total + value, 0);
+            summary.sum = round(sum);
+            summary.min = numbers.reduce((min, value) => Math.min(min, value));
+            summary.max = numbers.reduce((max, value) => Math.max(max, value));
+            summary.avg = round(sum / numbers.length);
+        }
+        return summary;
+    });
+}
+
+function buildRowNote(
+    shown: number,
+    total: number,
+    columns: ColumnSummary[],
+    pagingHint: string
+): string {
+    const lines = [
+        shown > 0
+            ? `Response truncated to fit the size limit: showing rows 1-${shown} of ${total}; rows ${shown + 1}-${total} were omitted.`
+            : `Response truncated to fit the size limit: all ${total} rows were omitted.`,
+        `Column summary over all ${total} rows:`,
+        ...columns.map(column => `- ${column.column}: ${describeColumn(column)}`),
+        pagingHint,
+    ];
+    return lines.join('\n');
+}
+
+function describeColumn(column: ColumnSummary): string {
+    const parts = [`${column.count} values`, `${column.distinct} distinct`];
+    if (column.sum !== undefined) {
+        parts.push(
+            `sum ${column.sum}`,
+            `min ${column.min}`,
+            `max ${column.max}`,
+            `avg ${column.avg}`
+        );
+    }
+    return parts.join(', ');
+}
+
+function size(response: TruncatedResponse): number {
+    return response.text.length + (response.note?.length ?? 0);
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
@@ -1,9 +1,14 @@
 import { z } from 'zod';
+import type { FieldUsageQuery } from '../types/index.js';
 import { ValidationError } from '../types/index.js';
+import { matchResourceUri, type ResourceUriMatch } from './resource-templates.js';
 
 // Common validation schemas
 export const dashboardIdSchema = z.string().min(1, 'Dashboard ID cannot be empty');
 export const cubeIdSchema = z.string().min(1, 'Cube ID cannot be empty');
+export const folderIdSchema = z.string().min(1, 'Folder ID cannot be empty');
+export const widgetIdSchema = z.string().min(1, 'Widget ID cannot be empty');
+export const buildIdSchema = z.string().min(1, 'Build ID cannot be empty');
 export const querySchema = z.object({
     query: z.string().min(1, 'Query cannot be empty'),
     parameters: z.record(z.unknown()).optional(),
@@ -11,6 +16,71 @@ export const querySchema = z.object({
     offset: z.number().nonnegative().optional(),
 });
 
+// JAQL validation schemas
+export const datasourceSchema = z.string().min(1, 'Datasource cannot be empty');
+
+export const jaqlPanelSchema = z.enum(['rows', 'columns', 'measures', 'scope']);
+
+export const jaqlExpressionSchema = z
+    .object({
+        dim: z.string().min(1).optional(),
+        formula: z.string().min(1).optional(),
+        context: z.record(z.unknown()).optional(),
+        agg: z.string().min(1).optional(),
+        title: z.string().optional(),
+        datatype: z.string().optional(),
+        level: z.string().optional(),
+        sort: z.enum(['asc', 'desc', 'none']).optional(),
+        filter: z.record(z.unknown()).optional(),
+    })
+    .passthrough()
+    .refine(jaql => Boolean(jaql.dim || jaql.formula), {
+        message: 'JAQL element must define either "dim" or "formula"',
+    });
+
+export const jaqlMetadataItemSchema = z
+    .object({
+        jaql: jaqlExpressionSchema,
+        panel: jaqlPanelSchema.optional(),
+        format: z.record(z.unknown()).optional(),
+    })
+    .passthrough();
+
+export const jaqlQuerySchema = z
+    .object({
+        metadata: z
+            .array(jaqlMetadataItemSchema)
+            .min(1, 'JAQL metadata must contain at least one element'),
+        count: z.number().int().positive().optional(),
+        offset: z.number().int().nonnegative().optional(),
+        format: z.literal('json').optional(),
+    })
+    .passthrough();
+
+// Dashboard listing validation schemas
+export const MAX_DASHBOARD_PAGE_SIZE = 500;
+
+export const dashboardSortSchema = z.enum([
+    'title',
+    '-title',
+    'created',
+    '-created',
+    'lastUpdated',
+    '-lastUpdated',
+    'lastOpened',
+    '-lastOpened',
+]);
+
+export const dashboardListQuerySchema = z.object({
+    search: z.string().min(1).optional(),
+    ownerId: z.string().min(1).optional(),
+    folderId: z.string().min(1).optional(),
+    sort: dashboardSortSchema.optional(),
+    fields: z.array(z.string().min(1)).min(1).optional(),
+    skip: z.number().int().nonnegative().optional(),
+    limit: z.number().int().positive().max(MAX_DASHBOARD_PAGE_SIZE).optional(),
+});
+
 // Tool input validation schemas
 export const getDashboardInputSchema = z.object({
     dashboardId: dashboardIdSchema,
@@ -20,6 +90,302 @@ export const getDashboardWidgetsInputSchema = z.object({
     dashboardId: dashboardIdSchema,
 });
 
+// Filter overrides, keyed by dimension (e.g. "[Commerce.Region]")
+export const dateLevelSchema = z.enum(['years', 'quarters', 'months', 'weeks', 'days']);
+
+const dateStringSchema = z
+    .string()
+    .refine(value => !Number.isNaN(Date.parse(value)), 'Invalid date; use an ISO date');
+
+export const filterOverrideSchema = z.union([
+    z
+        .object({
+            members: z.array(z.string()).min(1, 'Provide at least one member'),
+            exclude: z.boolean().optional(),
+        })
+        .strict(),
+    z
+        .object({
+            dateRange: z
+                .object({ from: dateStringSchema.optional(), to: dateStringSchema.optional() })
+                .strict()
+                .refine(range => range.from !== undefined || range.to !== undefined, {
+                    message: 'Date range needs "from" and/or "to"',
+                }),
+            level: dateLevelSchema.optional(),
+        })
+        .strict(),
+    z
+        .object({
+            relative: z
+                .object({
+                    period: z.enum(['last', 'next']),
+                    count: z.number().int().positive(),
+                    offset: z.number().int().nonnegative().optional(),
+                })
+                .strict(),
+            level: dateLevelSchema,
+        })
+        .strict(),
+    z
+        .object({
+            numericRange: z
+                .object({ min: z.number().optional(), max: z.number().optional() })
+                .strict()
+                .refine(range => range.min !== undefined || range.max !== undefined, {
+                    message: 'Numeric range needs "min" and/or "max"',
+                }),
+        })
+        .strict(),
+]);
+
+export const filterOverridesSchema = z.record(
+    z.string().regex(/^\[.+\]$/, 'Dimension must look like "[Table.Column]"'),
+    filterOverrideSchema
+);
+
+export const getWidgetDataInputSchema = z.object({
+    dashboardId: dashboardIdSchema,
+    widgetId: widgetIdSchema,
+    filters: filterOverridesSchema.optional(),
+    filterMode: z.enum(['extend', 'replace']).optional(),
+});
+
+// Structured query builder validation schemas
+export const MAX_BUILD_QUERY_LIMIT = 100000;
+
+// "Table.Column", with or without the JAQL brackets
+export const fieldNameSchema = z
+    .string()
+    .regex(/^\[?[^[\]]+\.[^[\]]+\]?$/, 'Field must look like "Table.Column"');
+
+export const aggregationSchema = z.enum([
+    'sum',
+    'avg',
+    'min',
+    'max',
+    'median',
+    'count',
+    'countDistinct',
+]);
+
+export const buildQueryInputSchema = z
+    .object({
+        datasource: datasourceSchema,
+        dimensions: z
+            .array(
+                z
+                    .object({
+                        field: fieldNameSchema,
+                        level: dateLevelSchema.optional(),
+                        title: z.string().min(1).optional(),
+                    })
+                    .strict()
+            )
+            .optional(),
+        measures: z
+            .array(
+                z
+                    .object({
+                        field: fieldNameSchema,
+                        aggregation: aggregationSchema,
+                        title: z.string().min(1).optional(),
+                    })
+                    .strict()
+            )
+            .optional(),
+        filters: filterOverridesSchema.optional(),
+        sort: z
+            .object({
+                field: fieldNameSchema,
+                direction: z.enum(['asc', 'desc']),
+            })
+            .strict()
+            .optional(),
+        limit: z.number().int().positive().max(MAX_BUILD_QUERY_LIMIT).optional(),
+        execute: z.boolean().optional(),
+    })
+    .refine(input => (input.dimensions?.length ?? 0) + (input.measures?.length ?? 0) > 0, {
+        message: 'Select at least one dimension or measure',
+        path: ['dimensions'],
+    });
+
+export const MAX_PROFILE_TOP_N = 100;
+
+export const profileFieldInputSchema = z.object({
+    datasource: datasourceSchema,
+    field: fieldNameSchema,
+    topN: z.number().int().positive().max(MAX_PROFILE_TOP_N).optional(),
+    refresh: z.boolean().optional(),
+});
+
+// Field usage lookups must name at least one of datasource, table or column
+function hasFieldTarget(query: FieldUsageQuery): boolean {
+    return Boolean(query.datasource || query.table || query.column);
+}
+
+const fieldUsageQueryShape = z.object({
+    datasource: datasourceSchema.optional(),
+    table: z.string().min(1).optional(),
+    column: z.string().min(1).optional(),
+});
+
+export const fieldUsageQuerySchema = fieldUsageQueryShape.refine(hasFieldTarget, {
+    message: 'Provide a datasource, table or column to look for',
+});
+
+export const findFieldUsageInputSchema = fieldUsageQueryShape
+    .extend({ refresh: z.boolean().optional() })
+    .refine(hasFieldTarget, { message: 'Provide a datasource, table or column to look for' });
+
+export const MAX_RENDER_SIZE = 4000;
+
+export const renderFormatSchema = z.enum(['png', 'pdf']);
+
+export const renderOptionsSchema = z.object({
+    width: z.number().int().positive().max(MAX_RENDER_SIZE).optional(),
+    height: z.number().int().positive().max(MAX_RENDER_SIZE).optional(),
+    paperFormat: z.enum(['A4', 'A3', 'Letter', 'Legal', 'Tabloid']).optional(),
+    paperOrientation: z.enum(['portrait', 'landscape']).optional(),
+});
+
+export const exportDashboardInputSchema = renderOptionsSchema.extend({
+    dashboardId: dashboardIdSchema,
+    fileFormat: renderFormatSchema.optional(),
+});
+
+export const exportWidgetInputSchema = exportDashboardInputSchema.extend({
+    widgetId: widgetIdSchema,
+});
+
+// Dashboard and widget write payloads
+const layoutWidthSchema = z.number().positive().max(100);
+
+export const dashboardLayoutSchema = z
+    .object({
+        type: z.literal('columnar').optional(),
+        columns: z
+            .array(
+                z
+                    .object({
+                        width: layoutWidthSchema,
+                        cells: z.array(
+                            z
+                                .object({
+                                    subcells: z.array(
+                                        z
+                                            .object({
+                                                width: layoutWidthSchema,
+                                                elements: z.array(
+                                                    z
+                                                        .object({
+                                                            widgetid: widgetIdSchema,
+                                                            height: z
+                                                                .union([z.number(), z.string()])
+                                                                .optional(),
+                                                        })
+                                                        .passthrough()
+                                                ),
+                                            })
+                                            .passthrough()
+                                    ),
+                                })
+                                .passthrough()
+                        ),
+                    })
+                    .passthrough()
+            )
+            .min(1, 'Layout needs at least one column'),
+    })
+    .passthrough();
+
+export const dashboardFilterSchema = z.object({ jaql: jaqlExpressionSchema }).passthrough();
+
+export const widgetPanelSchema = z
+    .object({
+        name: z.string().min(1),
+        items: z.array(jaqlMetadataItemSchema),
+    })
+    .passthrough();
+
+export const dashboardInputSchema = z.object({
+    title: z.string().min(1, 'Title cannot be empty'),
+    description: z.string().optional(),
+    datasource: datasourceSchema,
+    folderId: folderIdSchema.optional(),
+    layout: dashboardLayoutSchema.optional(),
+    filters: z.array(dashboardFilterSchema).optional(),
+});
+
+export const widgetInputSchema = z.object({
+    type: z.string().min(1, 'Widget type cannot be empty'),
+    subtype: z.string().min(1).optional(),
+    title: z.string().optional(),
+    description: z.string().optional(),
+    datasource: datasourceSchema.optional(),
+    panels: z.array(widgetPanelSchema).optional(),
+    style: z.record(z.unknown()).optional(),
+});
+
+// Updates must change at least one field besides the IDs
+const ID_FIELDS = ['dashboardId', 'widgetId'];
+
+function hasChanges(input: Record<string, unknown>): boolean {
+    return Object.entries(input).some(
+        ([key, value]) => value !== undefined && !ID_FIELDS.includes(key)
+    );
+}
+
+const dashboardChangesShape = dashboardInputSchema
+    .pick({ title: true, description: true, layout: true, filters: true })
+    .partial();
+
+export const dashboardChangesSchema = dashboardChangesShape.refine(hasChanges, {
+    message: 'Provide at least one field to change',
+});
+
+export const widgetChangesSchema = widgetInputSchema.partial().refine(hasChanges, {
+    message: 'Provide at least one field to change',
+});
+
+export const updateDashboardInputSchema = dashboardChangesShape
+    .extend({ dashboardId: dashboardIdSchema })
+    .refine(hasChanges, { message: 'Provide at least one field to change' });
+
+export const duplicateDashboardInputSchema = z.object({
+    dashboardId: dashboardIdSchema,
+    title: z.string().min(1).optional(),
+    folderId: folderIdSchema.optional(),
+});
+
+export const addWidgetInputSchema = widgetInputSchema.extend({
+    dashboardId: dashboardIdSchema,
+});
+
+export const updateWidgetInputSchema = widgetInputSchema
+    .partial()
+    .extend({ dashboardId: dashboardIdSchema, widgetId: widgetIdSchema })
+    .refine(hasChanges, { message: 'Provide at least one field to change' });
+
+export const deleteWidgetInputSchema = z.object({
+    dashboardId: dashboardIdSchema,
+    widgetId: widgetIdSchema,
+});
+
+export const buildTypeSchema = z.enum(['full', 'by_table', 'schema_changes']);
+
+export const listBuildsInputSchema = z.object({
+    cubeId: cubeIdSchema.optional(),
+});
+
+export const triggerBuildInputSchema = z.object({
+    cubeId: cubeIdSchema,
+    buildType: buildTypeSchema.optional(),
+    wait: z.boolean().optional(),
+});
+
+export const outputFormatSchema = z.enum(['json', 'csv', 'markdown']);
+
 export const executeQueryInputSchema = z.object({
     query: querySchema,
 });
@@ -28,16 +394,86 @@ export const getCubeMetadataInputSchema = z.object({
     cubeId: cubeIdSchema,
 });
 
+export const listColumnsInputSchema = z.object({
+    cubeId: cubeIdSchema,
+    table: z.string().min(1).optional(),
+    refresh: z.boolean().optional(),
+});
+
+export const listDashboardsInputSchema = dashboardListQuerySchema.extend({
+    cursor: z.string().min(1).optional(),
+    refresh: z.boolean().optional(),
+});
+
+export const jaqlQueryInputSchema = z.object({
+    datasource: datasourceSchema,
+    jaql: jaqlQuerySchema,
+});
+
+// A plain file name, so exports cannot escape the export directory
+export const exportFileNameSchema = z
+    .string()
+    .max(100)
+    .regex(
+        /^[\w-][\w .-]*$/,
+        'File name may only contain letters, digits, spaces, ".", "_" and "-"'
+    );
+
+export const exportQueryInputSchema = jaqlQueryInputSchema.extend({
+    fileFormat: z.enum(['csv', 'jsonl']).optional(),
+    fileName: exportFileNameSchema.optional(),
+});
+
+// Dashboard definitions saved to and restored from .dash files
+export const dashFileSchema = z
+    .object({
+        oid: dashboardIdSchema,
+        title: z.string().min(1, 'Title cannot be empty'),
+        widgets: z.array(z.object({ oid: widgetIdSchema }).passthrough()),
+    })
+    .passthrough();
+
+export const exportDashboardDefinitionInputSchema = z.object({
+    dashboardId: dashboardIdSchema,
+    fileName: exportFileNameSchema.optional(),
+    overwrite: z.boolean().optional(),
+});
+
+export const importDashboardDefinitionInputSchema = z.object({
+    fileName: exportFileNameSchema,
+    onConflict: z.enum(['overwrite', 'duplicate']).optional(),
+    // Datasource title in the file -> cube title or ID to use instead
+    datasourceMap: z.record(z.string().min(1), datasourceSchema).optional(),
+});
+
+export const diffDashboardsInputSchema = z
+    .object({
+        dashboardId: dashboardIdSchema,
+        baseDashboardId: dashboardIdSchema.optional(),
+        baseFileName: exportFileNameSchema.optional(),
+    })
+    .refine(input => (input.baseDashboardId === undefined) !== (input.baseFileName === undefined), {
+        message: 'Provide either baseDashboardId or baseFileName',
+        path: ['baseDashboardId'],
+    });
+
 // Resource URI validation
 export const resourceUriSchema = z
     .string()
-    .regex(/^sisense:\/\/(dashboard|cube)\/[a-zA-Z0-9_-]+$/, 'Invalid resource URI format');
+    .refine(uri => matchResourceUri(uri) !== null, 'Invalid resource URI format');
 
 // Sisense configuration validation
-export const sisenseConfigSchema = z.object({
-    url: z.string().url('Invalid Sisense URL'),
-    apiKey: z.string().min(1, 'API key cannot be empty'),
-});
+export const sisenseConfigSchema = z
+    .object({
+        url: z.string().url('Invalid Sisense URL'),
+        apiKey: z.string().optional(),
+        username: z.string().optional(),
+        password: z.string().optional(),
+    })
+    .refine(config => Boolean(config.apiKey || (config.username && config.password)), {
+        message: 'Either an API key or a username and password must be provided',
+        path: ['apiKey'],
+    });
 
 // Validation helper functions
 export function validateInput<T>(schema: z.ZodSchema<T>, input: unknown): T {
@@ -63,6 +499,17 @@ export function validateResourceUri(uri: string): string {
     return validateInput(resourceUriSchema, uri);
 }
 
+/**
+ * Validate a resource URI and return the template it matches with its parameters
+ */
+export function parseResourceUri(uri: string): ResourceUriMatch {
+    const match = matchResourceUri(validateResourceUri(uri));
+    if (!match) {
+        throw new ValidationError('Invalid resource URI format', { uri });
+    }
+    return match;
+}
+
 export function validateDashboardId(dashboardId: string): string {
     return validateInput(dashboardIdSchema, dashboardId);
 }
@@ -71,6 +518,18 @@ export function validateCubeId(cubeId: string): string {
     return validateInput(cubeIdSchema, cubeId);
 }
 
+export function validateFolderId(folderId: string): string {
+    return validateInput(folderIdSchema, folderId);
+}
+
+export function validateWidgetId(widgetId: string): string {
+    return validateInput(widgetIdSchema, widgetId);
+}
+
+export function validateBuildId(buildId: string): string {
+    return validateInput(buildIdSchema, buildId);
+}
+
 export function validateQuery(query: unknown): z.infer<typeof querySchema> {
     return validateInput(querySchema, query);
 }
@@ -78,3 +537,11 @@ export function validateQuery(query: unknown): z.infer<typeof querySchema> {
 export function validateSisenseConfig(config: unknown): z.infer<typeof sisenseConfigSchema> {
     return validateInput(sisenseConfigSchema, config);
 }
+
+export function validateDatasource(datasource: string): string {
+    return validateInput(datasourceSchema, datasource);
+}
+
+export function validateJaqlQuery(jaql: unknown): z.infer<typeof jaqlQuerySchema> {
+    return validateInput(jaqlQuerySchema, jaql);
+}
@@ -0,0 +1,148 @@
+import type { AppliedFilter, FilterOverrides } from '../types/index.js';
+import { ValidationError } from '../types/index.js';
+import { toJaqlFilter } from './jaql-filters.js';
+import { asRecord, asRecords, datasourceTitle } from './records.js';
+
+type JaqlPanel = 'rows' | 'columns' | 'measures' | 'scope';
+
+export interface JaqlMetadataItem {
+    jaql: Record<string, unknown>;
+    panel: JaqlPanel;
+}
+
+export interface WidgetQuery {
+    datasource: string;
+    jaql: { metadata: JaqlMetadataItem[] };
+    /** Filters in the query, for echoing back to the caller */
+    filters: AppliedFilter[];
+}
+
+// Widget panels holding measures or filters; other panels (rows, categories, break by, ...)
+// hold dimensions and are queried as rows so the result stays a flat table
+export const MEASURE_PANELS = new Set(['values', 'value', 'secondary', 'min', 'max']);
+export const FILTER_PANELS = new Set(['filters']);
+
+// Date dimensions are saved as "[Table.Column (Calendar)]" but usually written without the suffix
+const CALENDAR_SUFFIX = / \(Calendar\)\]$/;
+
+/**
+ * Build the JAQL query a widget runs: its panel items plus the dashboard filters
+ * that the widget does not ignore. Overrides replace any saved filter on the same
+ * dimension (ignoring case and the date `(Calendar)` suffix); in `replace` mode the
+ * other dashboard filters are dropped as well.
+ */
+export function buildWidgetQuery(
+    widget: Record<string, unknown>,
+    dashboard: Record<string, unknown>,
+    overrides: FilterOverrides = {}
+): WidgetQuery {
+    const datasource = datasourceTitle(widget['datasource'] ?? dashboard['datasource']);
+    if (!datasource) {
+        throw new ValidationError('Widget has no datasource', { widgetId: widget['oid'] });
+    }
+
+    const fields: JaqlMetadataItem[] = [];
+    const filters: AppliedFilter[] = [];
+    const widgetMetadata = asRecord(widget['metadata']);
+
+    for (const panel of asRecords(widgetMetadata['panels'])) {
+        const name = typeof panel['name'] === 'string' ? panel['name'].toLowerCase() : '';
+        const isFilterPanel = FILTER_PANELS.has(name);
+
+        for (const item of asRecords(panel['items'])) {
+            if (item['disabled'] === true || !isJaql(item['jaql'])) {
+                continue;
+            }
+            if (isFilterPanel) {
+                filters.push(toAppliedFilter(item['jaql'], 'widget'));
+            } else {
+                fields.push({
+                    jaql: item['jaql'],
+                    panel: MEASURE_PANELS.has(name) ? 'measures' : 'rows',
+                });
+            }
+        }
+    }
+
+    if (fields.length === 0) {
+        throw new ValidationError('Widget has no fields to query', { widgetId: widget['oid'] });
+    }
+
+    const ignore = asRecord(widgetMetadata['ignore']);
+    if (ignore['all'] !== true && overrides.filterMode !== 'replace') {
+        const ignoredIds = new Set(asStrings(ignore['ids']));
+        const ignoredDims = new Set(asStrings(ignore['dimensions']).map(dimKey));
+
+        for (const filter of getDashboardFilters(dashboard)) {
+            const dim = filter.jaql['dim'];
+            if (
+                !ignoredIds.has(String(filter.instanceId)) &&
+                !(typeof dim === 'string' && ignoredDims.has(dimKey(dim)))
+            ) {
+                filters.push(toAppliedFilter(filter.jaql, 'dashboard'));
+            }
+        }
+    }
+
+    const overrideEntries = Object.entries(overrides.filters ?? {});
+    const overriddenDims = new Set(overrideEntries.map(([dim]) => dimKey(dim)));
+    const appliedFilters = [
+        ...filters.filter(filter => !overriddenDims.has(dimKey(filter.dim))),
+        ...overrideEntries.map(([dim, override]) =>
+            toAppliedFilter(toJaqlFilter(dim, override), 'override')
+        ),
+    ];
+
+    return {
+        datasource,
+        jaql: {
+            metadata: [
+                ...fields,
+                ...appliedFilters.map(filter => ({ jaql: filter.jaql, panel: 'scope' as const })),
+            ],
+        },
+        filters: appliedFilters,
+    };
+}
+
+function toAppliedFilter(
+    jaql: Record<string, unknown>,
+    source: AppliedFilter['source']
+): AppliedFilter {
+    return { dim: typeof jaql['dim'] === 'string' ? jaql['dim'] : '', source, jaql };
+}
+
+/**
+ * Enabled dashboard filters, with cascading filters flattened into their levels
+ */
+function getDashboardFilters(
+    dashboard: Record<string, unknown>
+): Array<{ instanceId: unknown; jaql: Record<string, unknown> }> {
+    const filters: Array<{ instanceId: unknown; jaql: Record<string, unknown> }> = [];
+
+    for (const filter of asRecords(dashboard['filters'])) {
+        if (filter['disabled'] === true) {
+            continue;
+        }
+        const levels = Array.isArray(filter['levels']) ? asRecords(filter['levels']) : [filter];
+        for (const level of levels) {
+            if (isJaql(level['jaql'])) {
+                filters.push({ instanceId: filter['instanceid'], jaql: level['jaql'] });
+            }
+        }
+    }
+    return filters;
+}
+
+function dimKey(dim: string): string {
+    return dim.replace(CALENDAR_SUFFIX, ']').toLowerCase();
+}
+
+function isJaql(value: unknown): value is Record<string, unknown> {
+    const jaql = asRecord(value);
+    return typeof jaql['dim'] === 'string' || typeof jaql['formula'] === 'string';
+}
+
+function asStrings(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter(item => typeof item === 'string') : [];
+}
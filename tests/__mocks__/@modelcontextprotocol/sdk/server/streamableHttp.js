@@ -0,0 +1,37 @@
+// Mock for @modelcontextprotocol/sdk/server/streamableHttp.js
+class StreamableHTTPServerTransport {
+  constructor(options) {
+    this.options = options;
+    this.sessionId = undefined;
+  }
+
+  async start() {
+    return Promise.resolve();
+  }
+
+  async handleRequest(req, res, parsedBody) {
+    // Mock the initialize handshake and echo every other message back
+    if (!this.sessionId) {
+      this.sessionId = this.options.sessionIdGenerator();
+      await this.options.onsessioninitialized?.(this.sessionId);
+    }
+
+    if (req.method === 'DELETE') {
+      res.writeHead(200).end();
+      await this.close();
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'application/json',
+      'mcp-session-id': this.sessionId,
+    });
+    res.end(JSON.stringify({ echo: parsedBody ?? null }));
+  }
+
+  async close() {
+    this.onclose?.();
+  }
+}
+
+module.exports = { StreamableHTTPServerTransport };
@@ -1,12 +1,18 @@
 // Mock for @modelcontextprotocol/sdk/types.js
 const ListToolsRequestSchema = 'ListToolsRequestSchema';
 const ListResourcesRequestSchema = 'ListResourcesRequestSchema';
+const ListResourceTemplatesRequestSchema = 'ListResourceTemplatesRequestSchema';
 const ReadResourceRequestSchema = 'ReadResourceRequestSchema';
 const CallToolRequestSchema = 'CallToolRequestSchema';
 
+const isInitializeRequest = value =>
+  Boolean(value) && value.jsonrpc === '2.0' && value.method === 'initialize';
+
 module.exports = {
   ListToolsRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
   CallToolRequestSchema,
+  isInitializeRequest,
 };
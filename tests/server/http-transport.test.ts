@@ -0,0 +1,162 @@
+import { StreamableHttpHost, type HttpHostConfig } from '../../src/server/http-transport';
+
+describe('StreamableHttpHost', () => {
+    let host: StreamableHttpHost;
+    let createServer: jest.Mock;
+    let baseUrl: string;
+
+    const initializeRequest = {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test' } },
+    };
+
+    const config = { host: '127.0.0.1', port: 0, path: '/mcp', sessionIdleMs: 0, maxSessions: 10 };
+
+    const startHost = async (overrides: Partial<HttpHostConfig> = {}) => {
+        await host?.stop();
+        host = new StreamableHttpHost({ ...config, authToken: '', ...overrides }, createServer);
+        await host.start();
+        baseUrl = `http://127.0.0.1:${host.address?.port}/mcp`;
+    };
+
+    const post = (body: unknown, headers: Record<string, string> = {}) =>
+        fetch(baseUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...headers },
+            body: typeof body === 'string' ? body : JSON.stringify(body),
+        });
+
+    beforeEach(async () => {
+        createServer = jest.fn(() => ({
+            connect: jest.fn().mockResolvedValue(undefined),
+            close: jest.fn().mockResolvedValue(undefined),
+        }));
+        await startHost();
+    });
+
+    afterEach(async () => {
+        await host.stop();
+    });
+
+    it('should open a new session for an initialize request', async () => {
+        const response = await post(initializeRequest);
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('mcp-session-id')).toBeTruthy();
+        expect(createServer).toHaveBeenCalledTimes(1);
+        expect(host.sessionCount).toBe(1);
+    });
+
+    it('should route follow-up requests to the existing session', async () => {
+        const init = await post(initializeRequest);
+        const sessionId = init.headers.get('mcp-session-id') as string;
+
+        const message = { jsonrpc: '2.0', id: 2, method: 'tools/list' };
+        const response = await post(message, { 'mcp-session-id': sessionId });
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ echo: message });
+        expect(createServer).toHaveBeenCalledTimes(1);
+    });
+
+    it('should create a separate server per session', async () => {
+        await post(initializeRequest);
+        await post(initializeRequest);
+
+        expect(createServer).toHaveBeenCalledTimes(2);
+        expect(host.sessionCount).toBe(2);
+    });
+
+    it('should reject non-initialize requests without a session', async () => {
+        const response = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toMatchObject({ error: { code: -32600 } });
+    });
+
+    it('should reject requests with an unknown session ID', async () => {
+        const response = await post(
+            { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+            { 'mcp-session-id': 'unknown' }
+        );
+
+        expect(response.status).toBe(400);
+    });
+
+    it('should return a parse error for invalid JSON', async () => {
+        const response = await post('{not json');
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toMatchObject({ error: { code: -32700 } });
+    });
+
+    it('should return 404 for other paths', async () => {
+        const response = await fetch(baseUrl.replace('/mcp', '/other'));
+
+        expect(response.status).toBe(404);
+    });
+
+    it('should forget the session once it is deleted', async () => {
+        const init = await post(initializeRequest);
+        const sessionId = init.headers.get('mcp-session-id') as string;
+
+        const response = await fetch(baseUrl, {
+            method: 'DELETE',
+            headers: { 'mcp-session-id': sessionId },
+        });
+
+        expect(response.status).toBe(200);
+        expect(host.sessionCount).toBe(0);
+    });
+
+    it('should refuse new sessions beyond the session limit', async () => {
+        await startHost({ maxSessions: 1 });
+        await post(initializeRequest);
+
+        const response = await post(initializeRequest);
+
+        expect(response.status).toBe(503);
+        expect(await response.json()).toMatchObject({ error: { code: -32000 } });
+        expect(createServer).toHaveBeenCalledTimes(1);
+    });
+
+    it('should close sessions that have been idle too long', async () => {
+        await startHost({ sessionIdleMs: 60000 });
+        await post(initializeRequest);
+        const server = createServer.mock.results[0]?.value;
+
+        await host.closeIdleSessions(Date.now() + 30000);
+        expect(host.sessionCount).toBe(1);
+
+        await host.closeIdleSessions(Date.now() + 60000);
+        expect(host.sessionCount).toBe(0);
+        expect(server.close).toHaveBeenCalled();
+    });
+
+    it('should require the bearer token when one is configured', async () => {
+        await startHost({ authToken: 'secret' });
+
+        const missing = await post(initializeRequest);
+        const wrong = await post(initializeRequest, { Authorization: 'Bearer wrong' });
+        const valid = await post(initializeRequest, { Authorization: 'Bearer secret' });
+
+        expect(missing.status).toBe(401);
+        expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+        expect(wrong.status).toBe(401);
+        expect(valid.status).toBe(200);
+        expect(host.sessionCount).toBe(1);
+    });
+
+    it('should close all session servers on stop', async () => {
+        await post(initializeRequest);
+        const server = createServer.mock.results[0]?.value;
+
+        await host.stop();
+
+        expect(server.close).toHaveBeenCalled();
+        expect(host.sessionCount).toBe(0);
+        expect(host.address).toBeNull();
+    });
+});
@@ -1,11 +1,22 @@
 import { SisenseMCPServer } from '../../src/server/mcp-server';
 import { SisenseService } from '../../src/services/sisense';
-import { ValidationError } from '../../src/types/index.js';
+import { NotFoundError, ToolNotAllowedError, ValidationError } from '../../src/types/index.js';
+import { decodeCursor, encodeCursor } from '../../src/utils/pagination';
+import { dashboardListQuerySchema } from '../../src/utils/validation';
+import { env } from '../../src/config/environment';
+import { logger } from '../../src/utils/logger';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 
 // Mock the SisenseService
 jest.mock('../../src/services/sisense');
 const MockedSisenseService = SisenseService as jest.MockedClass<typeof SisenseService>;
 
+// Read-only mode is the default, so tests of mutating tools opt out of it
+const writableServer = () =>
+    new SisenseMCPServer({ toolPolicy: { readOnly: false, allow: [], deny: [] } });
+
 describe('SisenseMCPServer', () => {
     let server: SisenseMCPServer;
     let mockSisenseService: jest.Mocked<SisenseService>;
@@ -20,11 +31,38 @@ describe('SisenseMCPServer', () => {
             getServerInfo: jest.fn(),
             getDataSources: jest.fn(),
             getDashboards: jest.fn(),
+            listDashboards: jest.fn(),
             getDashboard: jest.fn(),
             getDashboardWidgets: jest.fn(),
+            getWidget: jest.fn(),
+            getWidgetData: jest.fn(),
+            getFolderTree: jest.fn(),
+            getFolderContents: jest.fn(),
             executeQuery: jest.fn(),
+            executeJaql: jest.fn(),
+            streamJaql: jest.fn(),
+            exportDashboard: jest.fn(),
+            exportWidget: jest.fn(),
+            listBuilds: jest.fn(),
+            getBuildStatus: jest.fn(),
+            triggerBuild: jest.fn(),
+            waitForBuild: jest.fn(),
+            createDashboard: jest.fn(),
+            updateDashboard: jest.fn(),
+            duplicateDashboard: jest.fn(),
+            addWidget: jest.fn(),
+            updateWidget: jest.fn(),
+            deleteWidget: jest.fn(),
+            getDashboardDefinition: jest.fn(),
+            importDashboard: jest.fn(),
+            findFieldUsage: jest.fn(),
+            buildQuery: jest.fn(),
+            profileField: jest.fn(),
             getCubes: jest.fn(),
             getCubeMetadata: jest.fn(),
+            listTables: jest.fn(),
+            listColumns: jest.fn(),
+            getRelations: jest.fn(),
         } as any;
 
         // Mock the constructor
@@ -60,28 +98,82 @@ describe('SisenseMCPServer', () => {
                 { oid: '1', title: 'Dashboard 1' },
                 { oid: '2', title: 'Dashboard 2' },
             ];
-            mockSisenseService.getDashboards.mockResolvedValue(mockDashboards);
+            const mockPage = { dashboards: mockDashboards, skip: 0, limit: 50, count: 2 };
+            mockSisenseService.listDashboards.mockResolvedValue(mockPage);
 
             const result = await server['callTool']('list_dashboards', {});
 
-            expect(mockSisenseService.getDashboards).toHaveBeenCalled();
+            expect(mockSisenseService.listDashboards).toHaveBeenCalledWith(
+                {},
+                { signal: expect.any(AbortSignal), refresh: false }
+            );
             expect(result).toEqual({
                 content: [
                     {
                         type: 'text',
-                        text: JSON.stringify(mockDashboards, null, 2),
+                        text: JSON.stringify(mockPage, null, 2),
                     },
                 ],
             });
         });
 
+        it('should pass list_dashboards filters to the service', async () => {
+            mockSisenseService.listDashboards.mockResolvedValue({
+                dashboards: [],
+                skip: 0,
+                limit: 10,
+                count: 0,
+            });
+
+            await server['callTool']('list_dashboards', {
+                search: 'sales',
+                folderId: 'f1',
+                sort: '-lastUpdated',
+                limit: 10,
+                refresh: true,
+            });
+
+            expect(mockSisenseService.listDashboards).toHaveBeenCalledWith(
+                { search: 'sales', folderId: 'f1', sort: '-lastUpdated', limit: 10 },
+                { signal: expect.any(AbortSignal), refresh: true }
+            );
+        });
+
+        it('should resume list_dashboards from a cursor', async () => {
+            mockSisenseService.listDashboards.mockResolvedValue({
+                dashboards: [],
+                skip: 20,
+                limit: 10,
+                count: 0,
+            });
+            const cursor = encodeCursor({ search: 'sales', skip: 20, limit: 10 });
+
+            await server['callTool']('list_dashboards', { cursor });
+
+            expect(mockSisenseService.listDashboards).toHaveBeenCalledWith(
+                { search: 'sales', skip: 20, limit: 10 },
+                expect.anything()
+            );
+        });
+
+        it('should reject list_dashboards with an invalid cursor or limit', async () => {
+            await expect(
+                server['callTool']('list_dashboards', { cursor: 'not-a-cursor' })
+            ).rejects.toThrow(ValidationError);
+            await expect(server['callTool']('list_dashboards', { limit: 100000 })).rejects.toThrow(
+                ValidationError
+            );
+        });
+
         it('should execute get_dashboard tool with valid arguments', async () => {
             const mockDashboard = { oid: '123', title: 'Test Dashboard' };
             mockSisenseService.getDashboard.mockResolvedValue(mockDashboard);
 
             const result = await server['callTool']('get_dashboard', { dashboardId: '123' });
 
-            expect(mockSisenseService.getDashboard).toHaveBeenCalledWith('123');
+            expect(mockSisenseService.getDashboard).toHaveBeenCalledWith('123', {
+                signal: expect.any(AbortSignal),
+            });
             expect(result).toEqual({
                 content: [
                     {
@@ -92,6 +184,17 @@ describe('SisenseMCPServer', () => {
             });
         });
 
+        it('should pass the refresh argument to cached metadata calls', async () => {
+            mockSisenseService.getCubes.mockResolvedValue([]);
+
+            await server['callTool']('list_cubes', { refresh: true });
+
+            expect(mockSisenseService.getCubes).toHaveBeenCalledWith({
+                signal: expect.any(AbortSignal),
+                refresh: true,
+            });
+        });
+
         it('should throw ValidationError for get_dashboard tool with missing dashboardId', async () => {
             await expect(server['callTool']('get_dashboard', {})).rejects.toThrow(ValidationError);
         });
@@ -103,7 +206,9 @@ describe('SisenseMCPServer', () => {
 
             const result = await server['callTool']('execute_query', { query: mockQuery });
 
-            expect(mockSisenseService.executeQuery).toHaveBeenCalledWith(mockQuery);
+            expect(mockSisenseService.executeQuery).toHaveBeenCalledWith(mockQuery, {
+                signal: expect.any(AbortSignal),
+            });
             expect(result).toEqual({
                 content: [
                     {
@@ -118,6 +223,957 @@ describe('SisenseMCPServer', () => {
             await expect(server['callTool']('execute_query', {})).rejects.toThrow(ValidationError);
         });
 
+        it('should execute jaql_query tool with valid arguments', async () => {
+            const jaql = { metadata: [{ jaql: { dim: '[Commerce.Country]' } }] };
+            const mockResult = {
+                datasource: 'Sample ECommerce',
+                headers: ['Country'],
+                rows: [['France']],
+                rowCount: 1,
+            };
+            mockSisenseService.executeJaql.mockResolvedValue(mockResult);
+
+            const result = await server['callTool']('jaql_query', {
+                datasource: 'Sample ECommerce',
+                jaql,
+            });
+
+            expect(mockSisenseService.executeJaql).toHaveBeenCalledWith('Sample ECommerce', jaql, {
+                signal: expect.any(AbortSignal),
+            });
+            expect(result.content[0]?.text).toBe(JSON.stringify(mockResult, null, 2));
+        });
+
+        it('should throw ValidationError for jaql_query tool with missing datasource', async () => {
+            await expect(
+                server['callTool']('jaql_query', { jaql: { metadata: [] } })
+            ).rejects.toThrow(ValidationError);
+        });
+
+        it('should format jaql_query results as csv or markdown', async () => {
+            mockSisenseService.executeJaql.mockResolvedValue({
+                datasource: 'Sample ECommerce',
+                headers: ['Country', 'Revenue'],
+                rows: [['France', 1200]],
+                rowCount: 1,
+            });
+            const args = {
+                datasource: 'Sample ECommerce',
+                jaql: { metadata: [{ jaql: { dim: '[Commerce.Country]' } }] },
+            };
+
+            const csv = await server['callTool']('jaql_query', { ...args, format: 'csv' });
+            const markdown = await server['callTool']('jaql_query', {
+                ...args,
+                format: 'markdown',
+            });
+
+            expect(csv.content[0]?.text).toContain('Country,Revenue\nFrance,1200');
+            expect(markdown.content[0]?.text).toContain(
+                '| Country | Revenue |\n| --- | --- |\n| France | 1200 |'
+            );
+        });
+
+        it('should format get_dashboard_widgets results as a table', async () => {
+            mockSisenseService.getDashboardWidgets.mockResolvedValue([
+                { oid: 'w1', title: 'Revenue', type: 'indicator' },
+                { oid: 'w2', title: 'Orders', type: 'chart/column' },
+            ]);
+
+            const result = await server['callTool']('get_dashboard_widgets', {
+                dashboardId: 'd1',
+                format: 'csv',
+            });
+
+            expect(result.content[0]?.text).toBe(
+                'oid,title,type\nw1,Revenue,indicator\nw2,Orders,chart/column'
+            );
+        });
+
+        it('should truncate oversized responses with a paging note', async () => {
+            const maxChars = env.MCP_MAX_RESPONSE_CHARS;
+            env.MCP_MAX_RESPONSE_CHARS = 2000;
+            mockSisenseService.listDashboards.mockResolvedValue({
+                dashboards: Array.from({ length: 100 }, (_, index) => ({
+                    oid: `dashboard-${index}`,
+                    title: `Dashboard ${index}`,
+                })),
+                skip: 0,
+                limit: 100,
+                count: 100,
+            });
+
+            try {
+                const result = await server['callTool']('list_dashboards', { search: 'sales' });
+                const page = JSON.parse(result.content[0]?.text ?? '') as {
+                    dashboards: unknown[];
+                    nextCursor: string;
+                };
+                const shown = page.dashboards.length;
+
+                expect(result.content).toHaveLength(2);
+                expect(shown).toBeLessThan(100);
+                expect(result.content[1]?.text).toContain(`rows ${shown + 1}-100 were omitted`);
+                expect(result.content[1]?.text).toContain(
+                    'call list_dashboards with the nextCursor'
+                );
+                expect(decodeCursor(page.nextCursor, dashboardListQuerySchema)).toEqual({
+                    search: 'sales',
+                    skip: shown,
+                    limit: 100,
+                });
+            } finally {
+                env.MCP_MAX_RESPONSE_CHARS = maxChars;
+            }
+        });
+
+        it('should throw ValidationError for an unsupported format', async () => {
+            await expect(server['callTool']('list_cubes', { format: 'xml' })).rejects.toThrow(
+                ValidationError
+            );
+            expect(mockSisenseService.getCubes).not.toHaveBeenCalled();
+        });
+
+        it('should abort the Sisense request when the tool call is cancelled', async () => {
+            const controller = new AbortController();
+            let receivedSignal: AbortSignal | undefined;
+            mockSisenseService.listDashboards.mockImplementation(async (_query, options) => {
+                receivedSignal = options?.signal;
+                controller.abort('client cancelled');
+                return { dashboards: [], skip: 0, limit: 50, count: 0 };
+            });
+
+            await server['callTool']('list_dashboards', {}, controller.signal);
+
+            expect(receivedSignal?.aborted).toBe(true);
+            expect(receivedSignal?.reason).toBe('client cancelled');
+        });
+
+        it('should apply the tool timeout to the Sisense request signal', async () => {
+            jest.spyOn(server as any, 'getToolTimeout').mockReturnValue(5);
+            mockSisenseService.getServerInfo.mockImplementation(
+                options =>
+                    new Promise((_resolve, reject) => {
+                        const signal = options?.signal;
+                        signal?.addEventListener('abort', () => reject(signal.reason));
+                    })
+            );
+
+            await expect(server['callTool']('get_server_info', {})).rejects.toMatchObject({
+                name: 'TimeoutError',
+            });
+        });
+
+        it('should give long-running tools their own default timeouts', () => {
+            expect(server['getToolTimeout']('trigger_build')).toBe(env.SISENSE_BUILD_TIMEOUT_MS);
+            expect(server['getToolTimeout']('find_field_usage')).toBe(env.SISENSE_SCAN_TIMEOUT_MS);
+            expect(server['getToolTimeout']('export_query')).toBe(env.MCP_EXPORT_TIMEOUT_MS);
+            expect(server['getToolTimeout']('list_cubes')).toBe(env.SISENSE_REQUEST_TIMEOUT_MS);
+        });
+
+        it('should execute get_widget_data tool', async () => {
+            const mockData = {
+                dashboardId: 'd1',
+                widgetId: 'w1',
+                title: 'Revenue by country',
+                datasource: 'Sample ECommerce',
+                headers: ['Country', 'Revenue'],
+                rows: [['France', 100]],
+                rowCount: 1,
+            };
+            mockSisenseService.getWidgetData.mockResolvedValue(mockData);
+
+            const result = await server['callTool']('get_widget_data', {
+                dashboardId: 'd1',
+                widgetId: 'w1',
+            });
+
+            expect(mockSisenseService.getWidgetData).toHaveBeenCalledWith(
+                'd1',
+                'w1',
+                { filters: undefined, filterMode: undefined },
+                { signal: expect.any(AbortSignal) }
+            );
+            expect(result.content[0]?.text).toBe(JSON.stringify(mockData, null, 2));
+        });
+
+        it('should pass get_widget_data filter overrides to the service', async () => {
+            mockSisenseService.getWidgetData.mockResolvedValue({} as any);
+            const filters = {
+                '[Commerce.Region]': { members: ['EMEA'] },
+                '[Commerce.Date]': {
+                    relative: { period: 'last', count: 1, offset: 1 },
+                    level: 'quarters',
+                },
+            };
+
+            await server['callTool']('get_widget_data', {
+                dashboardId: 'd1',
+                widgetId: 'w1',
+                filters,
+                filterMode: 'replace',
+            });
+
+            expect(mockSisenseService.getWidgetData).toHaveBeenCalledWith(
+                'd1',
+                'w1',
+                { filters, filterMode: 'replace' },
+                expect.anything()
+            );
+        });
+
+        it('should throw ValidationError for malformed filter overrides', async () => {
+            await expect(
+                server['callTool']('get_widget_data', {
+                    dashboardId: 'd1',
+                    widgetId: 'w1',
+                    filters: { '[Commerce.Region]': { members: [] } },
+                })
+            ).rejects.toThrow(ValidationError);
+            await expect(
+                server['callTool']('get_widget_data', {
+                    dashboardId: 'd1',
+                    widgetId: 'w1',
+                    filters: { Region: { members: ['EMEA'] } },
+                })
+            ).rejects.toThrow(ValidationError);
+        });
+
+        it('should throw ValidationError for get_widget_data without a widget ID', async () => {
+            await expect(
+                server['callTool']('get_widget_data', { dashboardId: 'd1' })
+            ).rejects.toThrow(ValidationError);
+        });
+
+        describe('build_query', () => {
+            const compiled = {
+                datasource: 'Sample ECommerce',
+                jaql: {
+                    metadata: [
+                        { jaql: { dim: '[Commerce.Country]', title: 'Country' }, panel: 'rows' },
+                    ],
+                },
+            };
+            const input = {
+                datasource: 'Sample ECommerce',
+                dimensions: [{ field: 'Commerce.Country' }],
+            };
+
+            it('should compile and execute the query by default', async () => {
+                mockSisenseService.buildQuery.mockResolvedValue(compiled);
+                mockSisenseService.executeJaql.mockResolvedValue({
+                    datasource: 'Sample ECommerce',
+                    headers: ['Country'],
+                    rows: [['France']],
+                    rowCount: 1,
+                });
+
+                const result = await server['callTool']('build_query', input);
+
+                expect(mockSisenseService.buildQuery).toHaveBeenCalledWith(input, {
+                    signal: expect.any(AbortSignal),
+                });
+                expect(mockSisenseService.executeJaql).toHaveBeenCalledWith(
+                    'Sample ECommerce',
+                    compiled.jaql,
+                    { signal: expect.any(AbortSignal) }
+                );
+                expect(JSON.parse(result.content[0]!.text)).toEqual({
+                    jaql: compiled.jaql,
+                    datasource: 'Sample ECommerce',
+                    headers: ['Country'],
+                    rows: [['France']],
+                    rowCount: 1,
+                });
+            });
+
+            it('should only return the JAQL when execute is false', async () => {
+                mockSisenseService.buildQuery.mockResolvedValue(compiled);
+
+                const result = await server['callTool']('build_query', {
+                    ...input,
+                    execute: false,
+                });
+
+                expect(mockSisenseService.executeJaql).not.toHaveBeenCalled();
+                expect(JSON.parse(result.content[0]!.text)).toEqual(compiled);
+            });
+
+            it('should reject a query without dimensions or measures', async () => {
+                await expect(
+                    server['callTool']('build_query', { datasource: 'Sample ECommerce' })
+                ).rejects.toThrow(ValidationError);
+                expect(mockSisenseService.buildQuery).not.toHaveBeenCalled();
+            });
+
+            it('should reject unsupported aggregations', async () => {
+                await expect(
+                    server['callTool']('build_query', {
+                        datasource: 'Sample ECommerce',
+                        measures: [{ field: 'Commerce.Revenue', aggregation: 'total' }],
+                    })
+                ).rejects.toThrow(ValidationError);
+            });
+        });
+
+        it('should execute data model explorer tools', async () => {
+            mockSisenseService.listTables.mockResolvedValue([]);
+            mockSisenseService.listColumns.mockResolvedValue([]);
+            mockSisenseService.getRelations.mockResolvedValue([]);
+
+            await server['callTool']('list_tables', { cubeId: 'c1' });
+            await server['callTool']('list_columns', { cubeId: 'c1', table: 'Commerce' });
+            await server['callTool']('get_relations', { cubeId: 'c1', refresh: true });
+
+            const options = { signal: expect.any(AbortSignal), refresh: false };
+            expect(mockSisenseService.listTables).toHaveBeenCalledWith('c1', options);
+            expect(mockSisenseService.listColumns).toHaveBeenCalledWith('c1', 'Commerce', options);
+            expect(mockSisenseService.getRelations).toHaveBeenCalledWith('c1', {
+                ...options,
+                refresh: true,
+            });
+        });
+
+        it('should throw ValidationError for list_columns without a cube ID', async () => {
+            await expect(server['callTool']('list_columns', { table: 'Commerce' })).rejects.toThrow(
+                ValidationError
+            );
+        });
+
+        describe('export_query', () => {
+            beforeEach(() => {
+                server = writableServer();
+            });
+
+            it('should export query results to a file and return a resource link', async () => {
+                const exportDir = env.MCP_EXPORT_DIR;
+                env.MCP_EXPORT_DIR = await mkdtemp(join(tmpdir(), 'sisense-export-'));
+                mockSisenseService.streamJaql.mockImplementation(async function* () {
+                    yield {
+                        datasource: 'Sample ECommerce',
+                        headers: ['Country'],
+                        rows: [['France'], ['Spain']],
+                        rowCount: 2,
+                    };
+                });
+                const jaql = { metadata: [{ jaql: { dim: '[Commerce.Country]' } }] };
+
+                try {
+                    const result = await server['callTool']('export_query', {
+                        datasource: 'Sample ECommerce',
+                        jaql,
+                        fileName: 'countries',
+                    });
+                    const path = join(env.MCP_EXPORT_DIR, 'countries.csv');
+
+                    expect(mockSisenseService.streamJaql).toHaveBeenCalledWith(
+                        'Sample ECommerce',
+                        jaql,
+                        env.MCP_EXPORT_PAGE_SIZE,
+                        { signal: expect.any(AbortSignal) }
+                    );
+                    expect(result.content[0]).toEqual({
+                        type: 'resource_link',
+                        uri: `file://${path}`,
+                        name: 'countries.csv',
+                        mimeType: 'text/csv',
+                        size: 21,
+                    });
+                    expect(result.content[1]).toMatchObject({
+                        type: 'text',
+                        text: expect.stringContaining('"rowCount": 2'),
+                    });
+                    expect(await readFile(path, 'utf8')).toBe('Country\nFrance\nSpain\n');
+                } finally {
+                    await rm(env.MCP_EXPORT_DIR, { recursive: true, force: true });
+                    env.MCP_EXPORT_DIR = exportDir;
+                }
+            });
+
+            it('should reject export file names with path separators', async () => {
+                await expect(
+                    server['callTool']('export_query', {
+                        datasource: 'Sample ECommerce',
+                        jaql: { metadata: [{ jaql: { dim: '[Commerce.Country]' } }] },
+                        fileName: '../outside',
+                    })
+                ).rejects.toThrow(ValidationError);
+                expect(mockSisenseService.streamJaql).not.toHaveBeenCalled();
+            });
+        });
+
+        it('should execute profile_field tool', async () => {
+            mockSisenseService.profileField.mockResolvedValue({} as any);
+
+            await server['callTool']('profile_field', {
+                datasource: 'Sample ECommerce',
+                field: 'Commerce.Country',
+                topN: 5,
+            });
+
+            expect(mockSisenseService.profileField).toHaveBeenCalledWith(
+                'Sample ECommerce',
+                'Commerce.Country',
+                5,
+                { signal: expect.any(AbortSignal), refresh: false }
+            );
+        });
+
+        it('should reject profile_field with too many top values', async () => {
+            await expect(
+                server['callTool']('profile_field', {
+                    datasource: 'Sample ECommerce',
+                    field: 'Commerce.Country',
+                    topN: 1000,
+                })
+            ).rejects.toThrow(ValidationError);
+        });
+
+        it('should return a dashboard export as an image', async () => {
+            mockSisenseService.exportDashboard.mockResolvedValue({
+                format: 'png',
+                mimeType: 'image/png',
+                data: 'iVBORw0K',
+                bytes: 6,
+            });
+
+            const result = await server['callTool']('export_dashboard', {
+                dashboardId: '123',
+                width: 800,
+            });
+
+            expect(mockSisenseService.exportDashboard).toHaveBeenCalledWith(
+                '123',
+                'png',
+                { width: 800 },
+                { signal: expect.any(AbortSignal) }
+            );
+            expect(result.content[0]).toEqual({
+                type: 'image',
+                data: 'iVBORw0K',
+                mimeType: 'image/png',
+            });
+            expect(result.content[1]).toMatchObject({ type: 'text' });
+        });
+
+        it('should return a widget PDF as an embedded resource', async () => {
+            mockSisenseService.exportWidget.mockResolvedValue({
+                format: 'pdf',
+                mimeType: 'application/pdf',
+                data: 'JVBERi0=',
+                bytes: 5,
+            });
+
+            const result = await server['callTool']('export_widget', {
+                dashboardId: '123',
+                widgetId: 'w1',
+                fileFormat: 'pdf',
+                paperOrientation: 'landscape',
+            });
+
+            expect(mockSisenseService.exportWidget).toHaveBeenCalledWith(
+                '123',
+                'w1',
+                'pdf',
+                { paperOrientation: 'landscape' },
+                { signal: expect.any(AbortSignal) }
+            );
+            expect(result.content[0]).toEqual({
+                type: 'resource',
+                resource: {
+                    uri: 'sisense://dashboard/123/widget/w1/export.pdf',
+                    mimeType: 'application/pdf',
+                    blob: 'JVBERi0=',
+                },
+            });
+        });
+
+        it('should throw ValidationError for export_widget without a widget ID', async () => {
+            await expect(
+                server['callTool']('export_widget', { dashboardId: '123' })
+            ).rejects.toThrow(ValidationError);
+        });
+
+        it('should execute build status tools', async () => {
+            mockSisenseService.listBuilds.mockResolvedValue([]);
+            mockSisenseService.getBuildStatus.mockResolvedValue({
+                cubeId: 'c1',
+                building: false,
+                latestBuild: null,
+                lastSuccessfulBuild: null,
+            });
+
+            await server['callTool']('list_builds', { cubeId: 'c1' });
+            const result = await server['callTool']('get_build_status', { cubeId: 'c1' });
+
+            expect(mockSisenseService.listBuilds).toHaveBeenCalledWith('c1', {
+                signal: expect.any(AbortSignal),
+            });
+            expect(JSON.parse(result.content[0]?.text ?? '')).toMatchObject({ cubeId: 'c1' });
+        });
+
+        describe('trigger_build', () => {
+            const build = { oid: 'b1', cubeId: 'c1', status: 'waiting' };
+
+            beforeEach(() => {
+                server = writableServer();
+                mockSisenseService.triggerBuild.mockResolvedValue(build);
+            });
+
+            it('should return right away when not waiting', async () => {
+                const result = await server['callTool']('trigger_build', {
+                    cubeId: 'c1',
+                    buildType: 'schema_changes',
+                    wait: false,
+                });
+
+                expect(mockSisenseService.triggerBuild).toHaveBeenCalledWith(
+                    'c1',
+                    'schema_changes',
+                    { signal: expect.any(AbortSignal) }
+                );
+                expect(mockSisenseService.waitForBuild).not.toHaveBeenCalled();
+                expect(JSON.parse(result.content[0]?.text ?? '')).toEqual(build);
+            });
+
+            it('should wait for the build and report progress', async () => {
+                mockSisenseService.waitForBuild.mockImplementation(async (_id, onStatus) => {
+                    await onStatus?.({ ...build, status: 'building' });
+                    await onStatus?.({ ...build, status: 'done' });
+                    return { ...build, status: 'done' };
+                });
+                const onProgress = jest.fn().mockResolvedValue(undefined);
+
+                const result = await server['callTool'](
+                    'trigger_build',
+                    { cubeId: 'c1' },
+                    undefined,
+                    onProgress
+                );
+
+                expect(mockSisenseService.triggerBuild).toHaveBeenCalledWith('c1', 'full', {
+                    signal: expect.any(AbortSignal),
+                });
+                expect(onProgress.mock.calls.map(([update]) => update)).toEqual([
+                    { progress: 1, message: 'Build b1 of c1: building' },
+                    { progress: 2, message: 'Build b1 of c1: done' },
+                ]);
+                expect(JSON.parse(result.content[0]?.text ?? '')).toMatchObject({
+                    status: 'done',
+                });
+            });
+
+            it('should send progress notifications for the request progress token', async () => {
+                mockSisenseService.waitForBuild.mockImplementation(async (_id, onStatus) => {
+                    await onStatus?.({ ...build, status: 'done' });
+                    return { ...build, status: 'done' };
+                });
+                const sendNotification = jest.fn().mockResolvedValue(undefined);
+                const handler = (server.server as any).handlers.get('CallToolRequestSchema');
+
+                await handler(
+                    {
+                        params: {
+                            name: 'trigger_build',
+                            arguments: { cubeId: 'c1' },
+                            _meta: { progressToken: 'token-1' },
+                        },
+                    },
+                    { signal: new AbortController().signal, sendNotification }
+                );
+
+                expect(sendNotification).toHaveBeenCalledWith({
+                    method: 'notifications/progress',
+                    params: {
+                        progressToken: 'token-1',
+                        progress: 1,
+                        message: 'Build b1 of c1: done',
+                    },
+                });
+            });
+        });
+
+        describe('dashboard writes', () => {
+            const signal = { signal: expect.any(AbortSignal) };
+
+            beforeEach(() => {
+                server = writableServer();
+            });
+
+            it('should create a dashboard', async () => {
+                mockSisenseService.createDashboard.mockResolvedValue({ oid: 'd2', title: 'Sales' });
+                const filters = [{ jaql: { dim: '[Commerce.Country]', filter: { all: true } } }];
+
+                const result = await server['callTool']('create_dashboard', {
+                    title: 'Sales',
+                    datasource: 'Sample ECommerce',
+                    filters,
+                });
+
+                expect(mockSisenseService.createDashboard).toHaveBeenCalledWith(
+                    { title: 'Sales', datasource: 'Sample ECommerce', filters },
+                    signal
+                );
+                expect(JSON.parse(result.content[0]?.text ?? '')).toEqual({
+                    oid: 'd2',
+                    title: 'Sales',
+                });
+            });
+
+            it('should update only the given dashboard fields', async () => {
+                mockSisenseService.updateDashboard.mockResolvedValue({ oid: 'd1' });
+
+                await server['callTool']('update_dashboard', {
+                    dashboardId: 'd1',
+                    description: 'Monthly revenue',
+                });
+
+                expect(mockSisenseService.updateDashboard).toHaveBeenCalledWith(
+                    'd1',
+                    { description: 'Monthly revenue' },
+                    signal
+                );
+            });
+
+            it('should reject a dashboard update without changes', async () => {
+                await expect(
+                    server['callTool']('update_dashboard', { dashboardId: 'd1' })
+                ).rejects.toThrow(ValidationError);
+                expect(mockSisenseService.updateDashboard).not.toHaveBeenCalled();
+            });
+
+            it('should reject a layout without columns', async () => {
+                await expect(
+                    server['callTool']('update_dashboard', {
+                        dashboardId: 'd1',
+                        layout: { columns: [] },
+                    })
+                ).rejects.toThrow(ValidationError);
+            });
+
+            it('should duplicate a dashboard under a new title', async () => {
+                mockSisenseService.duplicateDashboard.mockResolvedValue({ oid: 'd3' });
+
+                await server['callTool']('duplicate_dashboard', {
+                    dashboardId: 'd1',
+                    title: 'Sales (draft)',
+                });
+
+                expect(mockSisenseService.duplicateDashboard).toHaveBeenCalledWith(
+                    'd1',
+                    { title: 'Sales (draft)' },
+                    signal
+                );
+            });
+
+            it('should add a widget with JAQL panels', async () => {
+                mockSisenseService.addWidget.mockResolvedValue({
+                    widget: { oid: 'w2' },
+                    layoutUpdated: true,
+                });
+                const panels = [
+                    { name: 'categories', items: [{ jaql: { dim: '[Commerce.Country]' } }] },
+                    {
+                        name: 'values',
+                        items: [{ jaql: { dim: '[Commerce.Revenue]', agg: 'sum' } }],
+                    },
+                ];
+
+                await server['callTool']('add_widget', {
+                    dashboardId: 'd1',
+                    type: 'chart/column',
+                    title: 'Revenue by country',
+                    panels,
+                });
+
+                expect(mockSisenseService.addWidget).toHaveBeenCalledWith(
+                    'd1',
+                    { type: 'chart/column', title: 'Revenue by country', panels },
+                    signal
+                );
+            });
+
+            it('should reject panel items without a dim or formula', async () => {
+                await expect(
+                    server['callTool']('add_widget', {
+                        dashboardId: 'd1',
+                        type: 'indicator',
+                        panels: [{ name: 'value', items: [{ jaql: { agg: 'sum' } }] }],
+                    })
+                ).rejects.toThrow(ValidationError);
+                expect(mockSisenseService.addWidget).not.toHaveBeenCalled();
+            });
+
+            it('should update a widget', async () => {
+                mockSisenseService.updateWidget.mockResolvedValue({ oid: 'w1' });
+
+                await server['callTool']('update_widget', {
+                    dashboardId: 'd1',
+                    widgetId: 'w1',
+                    title: 'Revenue',
+                });
+
+                expect(mockSisenseService.updateWidget).toHaveBeenCalledWith(
+                    'd1',
+                    'w1',
+                    { title: 'Revenue' },
+                    signal
+                );
+            });
+
+            it('should delete a widget and pass on layout warnings', async () => {
+                mockSisenseService.deleteWidget.mockResolvedValue({
+                    layoutUpdated: false,
+                    warning: 'The widget was deleted but is still in the dashboard layout',
+                });
+
+                const result = await server['callTool']('delete_widget', {
+                    dashboardId: 'd1',
+                    widgetId: 'w1',
+                });
+
+                expect(mockSisenseService.deleteWidget).toHaveBeenCalledWith('d1', 'w1', signal);
+                expect(JSON.parse(result.content[0]?.text ?? '')).toEqual({
+                    deleted: true,
+                    dashboardId: 'd1',
+                    widgetId: 'w1',
+                    layoutUpdated: false,
+                    warning: 'The widget was deleted but is still in the dashboard layout',
+                });
+            });
+        });
+
+        describe('dashboard definitions', () => {
+            const dash = {
+                oid: 'd1',
+                title: 'Sales Overview',
+                datasource: { title: 'Sample ECommerce' },
+                widgets: [{ oid: 'w1', type: 'indicator' }],
+            };
+            let exportDir: string;
+
+            beforeEach(async () => {
+                server = writableServer();
+                exportDir = env.MCP_EXPORT_DIR;
+                env.MCP_EXPORT_DIR = await mkdtemp(join(tmpdir(), 'sisense-dash-'));
+                mockSisenseService.getDashboardDefinition.mockResolvedValue(dash);
+            });
+
+            afterEach(async () => {
+                await rm(env.MCP_EXPORT_DIR, { recursive: true, force: true });
+                env.MCP_EXPORT_DIR = exportDir;
+            });
+
+            it('should save a dashboard definition to a .dash file', async () => {
+                const result = await server['callTool']('export_dashboard_definition', {
+                    dashboardId: 'd1',
+                });
+                const path = join(env.MCP_EXPORT_DIR, 'sales-overview-d1.dash');
+
+                expect(mockSisenseService.getDashboardDefinition).toHaveBeenCalledWith('d1', {
+                    signal: expect.any(AbortSignal),
+                });
+                expect(result.content[0]).toMatchObject({
+                    type: 'resource_link',
+                    uri: `file://${path}`,
+                    name: 'sales-overview-d1.dash',
+                    mimeType: 'application/json',
+                });
+                expect(JSON.parse(await readFile(path, 'utf8'))).toEqual(dash);
+            });
+
+            it('should only replace an existing file when asked to', async () => {
+                const args = { dashboardId: 'd1', fileName: 'sales' };
+                await server['callTool']('export_dashboard_definition', args);
+
+                await expect(
+                    server['callTool']('export_dashboard_definition', args)
+                ).rejects.toThrow(ValidationError);
+                await expect(
+                    server['callTool']('export_dashboard_definition', { ...args, overwrite: true })
+                ).resolves.toBeDefined();
+            });
+
+            it('should import a saved definition with remapped datasources', async () => {
+                const imported = {
+                    dashboardId: 'd9',
+                    title: 'Sales Overview',
+                    widgetCount: 1,
+                    onConflict: 'overwrite' as const,
+                    remapped: { 'Sample ECommerce': 'ECommerce Prod' },
+                };
+                mockSisenseService.importDashboard.mockResolvedValue(imported);
+                await server['callTool']('export_dashboard_definition', {
+                    dashboardId: 'd1',
+                    fileName: 'sales',
+                });
+
+                const result = await server['callTool']('import_dashboard_definition', {
+                    fileName: 'sales.dash',
+                    onConflict: 'overwrite',
+                    datasourceMap: { 'Sample ECommerce': 'ECommerce Prod' },
+                });
+
+                expect(mockSisenseService.importDashboard).toHaveBeenCalledWith(
+                    dash,
+                    {
+                        onConflict: 'overwrite',
+                        datasourceMap: { 'Sample ECommerce': 'ECommerce Prod' },
+                    },
+                    { signal: expect.any(AbortSignal) }
+                );
+                expect(JSON.parse(result.content[0]?.text ?? '')).toEqual(imported);
+            });
+
+            it('should throw NotFoundError for a missing .dash file', async () => {
+                await expect(
+                    server['callTool']('import_dashboard_definition', { fileName: 'missing' })
+                ).rejects.toThrow(NotFoundError);
+                expect(mockSisenseService.importDashboard).not.toHaveBeenCalled();
+            });
+        });
+
+        describe('diff_dashboards', () => {
+            const base = {
+                oid: 'd1',
+                title: 'Sales',
+                widgets: [{ oid: 'w1', title: 'Revenue', type: 'indicator' }],
+            };
+            const current = {
+                ...base,
+                widgets: [{ oid: 'w1', title: 'Net Revenue', type: 'indicator' }],
+            };
+
+            it('should compare two dashboards', async () => {
+                mockSisenseService.getDashboardDefinition.mockImplementation((id: string) =>
+                    Promise.resolve(id === 'd1' ? base : { ...current, oid: 'd2' })
+                );
+
+                const result = await server['callTool']('diff_dashboards', {
+                    dashboardId: 'd2',
+                    baseDashboardId: 'd1',
+                });
+                const diff = JSON.parse(result.content[0]?.text ?? '');
+
+                expect(diff.before).toEqual({
+                    source: 'dashboard d1',
+                    dashboardId: 'd1',
+                    title: 'Sales',
+                });
+                expect(diff.after.source).toBe('dashboard d2');
+                expect(diff.changes).toEqual([
+                    {
+                        area: 'widgets',
+                        target: 'Net Revenue (w1)',
+                        change: 'changed',
+                        detail: 'Title changed from "Revenue" to "Net Revenue"',
+                    },
+                ]);
+            });
+
+            it('should compare a dashboard against a .dash snapshot', async () => {
+                const exportDir = env.MCP_EXPORT_DIR;
+                env.MCP_EXPORT_DIR = await mkdtemp(join(tmpdir(), 'sisense-diff-'));
+                try {
+                    await writeFile(join(env.MCP_EXPORT_DIR, 'sales.dash'), JSON.stringify(base));
+                    mockSisenseService.getDashboardDefinition.mockResolvedValue(base);
+
+                    const result = await server['callTool']('diff_dashboards', {
+                        dashboardId: 'd1',
+                        baseFileName: 'sales',
+                    });
+                    const diff = JSON.parse(result.content[0]?.text ?? '');
+
+                    expect(mockSisenseService.getDashboardDefinition).toHaveBeenCalledTimes(1);
+                    expect(diff.before.source).toBe('file sales');
+                    expect(diff.identical).toBe(true);
+                } finally {
+                    await rm(env.MCP_EXPORT_DIR, { recursive: true, force: true });
+                    env.MCP_EXPORT_DIR = exportDir;
+                }
+            });
+
+            it('should require exactly one base to compare against', async () => {
+                await expect(
+                    server['callTool']('diff_dashboards', { dashboardId: 'd1' })
+                ).rejects.toThrow(ValidationError);
+                await expect(
+                    server['callTool']('diff_dashboards', {
+                        dashboardId: 'd1',
+                        baseDashboardId: 'd2',
+                        baseFileName: 'sales',
+                    })
+                ).rejects.toThrow(ValidationError);
+            });
+        });
+
+        it('should execute find_field_usage tool', async () => {
+            const usage = {
+                query: { table: 'Commerce', column: 'Revenue' },
+                indexedAt: '2026-10-19T08:00:00.000Z',
+                dashboardsScanned: 12,
+                dashboardCount: 0,
+                widgetCount: 0,
+                usages: [],
+                skipped: [],
+            };
+            mockSisenseService.findFieldUsage.mockResolvedValue(usage);
+
+            const result = await server['callTool']('find_field_usage', {
+                table: 'Commerce',
+                column: 'Revenue',
+                refresh: true,
+            });
+
+            expect(mockSisenseService.findFieldUsage).toHaveBeenCalledWith(
+                { datasource: undefined, table: 'Commerce', column: 'Revenue' },
+                { signal: expect.any(AbortSignal), refresh: true }
+            );
+            expect(JSON.parse(result.content[0]?.text ?? '')).toEqual(usage);
+        });
+
+        it('should require a field to look for in find_field_usage', async () => {
+            await expect(server['callTool']('find_field_usage', {})).rejects.toThrow(
+                ValidationError
+            );
+        });
+
+        it('should execute list_folders tool', async () => {
+            const mockTree = { folders: [], dashboards: [{ oid: 'd1', title: 'Revenue' }] };
+            mockSisenseService.getFolderTree.mockResolvedValue(mockTree);
+
+            const result = await server['callTool']('list_folders', { refresh: true });
+
+            expect(mockSisenseService.getFolderTree).toHaveBeenCalledWith({
+                signal: expect.any(AbortSignal),
+                refresh: true,
+            });
+            expect(result.content[0]?.text).toBe(JSON.stringify(mockTree, null, 2));
+        });
+
+        it('should execute get_folder_contents tool', async () => {
+            mockSisenseService.getFolderContents.mockResolvedValue({
+                oid: 'f1',
+                name: 'Sales',
+                parentId: null,
+                folders: [],
+                dashboards: [],
+            });
+
+            await server['callTool']('get_folder_contents', { folderId: 'f1' });
+
+            expect(mockSisenseService.getFolderContents).toHaveBeenCalledWith('f1', {
+                signal: expect.any(AbortSignal),
+                refresh: false,
+            });
+        });
+
+        it('should throw ValidationError for get_folder_contents without a folder ID', async () => {
+            await expect(server['callTool']('get_folder_contents', {})).rejects.toThrow(
+                ValidationError
+            );
+        });
+
         it('should throw ValidationError for unknown tool', async () => {
             await expect(server['callTool']('unknown_tool', {})).rejects.toThrow(ValidationError);
         });
@@ -129,11 +1185,20 @@ describe('SisenseMCPServer', () => {
                 { oid: '1', title: 'Dashboard 1' },
                 { oid: '2', title: 'Dashboard 2' },
             ];
-            mockSisenseService.getDashboards.mockResolvedValue(mockDashboards);
+            mockSisenseService.listDashboards.mockResolvedValue({
+                dashboards: mockDashboards,
+                skip: 0,
+                limit: 100,
+                count: 2,
+            });
 
-            const resources = await server['getAvailableResources']();
+            const { resources, nextCursor } = await server['getAvailableResources']();
 
-            expect(mockSisenseService.getDashboards).toHaveBeenCalled();
+            expect(mockSisenseService.listDashboards).toHaveBeenCalledWith(
+                { fields: ['oid', 'title', 'desc'], limit: 100 },
+                { signal: expect.any(AbortSignal) }
+            );
+            expect(nextCursor).toBeUndefined();
             expect(resources).toEqual([
                 {
                     uri: 'sisense://dashboard/1',
@@ -150,12 +1215,87 @@ describe('SisenseMCPServer', () => {
             ]);
         });
 
+        it('should list cube resources before dashboards on the first page', async () => {
+            mockSisenseService.getCubes.mockResolvedValue([
+                { oid: 'c1', title: 'Sample ECommerce' },
+            ]);
+            mockSisenseService.listDashboards.mockResolvedValue({
+                dashboards: [{ oid: '1', title: 'Dashboard 1' }],
+                skip: 0,
+                limit: 100,
+                count: 1,
+            });
+
+            const { resources } = await server['getAvailableResources']();
+
+            expect(resources.map(r => r.uri)).toEqual([
+                'sisense://cube/c1',
+                'sisense://dashboard/1',
+            ]);
+            expect(resources[0]?.name).toBe('Cube: Sample ECommerce');
+        });
+
+        it('should still list dashboards when cubes cannot be loaded', async () => {
+            mockSisenseService.getCubes.mockRejectedValue(new Error('cubes unavailable'));
+            mockSisenseService.listDashboards.mockResolvedValue({
+                dashboards: [{ oid: '1', title: 'Dashboard 1' }],
+                skip: 0,
+                limit: 100,
+                count: 1,
+            });
+
+            const { resources } = await server['getAvailableResources']();
+
+            expect(resources.map(r => r.uri)).toEqual(['sisense://dashboard/1']);
+        });
+
         it('should return empty resources when Sisense is not configured', async () => {
             mockSisenseService.isConfigured.mockReturnValue(false);
 
-            const resources = await server['getAvailableResources']();
+            const result = await server['getAvailableResources']();
 
-            expect(resources).toEqual([]);
+            expect(result).toEqual({ resources: [] });
+        });
+
+        it('should page resources with the service cursor', async () => {
+            const cursor = encodeCursor({
+                fields: ['oid', 'title', 'desc'],
+                skip: 100,
+                limit: 100,
+            });
+            mockSisenseService.listDashboards.mockResolvedValue({
+                dashboards: [{ oid: '101', title: 'Dashboard 101', desc: 'More' }],
+                skip: 100,
+                limit: 100,
+                count: 1,
+                nextCursor: 'next-page',
+            });
+
+            const result = await server['getAvailableResources'](cursor);
+
+            expect(mockSisenseService.getCubes).not.toHaveBeenCalled();
+            expect(mockSisenseService.listDashboards).toHaveBeenCalledWith(
+                { fields: ['oid', 'title', 'desc'], skip: 100, limit: 100 },
+                expect.anything()
+            );
+            expect(result).toEqual({
+                resources: [
+                    {
+                        uri: 'sisense://dashboard/101',
+                        name: 'Dashboard 101',
+                        description: 'More',
+                        mimeType: 'application/json',
+                    },
+                ],
+                nextCursor: 'next-page',
+            });
+        });
+
+        it('should reject an invalid resources cursor', async () => {
+            await expect(server['getAvailableResources']('not-a-cursor')).rejects.toThrow(
+                ValidationError
+            );
+            expect(mockSisenseService.listDashboards).not.toHaveBeenCalled();
         });
 
         it('should read dashboard resource successfully', async () => {
@@ -164,7 +1304,9 @@ describe('SisenseMCPServer', () => {
 
             const result = await server['readResource']('sisense://dashboard/123');
 
-            expect(mockSisenseService.getDashboard).toHaveBeenCalledWith('123');
+            expect(mockSisenseService.getDashboard).toHaveBeenCalledWith('123', {
+                signal: expect.any(AbortSignal),
+            });
             expect(result).toEqual({
                 contents: [
                     {
@@ -176,6 +1318,121 @@ describe('SisenseMCPServer', () => {
             });
         });
 
+        it('should read folder resource successfully', async () => {
+            const mockFolder = {
+                oid: 'f1',
+                name: 'Sales',
+                parentId: null,
+                folders: [],
+                dashboards: [{ oid: 'd1', title: 'Revenue', owner: 'u1' }],
+            };
+            mockSisenseService.getFolderContents.mockResolvedValue(mockFolder);
+
+            const result = await server['readResource']('sisense://folder/f1');
+
+            expect(mockSisenseService.getFolderContents).toHaveBeenCalledWith('f1', {
+                signal: expect.any(AbortSignal),
+            });
+            expect(result.contents[0]?.text).toBe(JSON.stringify(mockFolder, null, 2));
+        });
+
+        it('should read cube resource with a schema summary', async () => {
+            const mockMetadata = {
+                title: 'Sample ECommerce',
+                tables: [{ name: 'Commerce', columns: [{ name: 'Revenue', type: 'numeric' }] }],
+            };
+            mockSisenseService.getCubeMetadata.mockResolvedValue(mockMetadata);
+
+            const result = await server['readResource']('sisense://cube/c1');
+
+            expect(mockSisenseService.getCubeMetadata).toHaveBeenCalledWith('c1', {
+                signal: expect.any(AbortSignal),
+            });
+            expect(result.contents).toEqual([
+                {
+                    uri: 'sisense://cube/c1',
+                    mimeType: 'application/json',
+                    text: JSON.stringify(mockMetadata, null, 2),
+                },
+                {
+                    uri: 'sisense://cube/c1',
+                    mimeType: 'text/plain',
+                    text: 'Cube: Sample ECommerce (1 table)\n- Commerce: Revenue (numeric)',
+                },
+            ]);
+        });
+
+        it('should read widget resource successfully', async () => {
+            const mockWidget = { oid: 'w1', title: 'Revenue by month' };
+            mockSisenseService.getWidget.mockResolvedValue(mockWidget);
+
+            const result = await server['readResource']('sisense://dashboard/123/widget/w1');
+
+            expect(mockSisenseService.getWidget).toHaveBeenCalledWith('123', 'w1', {
+                signal: expect.any(AbortSignal),
+            });
+            expect(result.contents[0]?.text).toBe(JSON.stringify(mockWidget, null, 2));
+        });
+
+        it('should read dashboard and widget exports as blobs', async () => {
+            const rendered = {
+                format: 'pdf',
+                mimeType: 'application/pdf',
+                data: 'JVBERi0=',
+                bytes: 5,
+            };
+            mockSisenseService.exportDashboard.mockResolvedValue(rendered);
+            mockSisenseService.exportWidget.mockResolvedValue(rendered);
+
+            const dashboard = await server['readResource']('sisense://dashboard/123/export.pdf');
+            const widget = await server['readResource'](
+                'sisense://dashboard/123/widget/w1/export.pdf'
+            );
+
+            expect(mockSisenseService.exportDashboard).toHaveBeenCalledWith(
+                '123',
+                'pdf',
+                {},
+                { signal: expect.any(AbortSignal) }
+            );
+            expect(mockSisenseService.exportWidget).toHaveBeenCalledWith(
+                '123',
+                'w1',
+                'pdf',
+                {},
+                { signal: expect.any(AbortSignal) }
+            );
+            expect(dashboard.contents).toEqual([
+                {
+                    uri: 'sisense://dashboard/123/export.pdf',
+                    mimeType: 'application/pdf',
+                    blob: 'JVBERi0=',
+                },
+            ]);
+            expect(widget.contents[0]).toMatchObject({ blob: 'JVBERi0=' });
+        });
+
+        it('should throw ValidationError for an unsupported export format', async () => {
+            await expect(
+                server['readResource']('sisense://dashboard/123/export.gif')
+            ).rejects.toThrow(ValidationError);
+            expect(mockSisenseService.exportDashboard).not.toHaveBeenCalled();
+        });
+
+        it('should list resource templates', () => {
+            const templates = server['getResourceTemplates']();
+
+            expect(templates.map(t => t.uriTemplate)).toEqual([
+                'sisense://dashboard/{dashboardId}',
+                'sisense://dashboard/{dashboardId}/widget/{widgetId}',
+                'sisense://folder/{folderId}',
+                'sisense://cube/{cubeId}',
+                'sisense://dashboard/{dashboardId}/export.{format}',
+                'sisense://dashboard/{dashboardId}/widget/{widgetId}/export.{format}',
+            ]);
+            expect(templates.slice(0, 4).every(t => t.mimeType === 'application/json')).toBe(true);
+        });
+
         it('should throw ValidationError for unsupported resource URI', async () => {
             await expect(server['readResource']('unsupported://resource')).rejects.toThrow(
                 ValidationError
@@ -189,20 +1446,184 @@ describe('SisenseMCPServer', () => {
         });
     });
 
+    describe('transport', () => {
+        it('should default to the stdio transport', () => {
+            expect(server.transportMode).toBe('stdio');
+        });
+
+        it('should share one SisenseService across HTTP sessions', () => {
+            const httpServer = new SisenseMCPServer({
+                transport: 'http',
+                host: '127.0.0.1',
+                port: 0,
+            });
+            MockedSisenseService.mockClear();
+
+            const first = httpServer['createServer']();
+            const second = httpServer['createServer']();
+
+            expect(first).not.toBe(second);
+            expect(MockedSisenseService).not.toHaveBeenCalled();
+            expect(httpServer.transportMode).toBe('http');
+        });
+
+        it('should start and stop the HTTP host in HTTP mode', async () => {
+            const httpServer = new SisenseMCPServer({
+                transport: 'http',
+                host: '127.0.0.1',
+                port: 0,
+            });
+
+            await httpServer.start();
+            expect(httpServer['httpHost']?.address).not.toBeNull();
+
+            await httpServer.stop();
+            expect(httpServer['httpHost']).toBeNull();
+        });
+    });
+
+    describe('tool policy', () => {
+        it('should warn at startup that MCP_ENABLE_WRITES is ignored', async () => {
+            const warn = jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+            env.MCP_ENABLE_WRITES = 'true';
+
+            try {
+                await server.start();
+
+                expect(warn).toHaveBeenCalledWith(
+                    expect.stringContaining('MCP_ENABLE_WRITES is no longer supported'),
+                    { readOnly: true }
+                );
+            } finally {
+                delete env.MCP_ENABLE_WRITES;
+                warn.mockRestore();
+                await server.stop();
+            }
+        });
+
+        const createServer = (toolPolicy: { readOnly: boolean; allow: string[]; deny: string[] }) =>
+            new SisenseMCPServer({ toolPolicy });
+        const toolNames = (policyServer: SisenseMCPServer) =>
+            policyServer['getAvailableTools']().map(tool => tool.name);
+
+        it('should mark every tool as read-only or mutating', () => {
+            const tools = server['getToolDefinitions']();
+            const mutating = tools.filter(tool => !tool.annotations.readOnlyHint);
+
+            expect(tools.every(tool => typeof tool.annotations.readOnlyHint === 'boolean')).toBe(
+                true
+            );
+            expect(mutating.map(tool => tool.name)).toEqual([
+                'create_dashboard',
+                'update_dashboard',
+                'duplicate_dashboard',
+                'add_widget',
+                'update_widget',
+                'delete_widget',
+                'export_dashboard_definition',
+                'import_dashboard_definition',
+                'export_query',
+                'trigger_build',
+            ]);
+            expect(
+                mutating.filter(tool => tool.annotations.destructiveHint).map(tool => tool.name)
+            ).toEqual([
+                'update_dashboard',
+                'update_widget',
+                'delete_widget',
+                'export_dashboard_definition',
+                'import_dashboard_definition',
+            ]);
+        });
+
+        it('should hide mutating tools in read-only mode', () => {
+            expect(toolNames(createServer({ readOnly: true, allow: [], deny: [] }))).not.toContain(
+                'trigger_build'
+            );
+            expect(toolNames(writableServer())).toContain('trigger_build');
+        });
+
+        it('should refuse every mutating tool in read-only mode', async () => {
+            const mutating = server['getToolDefinitions']().filter(
+                tool => !tool.annotations.readOnlyHint
+            );
+
+            for (const tool of mutating) {
+                await expect(server['callTool'](tool.name, {})).rejects.toThrow(
+                    ToolNotAllowedError
+                );
+            }
+            for (const method of Object.values(mockSisenseService)) {
+                expect(method).not.toHaveBeenCalled();
+            }
+        });
+
+        it('should apply allow and deny globs', () => {
+            const policyServer = createServer({
+                readOnly: false,
+                allow: ['list_*', 'get_dashboard'],
+                deny: ['list_d*'],
+            });
+
+            expect(toolNames(policyServer)).toEqual([
+                'get_dashboard',
+                'list_folders',
+                'list_cubes',
+                'list_tables',
+                'list_columns',
+                'list_builds',
+            ]);
+        });
+
+        it('should reject calls to disallowed tools', async () => {
+            const policyServer = createServer({ readOnly: true, allow: [], deny: ['list_cubes'] });
+
+            await expect(policyServer['callTool']('list_cubes', {})).rejects.toThrow(
+                ToolNotAllowedError
+            );
+            expect(mockSisenseService.getCubes).not.toHaveBeenCalled();
+        });
+    });
+
     describe('tool definitions', () => {
         it('should return correct tool definitions', () => {
-            const tools = server['getAvailableTools']();
+            const tools = server['getToolDefinitions']();
 
-            expect(tools).toHaveLength(8);
+            expect(tools).toHaveLength(33);
             expect(tools.map(t => t.name)).toEqual([
                 'get_server_info',
                 'list_data_sources',
                 'list_dashboards',
                 'get_dashboard',
                 'get_dashboard_widgets',
+                'get_widget_data',
+                'export_dashboard',
+                'export_widget',
+                'create_dashboard',
+                'update_dashboard',
+                'duplicate_dashboard',
+                'add_widget',
+                'update_widget',
+                'delete_widget',
+                'export_dashboard_definition',
+                'import_dashboard_definition',
+                'diff_dashboards',
+                'find_field_usage',
+                'list_folders',
+                'get_folder_contents',
                 'execute_query',
+                'jaql_query',
+                'build_query',
+                'export_query',
+                'profile_field',
                 'list_cubes',
                 'get_cube_metadata',
+                'list_tables',
+                'list_columns',
+                'get_relations',
+                'list_builds',
+                'get_build_status',
+                'trigger_build',
             ]);
 
             // Check that get_dashboard tool has required parameters
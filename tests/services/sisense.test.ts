@@ -6,11 +6,25 @@ import {
     NotFoundError,
     ExternalServiceError,
     NetworkError,
+    CircuitOpenError,
+    TimeoutError,
+    RequestCancelledError,
 } from '../../src/types/index.js';
+import { decodeCursor } from '../../src/utils/pagination';
+import { dashboardListQuerySchema } from '../../src/utils/validation';
 
 // Mock fetch globally
 global.fetch = jest.fn();
 
+// A fetch response with a JSON body
+const respond = (body: unknown, status = 200) =>
+    ({
+        ok: status < 400,
+        status,
+        statusText: status < 400 ? 'OK' : 'Error',
+        text: async () => JSON.stringify(body),
+    }) as Response;
+
 describe('SisenseService', () => {
     let service: SisenseService;
     const mockFetch = fetch as jest.MockedFunction<typeof fetch>;
@@ -45,6 +59,126 @@ describe('SisenseService', () => {
             const unconfiguredService = new SisenseService({ url: '', apiKey: '' });
             expect(unconfiguredService.isConfigured()).toBe(false);
         });
+
+        it('should return false when only a username is configured', () => {
+            const partialService = new SisenseService({
+                url: 'https://test-sisense.com',
+                apiKey: '',
+                username: 'analyst',
+            });
+            expect(partialService.isConfigured()).toBe(false);
+        });
+    });
+
+    describe('username/password authentication', () => {
+        let credentialService: SisenseService;
+
+        const loginResponse = (token: string) => respond({ success: true, access_token: token });
+
+        const unauthorizedResponse = () =>
+            ({
+                ok: false,
+                status: 401,
+                statusText: 'Unauthorized',
+                text: async () => 'Unauthorized',
+            }) as Response;
+
+        beforeEach(() => {
+            credentialService = new SisenseService({
+                url: 'https://test-sisense.com',
+                apiKey: '',
+                username: 'analyst',
+                password: 'secret',
+            });
+        });
+
+        it('should be configured with username and password only', () => {
+            expect(credentialService.isConfigured()).toBe(true);
+        });
+
+        it('should log in before the first request and reuse the token', async () => {
+            mockFetch
+                .mockResolvedValueOnce(loginResponse('session-token'))
+                .mockResolvedValueOnce(respond({ version: '1.0.0' }))
+                .mockResolvedValueOnce(respond([]));
+
+            await credentialService.getServerInfo();
+            await credentialService.getDashboards();
+
+            expect(mockFetch).toHaveBeenCalledTimes(3);
+            expect(mockFetch).toHaveBeenNthCalledWith(
+                1,
+                'https://test-sisense.com/api/v1/authentication/login',
+                expect.objectContaining({
+                    method: 'POST',
+                    body: 'username=analyst&password=secret',
+                })
+            );
+            expect(mockFetch).toHaveBeenNthCalledWith(
+                3,
+                'https://test-sisense.com/api/v1/dashboards',
+                expect.objectContaining({
+                    headers: expect.objectContaining({ Authorization: 'Bearer session-token' }),
+                })
+            );
+        });
+
+        it('should share one login between concurrent requests', async () => {
+            mockFetch.mockImplementation(async input =>
+                String(input).endsWith('/login') ? loginResponse('session-token') : respond([])
+            );
+
+            await Promise.all([credentialService.getDashboards(), credentialService.getCubes()]);
+
+            const loginCalls = mockFetch.mock.calls.filter(([input]) =>
+                String(input).endsWith('/login')
+            );
+            expect(loginCalls).toHaveLength(1);
+            mockFetch.mockReset();
+        });
+
+        it('should re-authenticate once when the token is rejected', async () => {
+            mockFetch
+                .mockResolvedValueOnce(loginResponse('expired-token'))
+                .mockResolvedValueOnce(unauthorizedResponse())
+                .mockResolvedValueOnce(loginResponse('fresh-token'))
+                .mockResolvedValueOnce(respond({ version: '1.0.0' }));
+
+            const result = await credentialService.getServerInfo();
+
+            expect(result).toEqual({ version: '1.0.0' });
+            expect(mockFetch).toHaveBeenLastCalledWith(
+                'https://test-sisense.com/api/v1/server/info',
+                expect.objectContaining({
+                    headers: expect.objectContaining({ Authorization: 'Bearer fresh-token' }),
+                })
+            );
+        });
+
+        it('should throw AuthenticationError when the retried request is rejected again', async () => {
+            mockFetch
+                .mockResolvedValueOnce(loginResponse('token-1'))
+                .mockResolvedValueOnce(unauthorizedResponse())
+                .mockResolvedValueOnce(loginResponse('token-2'))
+                .mockResolvedValueOnce(unauthorizedResponse());
+
+            await expect(credentialService.getServerInfo()).rejects.toThrow(AuthenticationError);
+            expect(mockFetch).toHaveBeenCalledTimes(4);
+        });
+
+        it('should throw AuthenticationError when login fails', async () => {
+            mockFetch.mockResolvedValueOnce(unauthorizedResponse());
+
+            await expect(credentialService.getServerInfo()).rejects.toThrow(AuthenticationError);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not re-authenticate when only an API key is configured', async () => {
+            mockFetch.mockResolvedValueOnce(unauthorizedResponse());
+
+            await expect(service.getServerInfo()).rejects.toThrow(AuthenticationError);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
     });
 
     describe('getServerInfo', () => {
@@ -117,6 +251,119 @@ describe('SisenseService', () => {
         });
     });
 
+    describe('listDashboards', () => {
+        const respondWith = (rows: unknown[]) => mockFetch.mockResolvedValueOnce(respond(rows));
+
+        it('should request one page with the default projection', async () => {
+            respondWith([{ oid: '1', title: 'Dashboard 1' }]);
+
+            const page = await service.listDashboards();
+
+            const url = new URL(mockFetch.mock.calls[0]![0] as string);
+            expect(url.pathname).toBe('/api/v1/dashboards');
+            expect(url.searchParams.get('fields')).toBe(
+                'oid,title,desc,owner,parentFolder,lastUpdated'
+            );
+            expect(url.searchParams.get('skip')).toBe('0');
+            expect(url.searchParams.get('limit')).toBe('51');
+            expect(page).toEqual({
+                dashboards: [{ oid: '1', title: 'Dashboard 1' }],
+                skip: 0,
+                limit: 50,
+                count: 1,
+            });
+        });
+
+        it('should map filters and sort to query parameters', async () => {
+            respondWith([]);
+
+            await service.listDashboards({
+                search: 'sales',
+                ownerId: 'u1',
+                folderId: 'f1',
+                sort: '-lastUpdated',
+                fields: ['title'],
+            });
+
+            const url = new URL(mockFetch.mock.calls[0]![0] as string);
+            expect(url.searchParams.get('name')).toBe('sales');
+            expect(url.searchParams.get('owner')).toBe('u1');
+            expect(url.searchParams.get('parentFolder')).toBe('f1');
+            expect(url.searchParams.get('sort')).toBe('-lastUpdated');
+            expect(url.searchParams.get('fields')).toBe('oid,title');
+        });
+
+        it('should return a cursor for the next page when more rows exist', async () => {
+            respondWith([{ oid: '1' }, { oid: '2' }, { oid: '3' }]);
+
+            const page = await service.listDashboards({ search: 'sales', limit: 2 });
+
+            expect(page.dashboards).toEqual([{ oid: '1' }, { oid: '2' }]);
+            expect(page.nextCursor).toBeDefined();
+
+            respondWith([{ oid: '3' }]);
+            const next = await service.listDashboards(
+                decodeCursor(page.nextCursor!, dashboardListQuerySchema)
+            );
+
+            const url = new URL(mockFetch.mock.calls[1]![0] as string);
+            expect(url.searchParams.get('skip')).toBe('2');
+            expect(url.searchParams.get('name')).toBe('sales');
+            expect(next).toEqual({ dashboards: [{ oid: '3' }], skip: 2, limit: 2, count: 1 });
+        });
+
+        it('should reject a page size above the maximum', async () => {
+            await expect(service.listDashboards({ limit: 501 })).rejects.toThrow(ValidationError);
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('folders', () => {
+        const folders = [
+            { oid: 'f1', name: 'Sales', owner: 'u1', parentId: null },
+            { oid: 'f2', name: 'EMEA', owner: 'u2', parentId: 'f1' },
+            { oid: 'f3', name: 'APAC', owner: 'u2', parentId: 'f1' },
+            { oid: 'f4', name: 'Shared', owner: 'u3', parentId: 'hidden' },
+        ];
+        const dashboards = [
+            { oid: 'd1', title: 'Revenue', owner: 'u1', parentFolder: 'f1' },
+            { oid: 'd2', title: 'Germany', owner: 'u2', parentFolder: 'f2' },
+            { oid: 'd3', title: 'Scratch', owner: 'u1' },
+        ];
+
+        beforeEach(() => {
+            mockFetch.mockImplementation(async input => {
+                const body = String(input).includes('/api/v1/folders') ? folders : dashboards;
+                return respond(body);
+            });
+        });
+
+        it('should nest folders and dashboards into a tree', async () => {
+            const tree = await service.getFolderTree();
+
+            expect(tree.dashboards).toEqual([{ oid: 'd3', title: 'Scratch', owner: 'u1' }]);
+            expect(tree.folders.map(f => f.name)).toEqual(['Sales', 'Shared']);
+
+            const sales = tree.folders[0]!;
+            expect(sales.dashboards).toEqual([{ oid: 'd1', title: 'Revenue', owner: 'u1' }]);
+            expect(sales.folders.map(f => f.name)).toEqual(['APAC', 'EMEA']);
+            expect(sales.folders[1]!.dashboards).toEqual([
+                { oid: 'd2', title: 'Germany', owner: 'u2' },
+            ]);
+        });
+
+        it('should return the contents of a nested folder', async () => {
+            const folder = await service.getFolderContents('f2');
+
+            expect(folder).toMatchObject({ oid: 'f2', name: 'EMEA', parentId: 'f1' });
+            expect(folder.dashboards.map(d => d.oid)).toEqual(['d2']);
+        });
+
+        it('should throw NotFoundError for an unknown folder', async () => {
+            await expect(service.getFolderContents('missing')).rejects.toThrow(NotFoundError);
+        });
+    });
+
     describe('getDashboard', () => {
         it('should fetch specific dashboard successfully', async () => {
             const mockDashboard = { oid: '123', title: 'Test Dashboard' };
@@ -173,6 +420,127 @@ describe('SisenseService', () => {
         });
     });
 
+    describe('executeJaql', () => {
+        const jaql = {
+            metadata: [
+                { jaql: { dim: '[Commerce.Country]', title: 'Country' } },
+                { jaql: { dim: '[Commerce.Revenue]', agg: 'sum', title: 'Revenue' } },
+            ],
+            count: 10,
+        };
+
+        it('should post the JAQL document to the datasource endpoint', async () => {
+            mockFetch.mockResolvedValueOnce(
+                respond({
+                    headers: ['Country', 'Revenue'],
+                    values: [
+                        [
+                            { data: 'France', text: 'France' },
+                            { data: 1200.5, text: '1,200.5' },
+                        ],
+                        [
+                            { data: 'Spain', text: 'Spain' },
+                            { data: 800, text: '800' },
+                        ],
+                    ],
+                })
+            );
+
+            const result = await service.executeJaql('Sample ECommerce', jaql);
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                'https://test-sisense.com/api/datasources/Sample%20ECommerce/jaql',
+                expect.objectContaining({
+                    method: 'POST',
+                    body: JSON.stringify({
+                        ...jaql,
+                        datasource: 'Sample ECommerce',
+                        format: 'json',
+                    }),
+                })
+            );
+            expect(result).toEqual({
+                datasource: 'Sample ECommerce',
+                headers: ['Country', 'Revenue'],
+                rows: [
+                    ['France', 1200.5],
+                    ['Spain', 800],
+                ],
+                rowCount: 2,
+            });
+        });
+
+        it('should fall back to metadata titles when the response has no headers', async () => {
+            mockFetch.mockResolvedValueOnce(respond({ values: [{ data: 'France' }] }));
+
+            const result = await service.executeJaql('Sample ECommerce', {
+                metadata: [{ jaql: { dim: '[Commerce.Country]', title: 'Country' } }],
+            });
+
+            expect(result.headers).toEqual(['Country']);
+            expect(result.rows).toEqual([['France']]);
+        });
+
+        it('should throw ValidationError for invalid JAQL', async () => {
+            await expect(service.executeJaql('Sample ECommerce', { metadata: [] })).rejects.toThrow(
+                ValidationError
+            );
+            await expect(
+                service.executeJaql('Sample ECommerce', { metadata: [{ jaql: { agg: 'sum' } }] })
+            ).rejects.toThrow(ValidationError);
+            await expect(service.executeJaql('', jaql)).rejects.toThrow(ValidationError);
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('streamJaql', () => {
+        const respondWithRows = () =>
+            mockFetch.mockImplementation(async (_input, init) => {
+                const { count, offset } = JSON.parse(String(init?.body)) as {
+                    count: number;
+                    offset: number;
+                };
+                // 25 rows in total
+                const rows = Array.from({ length: Math.max(0, Math.min(count, 25 - offset)) });
+                return respond({
+                    headers: ['Row'],
+                    values: rows.map((_, index) => [{ data: offset + index }]),
+                });
+            });
+        const metadata = [{ jaql: { dim: '[Commerce.Order ID]', title: 'Row', sort: 'asc' } }];
+
+        it('should page through the result until a short page', async () => {
+            respondWithRows();
+            const pages = [];
+
+            for await (const page of service.streamJaql('Sample ECommerce', { metadata }, 10)) {
+                pages.push(page.rows.map(row => row[0]));
+            }
+
+            expect(pages.map(page => page.length)).toEqual([10, 10, 5]);
+            expect(pages[1]?.[0]).toBe(10);
+            expect(mockFetch).toHaveBeenCalledTimes(3);
+        });
+
+        it('should start at the query offset and stop at its count', async () => {
+            respondWithRows();
+            const rows: unknown[] = [];
+
+            for await (const page of service.streamJaql(
+                'Sample ECommerce',
+                { metadata, offset: 5, count: 12 },
+                10
+            )) {
+                rows.push(...page.rows.map(row => row[0]));
+            }
+
+            expect(rows).toHaveLength(12);
+            expect(rows[0]).toBe(5);
+            expect(rows[11]).toBe(16);
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+    });
+
     describe('getDashboard', () => {
         it('should throw ValidationError for invalid dashboard ID', async () => {
             await expect(service.getDashboard('')).rejects.toThrow(ValidationError);
@@ -185,6 +553,811 @@ describe('SisenseService', () => {
         });
     });
 
+    describe('getWidget', () => {
+        it('should fetch a single widget of a dashboard', async () => {
+            const mockWidget = { oid: 'w1', title: 'Revenue' };
+            mockFetch.mockResolvedValueOnce(respond(mockWidget));
+
+            const result = await service.getWidget('d1', 'w1');
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                'https://test-sisense.com/api/v1/dashboards/d1/widgets/w1',
+                expect.anything()
+            );
+            expect(result).toEqual(mockWidget);
+        });
+
+        it('should throw ValidationError for an empty widget ID', async () => {
+            await expect(service.getWidget('d1', '')).rejects.toThrow(ValidationError);
+        });
+    });
+
+    describe('dashboard writes', () => {
+        const requestAt = (index: number) => {
+            const [url, init] = mockFetch.mock.calls[index] ?? [];
+            return {
+                url,
+                method: init?.method,
+                body: init?.body ? JSON.parse(init.body as string) : undefined,
+            };
+        };
+        const datasource = {
+            title: 'Sample ECommerce',
+            fullname: 'localhost/Sample ECommerce',
+            id: 'c1',
+        };
+
+        it('should create a dashboard on the resolved datasource and drop cached listings', async () => {
+            mockFetch
+                .mockResolvedValueOnce(respond([{ oid: 'd1' }]))
+                .mockResolvedValueOnce(respond([{ oid: 'c1', title: 'Sample ECommerce' }]))
+                .mockResolvedValueOnce(respond({ oid: 'd2', title: 'Sales' }))
+                .mockResolvedValueOnce(respond([{ oid: 'd1' }, { oid: 'd2' }]));
+
+            await service.getDashboards();
+            const dashboard = await service.createDashboard({
+                title: 'Sales',
+                description: 'Draft',
+                datasource: 'Sample ECommerce',
+                folderId: 'f1',
+            });
+            const dashboards = await service.getDashboards();
+
+            expect(dashboard).toEqual({ oid: 'd2', title: 'Sales' });
+            expect(requestAt(2)).toEqual({
+                url: 'https://test-sisense.com/api/v1/dashboards',
+                method: 'POST',
+                body: { title: 'Sales', desc: 'Draft', datasource, parentFolder: 'f1' },
+            });
+            expect(dashboards).toHaveLength(2);
+        });
+
+        it('should throw NotFoundError for an unknown datasource', async () => {
+            mockFetch.mockResolvedValueOnce(respond([{ oid: 'c1', title: 'Sample ECommerce' }]));
+
+            await expect(
+                service.createDashboard({ title: 'Sales', datasource: 'Missing' })
+            ).rejects.toThrow(NotFoundError);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('should patch only the changed dashboard fields', async () => {
+            mockFetch.mockResolvedValueOnce(respond({ oid: 'd1', title: 'Revenue' }));
+
+            await service.updateDashboard('d1', { title: 'Revenue' });
+
+            expect(requestAt(0)).toEqual({
+                url: 'https://test-sisense.com/api/v1/dashboards/d1',
+                method: 'PATCH',
+                body: { title: 'Revenue' },
+            });
+        });
+
+        it('should throw ValidationError for an update without changes', async () => {
+            await expect(service.updateDashboard('d1', {})).rejects.toThrow(ValidationError);
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+
+        it('should rename a duplicated dashboard', async () => {
+            mockFetch
+                .mockResolvedValueOnce(respond({ oid: 'd3', title: 'Sales' }))
+                .mockResolvedValueOnce(respond({ oid: 'd3', title: 'Sales (copy)' }));
+
+            const copy = await service.duplicateDashboard('d1', { title: 'Sales (copy)' });
+
+            expect(requestAt(0)).toMatchObject({
+                url: 'https://test-sisense.com/api/v1/dashboards/d1/duplicate',
+                method: 'POST',
+            });
+            expect(requestAt(1)).toEqual({
+                url: 'https://test-sisense.com/api/v1/dashboards/d3',
+                method: 'PATCH',
+                body: { title: 'Sales (copy)' },
+            });
+            expect(copy['title']).toBe('Sales (copy)');
+        });
+
+        it("should add a widget on the dashboard's datasource and place it in the layout", async () => {
+            const layout = {
+                type: 'columnar',
+                columns: [
+                    {
+                        width: 100,
+                        cells: [{ subcells: [{ width: 100, elements: [{ widgetid: 'w1' }] }] }],
+                    },
+                ],
+            };
+            mockFetch
+                .mockResolvedValueOnce(respond({ oid: 'd1', datasource, layout }))
+                .mockResolvedValueOnce(respond({ oid: 'w2', type: 'indicator' }))
+                .mockResolvedValueOnce(respond({ oid: 'd1', datasource, layout }))
+                .mockResolvedValueOnce(respond({ oid: 'd1' }));
+
+            const widget = await service.addWidget('d1', {
+                type: 'indicator',
+                title: 'Revenue',
+                panels: [{ name: 'value', items: [{ jaql: { dim: '[Commerce.Revenue]' } }] }],
+            });
+
+            expect(widget).toEqual({
+                widget: { oid: 'w2', type: 'indicator' },
+                layoutUpdated: true,
+            });
+            expect(requestAt(1)).toEqual({
+                url: 'https://test-sisense.com/api/v1/dashboards/d1/widgets',
+                method: 'POST',
+                body: {
+                    type: 'indicator',
+                    title: 'Revenue',
+                    datasource,
+                    metadata: {
+                        panels: [
+                            { name: 'value', items: [{ jaql: { dim: '[Commerce.Revenue]' } }] },
+                        ],
+                    },
+                },
+            });
+            const patch = requestAt(3);
+            expect(patch.method).toBe('PATCH');
+            expect(patch.body.layout.columns[0].cells).toHaveLength(2);
+            expect(patch.body.layout.columns[0].cells[1].subcells[0].elements[0].widgetid).toBe(
+                'w2'
+            );
+        });
+
+        it('should delete a widget and take it out of the layout', async () => {
+            const layout = {
+                columns: [
+                    {
+                        width: 100,
+                        cells: [
+                            { subcells: [{ width: 100, elements: [{ widgetid: 'w1' }] }] },
+                            { subcells: [{ width: 100, elements: [{ widgetid: 'w2' }] }] },
+                        ],
+                    },
+                ],
+            };
+            mockFetch
+                .mockResolvedValueOnce({ ok: true, status: 204, text: async () => '' } as Response)
+                .mockResolvedValueOnce(respond({ oid: 'd1', layout }))
+                .mockResolvedValueOnce(respond({ oid: 'd1' }));
+
+            await expect(service.deleteWidget('d1', 'w1')).resolves.toEqual({
+                layoutUpdated: true,
+            });
+
+            expect(requestAt(0)).toMatchObject({
+                url: 'https://test-sisense.com/api/v1/dashboards/d1/widgets/w1',
+                method: 'DELETE',
+            });
+            expect(requestAt(2).body.layout.columns[0].cells).toEqual([
+                { subcells: [{ width: 100, elements: [{ widgetid: 'w2' }] }] },
+            ]);
+        });
+
+        it('should return the added widget when the layout update fails', async () => {
+            mockFetch
+                .mockResolvedValueOnce(respond({ oid: 'd1', datasource }))
+                .mockResolvedValueOnce(respond({ oid: 'w2', type: 'indicator' }))
+                .mockResolvedValueOnce(respond({ oid: 'd1', datasource, layout: { columns: [] } }))
+                .mockResolvedValueOnce({
+                    ok: false,
+                    status: 503,
+                    statusText: 'Service Unavailable',
+                    text: async () => '',
+                } as Response);
+
+            const result = await service.addWidget('d1', { type: 'indicator' });
+
+            expect(result).toEqual({
+                widget: { oid: 'w2', type: 'indicator' },
+                layoutUpdated: false,
+                warning: expect.stringContaining('do not add it again'),
+            });
+            expect(requestAt(3).method).toBe('PATCH');
+            expect(mockFetch).toHaveBeenCalledTimes(4);
+        });
+
+        it('should report a deleted widget left in the layout', async () => {
+            mockFetch
+                .mockResolvedValueOnce({ ok: true, status: 204, text: async () => '' } as Response)
+                .mockResolvedValueOnce({
+                    ok: false,
+                    status: 404,
+                    statusText: 'Not Found',
+                    text: async () => '',
+                } as Response);
+
+            const result = await service.deleteWidget('d1', 'w1');
+
+            expect(result).toEqual({
+                layoutUpdated: false,
+                warning: expect.stringContaining('still in the dashboard layout'),
+            });
+        });
+
+        it('should not retry a failed widget creation', async () => {
+            mockFetch
+                .mockResolvedValueOnce(respond([{ oid: 'c1', title: 'Sample ECommerce' }]))
+                .mockResolvedValue({
+                    ok: false,
+                    status: 503,
+                    statusText: 'Service Unavailable',
+                    text: async () => '',
+                } as Response);
+
+            await expect(
+                service.addWidget('d1', { type: 'indicator', datasource: 'c1' })
+            ).rejects.toThrow(ExternalServiceError);
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('dashboard definitions', () => {
+        const dash = {
+            oid: 'd1',
+            title: 'Sales',
+            datasource: { title: 'Sample ECommerce', fullname: 'localhost/Sample ECommerce' },
+            widgets: [
+                {
+                    oid: 'w1',
+                    datasource: { title: 'Sample ECommerce' },
+                    metadata: {
+                        panels: [
+                            {
+                                name: 'value',
+                                items: [
+                                    {
+                                        jaql: {
+                                            dim: '[Commerce.Revenue]',
+                                            datasource: { title: 'Sample ECommerce' },
+                                        },
+                                    },
+                                ],
+                            },
+                        ],
+                    },
+                },
+            ],
+        };
+
+        it('should combine a dashboard with its widgets', async () => {
+            const { widgets, ...dashboard } = dash;
+            mockFetch.mockImplementation(async url =>
+                respond(String(url).endsWith('/widgets') ? widgets : dashboard)
+            );
+
+            await expect(service.getDashboardDefinition('d1')).resolves.toEqual(dash);
+        });
+
+        it('should import with remapped datasources and the conflict action', async () => {
+            mockFetch
+                .mockResolvedValueOnce(respond([{ oid: 'c2', title: 'ECommerce Prod' }]))
+                .mockResolvedValueOnce(respond({ succeded: [{ oid: 'd1' }], failed: [] }));
+
+            const result = await service.importDashboard(dash, {
+                onConflict: 'overwrite',
+                datasourceMap: { 'Sample ECommerce': 'c2' },
+            });
+
+            const [url, init] = mockFetch.mock.calls[1] ?? [];
+            expect(url).toBe(
+                'https://test-sisense.com/api/v1/dashboards/import/bulk?action=overwrite'
+            );
+            const target = {
+                title: 'ECommerce Prod',
+                fullname: 'localhost/ECommerce Prod',
+                id: 'c2',
+            };
+            const [sent] = JSON.parse(init?.body as string);
+            expect(sent.datasource).toEqual(target);
+            expect(sent.widgets[0].datasource).toEqual(target);
+            expect(sent.widgets[0].metadata.panels[0].items[0].jaql.datasource).toEqual(target);
+            expect(result).toEqual({
+                dashboardId: 'd1',
+                title: 'Sales',
+                widgetCount: 1,
+                onConflict: 'overwrite',
+                remapped: { 'Sample ECommerce': 'ECommerce Prod' },
+            });
+        });
+
+        it('should throw ValidationError when mapping a datasource the dashboard does not use', async () => {
+            await expect(
+                service.importDashboard(dash, { datasourceMap: { 'Other Cube': 'c2' } })
+            ).rejects.toThrow(ValidationError);
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+
+        it('should throw ExternalServiceError when Sisense rejects the import', async () => {
+            mockFetch.mockResolvedValueOnce(
+                respond({ succeded: [], failed: [{ oid: 'd1', error: 'Invalid widget' }] })
+            );
+
+            await expect(service.importDashboard(dash)).rejects.toThrow(ExternalServiceError);
+            expect(String(mockFetch.mock.calls[0]?.[0])).toContain('action=duplicate');
+        });
+    });
+
+    describe('findFieldUsage', () => {
+        const dashboards = ['d1', 'd2', 'd3', 'd4'].map(oid => ({
+            oid,
+            title: `Dashboard ${oid}`,
+            datasource: { title: 'Sample ECommerce' },
+        }));
+        const widgets = [
+            {
+                oid: 'w1',
+                metadata: {
+                    panels: [{ name: 'values', items: [{ jaql: { dim: '[Commerce.Revenue]' } }] }],
+                },
+            },
+        ];
+        let active: number;
+        let peak: number;
+
+        beforeEach(() => {
+            service = new SisenseService(
+                { url: 'https://test-sisense.com', apiKey: 'test-token' },
+                { scanConcurrency: 2 }
+            );
+            active = 0;
+            peak = 0;
+            mockFetch.mockImplementation(async url => {
+                const path = new URL(String(url)).pathname;
+                if (path === '/api/v1/dashboards') {
+                    return respond(dashboards);
+                }
+                active++;
+                peak = Math.max(peak, active);
+                await new Promise(resolve => setTimeout(resolve, 1));
+                active--;
+                return path === '/api/v1/dashboards/d3/widgets'
+                    ? respond({ error: 'Not found' }, 404)
+                    : respond(widgets);
+            });
+        });
+
+        it('should scan dashboards a few at a time and report skipped ones', async () => {
+            const result = await service.findFieldUsage({ table: 'Commerce', column: 'Revenue' });
+
+            expect(peak).toBe(2);
+            expect(result).toMatchObject({
+                dashboardsScanned: 4,
+                dashboardCount: 3,
+                widgetCount: 3,
+                skipped: [{ dashboardId: 'd3', title: 'Dashboard d3' }],
+            });
+            expect(result.usages.map(usage => usage.dashboardId)).toEqual(['d1', 'd2', 'd4']);
+        });
+
+        it('should reuse the cached index until refreshed', async () => {
+            await service.findFieldUsage({ column: 'Revenue' });
+            await service.findFieldUsage({ datasource: 'Sample ECommerce' });
+            expect(mockFetch).toHaveBeenCalledTimes(5);
+
+            await service.findFieldUsage({ column: 'Revenue' }, { refresh: true });
+            expect(mockFetch).toHaveBeenCalledTimes(10);
+        });
+
+        it('should stop a scan that runs past its time limit', async () => {
+            const slowService = new SisenseService(
+                { url: 'https://test-sisense.com', apiKey: 'test-token' },
+                { scanTimeoutMs: 20 }
+            );
+            mockFetch.mockImplementation(async (url, init) =>
+                new URL(String(url)).pathname === '/api/v1/dashboards'
+                    ? respond(dashboards)
+                    : new Promise<Response>((_resolve, reject) =>
+                          init?.signal?.addEventListener('abort', () => reject(init.signal?.reason))
+                      )
+            );
+
+            await expect(slowService.findFieldUsage({ column: 'Revenue' })).rejects.toThrow(
+                TimeoutError
+            );
+        });
+
+        it('should throw ValidationError without a datasource, table or column', async () => {
+            await expect(service.findFieldUsage({})).rejects.toThrow(ValidationError);
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('exportDashboard and exportWidget', () => {
+        const respondWithBytes = (bytes: number[]) =>
+            mockFetch.mockResolvedValueOnce({
+                ok: true,
+                status: 200,
+                arrayBuffer: async () => new Uint8Array(bytes).buffer,
+            } as Response);
+
+        it('should render a dashboard to PNG as base64', async () => {
+            respondWithBytes([0x89, 0x50, 0x4e, 0x47]);
+
+            const file = await service.exportDashboard('d1', 'png', { width: 800 });
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                'https://test-sisense.com/api/v1/dashboards/d1/export/png?includeTitle=true&includeFilters=true&width=800',
+                expect.objectContaining({
+                    headers: expect.objectContaining({ Accept: 'image/png' }),
+                })
+            );
+            expect(file).toEqual({
+                format: 'png',
+                mimeType: 'image/png',
+                data: Buffer.from([0x89, 0x50, 0x4e, 0x47]).toString('base64'),
+                bytes: 4,
+            });
+        });
+
+        it('should render a widget to PDF with a default page setup', async () => {
+            respondWithBytes([0x25, 0x50, 0x44, 0x46]);
+
+            const file = await service.exportWidget('d1', 'w1', 'pdf');
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                'https://test-sisense.com/api/v1/dashboards/d1/widgets/w1/export/pdf?paperFormat=A4&paperOrientation=portrait&includeTitle=true',
+                expect.anything()
+            );
+            expect(file.mimeType).toBe('application/pdf');
+            expect(Buffer.from(file.data, 'base64').toString()).toBe('%PDF');
+        });
+
+        it('should throw NotFoundError when Sisense cannot find the widget', async () => {
+            mockFetch.mockResolvedValueOnce({
+                ok: false,
+                status: 404,
+                statusText: 'Not Found',
+                text: async () => '',
+            } as Response);
+
+            await expect(service.exportWidget('d1', 'missing', 'png')).rejects.toThrow(
+                NotFoundError
+            );
+        });
+    });
+
+    describe('getWidgetData', () => {
+        it('should run the widget query with dashboard filters applied', async () => {
+            const dashboard = {
+                oid: 'd1',
+                filters: [{ jaql: { dim: '[Commerce.Year]', filter: { members: ['2024'] } } }],
+            };
+            const widget = {
+                oid: 'w1',
+                title: 'Revenue by country',
+                type: 'pivot2',
+                datasource: { title: 'Sample ECommerce' },
+                metadata: {
+                    panels: [
+                        { name: 'rows', items: [{ jaql: { dim: '[Commerce.Country]' } }] },
+                        {
+                            name: 'values',
+                            items: [{ jaql: { dim: '[Commerce.Revenue]', agg: 'sum' } }],
+                        },
+                    ],
+                },
+            };
+            mockFetch.mockImplementation(async (input, init) => {
+                const url = String(input);
+                const body = url.endsWith('/jaql')
+                    ? {
+                          headers: ['Country', 'Revenue'],
+                          values: [[{ data: 'France' }, { data: 5 }]],
+                      }
+                    : url.includes('/widgets/')
+                      ? widget
+                      : dashboard;
+                expect(init?.signal).toBeDefined();
+                return respond(body);
+            });
+
+            const result = await service.getWidgetData('d1', 'w1');
+
+            const jaqlCall = mockFetch.mock.calls.find(([url]) => String(url).endsWith('/jaql'));
+            expect(jaqlCall?.[0]).toBe(
+                'https://test-sisense.com/api/datasources/Sample%20ECommerce/jaql'
+            );
+            expect(JSON.parse(String(jaqlCall?.[1]?.body)).metadata).toEqual([
+                { jaql: { dim: '[Commerce.Country]' }, panel: 'rows' },
+                { jaql: { dim: '[Commerce.Revenue]', agg: 'sum' }, panel: 'measures' },
+                {
+                    jaql: { dim: '[Commerce.Year]', filter: { members: ['2024'] } },
+                    panel: 'scope',
+                },
+            ]);
+            expect(result).toEqual({
+                dashboardId: 'd1',
+                widgetId: 'w1',
+                title: 'Revenue by country',
+                widgetType: 'pivot2',
+                datasource: 'Sample ECommerce',
+                headers: ['Country', 'Revenue'],
+                rows: [['France', 5]],
+                rowCount: 1,
+                filters: [
+                    {
+                        dim: '[Commerce.Year]',
+                        source: 'dashboard',
+                        jaql: { dim: '[Commerce.Year]', filter: { members: ['2024'] } },
+                    },
+                ],
+            });
+        });
+    });
+
+    describe('buildQuery', () => {
+        const serve = (routes: Record<string, unknown>) =>
+            mockFetch.mockImplementation(async input => {
+                const body = routes[new URL(String(input)).pathname];
+                return body === undefined ? respond({}, 404) : respond(body);
+            });
+
+        it('should resolve the cube by title and validate fields against its schema', async () => {
+            serve({
+                '/api/v1/cubes': [{ oid: 'c1', title: 'Sample ECommerce' }],
+                '/api/v2/datamodels/c1/schema': {
+                    datasets: [
+                        {
+                            schema: {
+                                tables: [
+                                    { name: 'Commerce', columns: [{ name: 'Country', type: 18 }] },
+                                ],
+                            },
+                        },
+                    ],
+                },
+            });
+
+            const compiled = await service.buildQuery({
+                datasource: 'Sample ECommerce',
+                dimensions: [{ field: 'Commerce.Country' }],
+            });
+
+            expect(compiled.datasource).toBe('Sample ECommerce');
+            expect(compiled.jaql.metadata).toEqual([
+                { jaql: { dim: '[Commerce.Country]', title: 'Country' }, panel: 'rows' },
+            ]);
+
+            await expect(
+                service.buildQuery({
+                    datasource: 'c1',
+                    dimensions: [{ field: 'Commerce.Region' }],
+                })
+            ).rejects.toThrow(ValidationError);
+        });
+
+        it('should throw NotFoundError for an unknown datasource', async () => {
+            serve({ '/api/v1/cubes': [{ oid: 'c1', title: 'Sample ECommerce' }] });
+
+            await expect(
+                service.buildQuery({
+                    datasource: 'Unknown',
+                    dimensions: [{ field: 'Commerce.Country' }],
+                })
+            ).rejects.toThrow(NotFoundError);
+        });
+    });
+
+    describe('data model explorer', () => {
+        const schema = {
+            oid: 'c1',
+            title: 'Sample ECommerce',
+            datasets: [
+                {
+                    name: 'ECommerce',
+                    schema: {
+                        tables: [
+                            {
+                                oid: 't1',
+                                name: 'Commerce',
+                                columns: [{ name: 'Revenue', type: 5 }],
+                            },
+                            { oid: 't2', name: 'Brand', columns: [{ name: 'Brand', type: 18 }] },
+                        ],
+                    },
+                },
+            ],
+            relations: [],
+        };
+
+        beforeEach(() => {
+            mockFetch.mockResolvedValue(respond(schema));
+        });
+
+        it('should load the datamodel schema once for tables, columns and relations', async () => {
+            const tables = await service.listTables('c1');
+            const columns = await service.listColumns('c1', 'Brand');
+            const relations = await service.getRelations('c1');
+
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+            expect(mockFetch).toHaveBeenCalledWith(
+                'https://test-sisense.com/api/v2/datamodels/c1/schema',
+                expect.anything()
+            );
+            expect(tables.map(table => table.name)).toEqual(['Commerce', 'Brand']);
+            expect(columns).toEqual([
+                {
+                    table: 'Brand',
+                    name: 'Brand',
+                    dim: '[Brand.Brand]',
+                    dataType: 'text',
+                    role: 'dimension',
+                    hidden: false,
+                },
+            ]);
+            expect(relations).toEqual([]);
+        });
+
+        it('should throw NotFoundError for columns of an unknown table', async () => {
+            await expect(service.listColumns('c1', 'Missing')).rejects.toThrow(NotFoundError);
+        });
+    });
+
+    describe('profileField', () => {
+        const schema = {
+            datasets: [
+                {
+                    schema: {
+                        tables: [{ name: 'Commerce', columns: [{ name: 'Revenue', type: 5 }] }],
+                    },
+                },
+            ],
+        };
+
+        beforeEach(() => {
+            mockFetch.mockImplementation(async (input, init) => {
+                const path = new URL(String(input)).pathname;
+                let body: unknown;
+                if (path === '/api/v1/cubes') {
+                    body = [{ oid: 'c1', title: 'Sample ECommerce' }];
+                } else if (path === '/api/v2/datamodels/c1/schema') {
+                    body = schema;
+                } else {
+                    const titles = JSON.parse(String(init?.body)).metadata.map(
+                        (item: { jaql: { title?: string } }) => item.jaql.title
+                    );
+                    body = titles.includes('distinctCount')
+                        ? { values: [[3, 10, 1, 50]] }
+                        : titles.includes('nullCount')
+                          ? { values: [[2]] }
+                          : { values: [[50, 6]] };
+                }
+                return respond(body);
+            });
+        });
+
+        it('should profile a numeric field and cache the result', async () => {
+            const profile = await service.profileField('Sample ECommerce', 'Commerce.Revenue', 5);
+            const fetchCount = mockFetch.mock.calls.length;
+            const cached = await service.profileField('Sample ECommerce', 'Commerce.Revenue', 5);
+
+            expect(profile).toEqual({
+                datasource: 'Sample ECommerce',
+                field: '[Commerce.Revenue]',
+                dataType: 'numeric',
+                rowCount: 10,
+                distinctCount: 3,
+                nullCount: 2,
+                nullRatio: 0.2,
+                min: 1,
+                max: 50,
+                topValues: [{ value: 50, count: 6 }],
+            });
+            expect(cached).toEqual(profile);
+            expect(mockFetch).toHaveBeenCalledTimes(fetchCount);
+            expect(
+                mockFetch.mock.calls.filter(([url]) => String(url).endsWith('/jaql'))
+            ).toHaveLength(3);
+        });
+
+        it('should throw ValidationError for a field not in the data model', async () => {
+            await expect(
+                service.profileField('Sample ECommerce', 'Commerce.Missing')
+            ).rejects.toThrow(ValidationError);
+        });
+    });
+
+    describe('builds', () => {
+        it('should list builds of a cube without caching them', async () => {
+            const builds = [{ oid: 'b1', datamodelId: 'c1', status: 'done' }];
+            mockFetch.mockResolvedValue(respond(builds));
+
+            const first = await service.listBuilds('c1');
+            await service.listBuilds('c1');
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                'https://test-sisense.com/api/v2/builds?datamodelId=c1',
+                expect.anything()
+            );
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+            expect(first[0]).toMatchObject({ oid: 'b1', cubeId: 'c1', status: 'done' });
+        });
+
+        it('should summarize the build status of a cube', async () => {
+            mockFetch.mockResolvedValueOnce(
+                respond([
+                    {
+                        oid: 'b1',
+                        datamodelId: 'c1',
+                        status: 'done',
+                        created: '2024-05-01T09:00:00Z',
+                        completed: '2024-05-01T09:10:00Z',
+                    },
+                ])
+            );
+
+            const status = await service.getBuildStatus('c1');
+
+            expect(status).toMatchObject({
+                cubeId: 'c1',
+                building: false,
+                lastSuccessfulBuild: '2024-05-01T09:10:00Z',
+            });
+        });
+
+        it('should post the build type when triggering a build', async () => {
+            mockFetch.mockResolvedValueOnce(
+                respond({ oid: 'b2', datamodelId: 'c1', status: 'waiting' })
+            );
+
+            const build = await service.triggerBuild('c1', 'by_table');
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                'https://test-sisense.com/api/v2/builds',
+                expect.objectContaining({
+                    method: 'POST',
+                    body: JSON.stringify({
+                        datamodelId: 'c1',
+                        buildType: 'by_table',
+                        schemaOrigin: 'latest',
+                    }),
+                })
+            );
+            expect(build.status).toBe('waiting');
+        });
+
+        it('should poll a build until it finishes', async () => {
+            const polling = new SisenseService(
+                { url: 'https://test-sisense.com', apiKey: 'test-token' },
+                { buildPollIntervalMs: 1 }
+            );
+            for (const status of ['waiting', 'building', 'done']) {
+                mockFetch.mockResolvedValueOnce(respond({ oid: 'b2', datamodelId: 'c1', status }));
+            }
+            const seen: string[] = [];
+
+            const build = await polling.waitForBuild('b2', async update => {
+                seen.push(update.status);
+            });
+
+            expect(build.status).toBe('done');
+            expect(seen).toEqual(['waiting', 'building', 'done']);
+            expect(mockFetch).toHaveBeenLastCalledWith(
+                'https://test-sisense.com/api/v2/builds/b2',
+                expect.anything()
+            );
+        });
+
+        it('should stop polling when the call is cancelled', async () => {
+            const controller = new AbortController();
+            mockFetch.mockResolvedValue(
+                respond({ oid: 'b2', datamodelId: 'c1', status: 'building' })
+            );
+
+            const waiting = service.waitForBuild(
+                'b2',
+                async () => {
+                    controller.abort();
+                },
+                { signal: controller.signal }
+            );
+
+            await expect(waiting).rejects.toThrow(RequestCancelledError);
+        });
+    });
+
     describe('getCubeMetadata', () => {
         it('should throw ValidationError for invalid cube ID', async () => {
             await expect(service.getCubeMetadata('')).rejects.toThrow(ValidationError);
@@ -214,6 +1387,12 @@ describe('SisenseService', () => {
             await expect(service.getServerInfo()).rejects.toThrow(ExternalServiceError);
         });
 
+        it('should throw NetworkError for dropped connections', async () => {
+            mockFetch.mockRejectedValueOnce(new TypeError('terminated'));
+
+            await expect(service.getServerInfo()).rejects.toThrow(NetworkError);
+        });
+
         it('should throw NetworkError for network failures', async () => {
             const networkError = new TypeError('fetch failed');
             networkError.name = 'TypeError';
@@ -222,4 +1401,282 @@ describe('SisenseService', () => {
             await expect(service.getServerInfo()).rejects.toThrow(NetworkError);
         });
     });
+
+    describe('response cache', () => {
+        it('should serve repeated metadata requests from the cache', async () => {
+            mockFetch.mockResolvedValueOnce(respond([{ oid: '1' }]));
+
+            await service.getDashboards();
+            const result = await service.getDashboards();
+
+            expect(result).toEqual([{ oid: '1' }]);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('should deduplicate concurrent identical requests', async () => {
+            mockFetch.mockResolvedValueOnce(respond([{ oid: 'cube' }]));
+
+            const [first, second] = await Promise.all([service.getCubes(), service.getCubes()]);
+
+            expect(first).toEqual(second);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('should fetch fresh data when refresh is requested', async () => {
+            mockFetch
+                .mockResolvedValueOnce(respond([{ oid: '1' }]))
+                .mockResolvedValueOnce(respond([{ oid: '1' }, { oid: '2' }]));
+
+            await service.getDashboards();
+            const result = await service.getDashboards({ refresh: true });
+
+            expect(result).toHaveLength(2);
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+
+        it('should not cache dashboard details', async () => {
+            mockFetch
+                .mockResolvedValueOnce(respond({ oid: '1', title: 'Old' }))
+                .mockResolvedValueOnce(respond({ oid: '1', title: 'New' }));
+
+            await service.getDashboard('1');
+            const result = await service.getDashboard('1');
+
+            expect(result).toEqual({ oid: '1', title: 'New' });
+        });
+
+        it('should always fetch when the cache is disabled', async () => {
+            const uncachedService = new SisenseService(
+                { url: 'https://test-sisense.com', apiKey: 'test-token' },
+                { cache: { enabled: false } }
+            );
+            mockFetch.mockResolvedValueOnce(respond([])).mockResolvedValueOnce(respond([]));
+
+            await uncachedService.getCubes();
+            await uncachedService.getCubes();
+
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('timeouts and cancellation', () => {
+        // Simulate fetch honoring the abort signal the way undici does
+        const hangingFetch = async (_input: unknown, init?: RequestInit) =>
+            new Promise<Response>((_resolve, reject) => {
+                if (init?.signal?.aborted) {
+                    reject(init.signal.reason);
+                }
+                init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+            });
+
+        afterEach(() => {
+            mockFetch.mockReset();
+        });
+
+        it('should pass an abort signal to fetch', async () => {
+            mockFetch.mockResolvedValueOnce(respond({}));
+
+            await service.getServerInfo();
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                expect.any(String),
+                expect.objectContaining({ signal: expect.any(AbortSignal) })
+            );
+        });
+
+        it('should throw TimeoutError when the request timeout elapses', async () => {
+            const timeoutService = new SisenseService(
+                { url: 'https://test-sisense.com', apiKey: 'test-token' },
+                { requestTimeoutMs: 5 }
+            );
+            mockFetch.mockImplementation(hangingFetch);
+
+            await expect(timeoutService.getServerInfo()).rejects.toThrow(TimeoutError);
+        });
+
+        it('should keep the request timeout when the caller passes a signal', async () => {
+            const timeoutService = new SisenseService(
+                { url: 'https://test-sisense.com', apiKey: 'test-token' },
+                { requestTimeoutMs: 5 }
+            );
+            mockFetch.mockImplementation(hangingFetch);
+
+            await expect(
+                timeoutService.getServerInfo({ signal: new AbortController().signal })
+            ).rejects.toThrow(TimeoutError);
+        });
+
+        it('should count caller timeouts as failures in the circuit breaker', async () => {
+            const breakingService = new SisenseService(
+                { url: 'https://test-sisense.com', apiKey: 'test-token' },
+                { circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60000 } }
+            );
+            mockFetch.mockImplementation(hangingFetch);
+
+            for (let call = 0; call < 2; call++) {
+                await expect(
+                    breakingService.getServerInfo({ signal: AbortSignal.timeout(5) })
+                ).rejects.toThrow(TimeoutError);
+            }
+
+            await expect(breakingService.getServerInfo()).rejects.toThrow(CircuitOpenError);
+        });
+
+        it('should throw RequestCancelledError when the caller aborts', async () => {
+            const controller = new AbortController();
+            mockFetch.mockImplementation(hangingFetch);
+
+            const request = service.getServerInfo({ signal: controller.signal });
+            controller.abort('client cancelled');
+
+            await expect(request).rejects.toThrow(RequestCancelledError);
+        });
+
+        it('should not send a request for an already aborted signal', async () => {
+            const controller = new AbortController();
+            controller.abort();
+
+            await expect(service.getDashboards({ signal: controller.signal })).rejects.toThrow(
+                RequestCancelledError
+            );
+            expect(mockFetch).not.toHaveBeenCalled();
+        });
+
+        it('should stop waiting for a login when the caller aborts', async () => {
+            const credentialService = new SisenseService(
+                { url: 'https://test-sisense.com', username: 'analyst', password: 'secret' },
+                { requestTimeoutMs: 50 }
+            );
+            const controller = new AbortController();
+            mockFetch.mockImplementation(hangingFetch);
+
+            const request = credentialService.getServerInfo({ signal: controller.signal });
+            controller.abort('client cancelled');
+
+            await expect(request).rejects.toThrow(RequestCancelledError);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not retry timed out requests', async () => {
+            const retryingService = new SisenseService(
+                { url: 'https://test-sisense.com', apiKey: 'test-token' },
+                { requestTimeoutMs: 5, retry: { maxAttempts: 3, baseDelayMs: 1 } }
+            );
+            mockFetch.mockImplementation(hangingFetch);
+
+            await expect(retryingService.getServerInfo()).rejects.toThrow(TimeoutError);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('retries and circuit breaker', () => {
+        let retryingService: SisenseService;
+
+        const errorResponse = (status: number, headers: Record<string, string> = {}) =>
+            ({
+                ok: false,
+                status,
+                statusText: 'Error',
+                headers: new Headers(headers),
+                text: async () => 'Error',
+            }) as Response;
+
+        beforeEach(() => {
+            retryingService = new SisenseService(
+                { url: 'https://test-sisense.com', apiKey: 'test-token' },
+                {
+                    retry: { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 20 },
+                    circuitBreaker: { failureThreshold: 3, resetTimeoutMs: 60000 },
+                }
+            );
+        });
+
+        it('should retry GET requests on 5xx responses', async () => {
+            mockFetch
+                .mockResolvedValueOnce(errorResponse(502))
+                .mockResolvedValueOnce(respond({ version: '1.0.0' }));
+
+            await expect(retryingService.getServerInfo()).resolves.toEqual({ version: '1.0.0' });
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+
+        it('should retry GET requests on network errors', async () => {
+            mockFetch
+                .mockRejectedValueOnce(new TypeError('fetch failed'))
+                .mockResolvedValueOnce(respond([]));
+
+            await expect(retryingService.getDashboards()).resolves.toEqual([]);
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+
+        it('should give up after the maximum number of attempts', async () => {
+            mockFetch.mockResolvedValue(errorResponse(503));
+
+            await expect(retryingService.getServerInfo()).rejects.toThrow(ExternalServiceError);
+            expect(mockFetch).toHaveBeenCalledTimes(3);
+            mockFetch.mockReset();
+        });
+
+        it('should not retry non-idempotent requests on 5xx responses', async () => {
+            mockFetch.mockResolvedValueOnce(errorResponse(500));
+
+            await expect(
+                retryingService.executeQuery({ query: 'SELECT * FROM table' })
+            ).rejects.toThrow(ExternalServiceError);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('should retry rate limited requests and honor Retry-After', async () => {
+            mockFetch
+                .mockResolvedValueOnce(errorResponse(429, { 'Retry-After': '0.01' }))
+                .mockResolvedValueOnce(respond({ data: [] }));
+
+            await expect(
+                retryingService.executeQuery({ query: 'SELECT * FROM table' })
+            ).resolves.toEqual({ data: [] });
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+        });
+
+        it('should not wait for a Retry-After longer than the maximum delay', async () => {
+            mockFetch.mockResolvedValueOnce(errorResponse(429, { 'Retry-After': '120' }));
+
+            await expect(retryingService.getServerInfo()).rejects.toThrow(ExternalServiceError);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not retry client errors', async () => {
+            mockFetch.mockResolvedValueOnce(errorResponse(404));
+
+            await expect(retryingService.getServerInfo()).rejects.toThrow(NotFoundError);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('should stop the retry backoff when the caller aborts', async () => {
+            const slowRetryService = new SisenseService(
+                { url: 'https://test-sisense.com', apiKey: 'test-token' },
+                { retry: { maxAttempts: 3, baseDelayMs: 30000, maxDelayMs: 60000 } }
+            );
+            const controller = new AbortController();
+            mockFetch.mockImplementationOnce(async () => {
+                setTimeout(() => controller.abort('client cancelled'), 5);
+                return errorResponse(503);
+            });
+
+            await expect(
+                slowRetryService.getServerInfo({ signal: controller.signal })
+            ).rejects.toThrow(RequestCancelledError);
+            expect(mockFetch).toHaveBeenCalledTimes(1);
+        });
+
+        it('should fail fast once the circuit is open', async () => {
+            mockFetch.mockResolvedValue(errorResponse(503));
+
+            await expect(retryingService.getServerInfo()).rejects.toThrow(ExternalServiceError);
+            mockFetch.mockClear();
+
+            await expect(retryingService.getDashboards()).rejects.toThrow(CircuitOpenError);
+            expect(mockFetch).not.toHaveBeenCalled();
+            mockFetch.mockReset();
+        });
+    });
 });
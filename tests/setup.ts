@@ -13,6 +13,9 @@ process.env.DEBUG = 'true';
 process.env.SISENSE_URL = 'https://test-sisense.com';
 process.env.SISENSE_API_KEY = 'test-token';
 
+// Disable retries by default; retry tests opt in through SisenseService options
+process.env.SISENSE_RETRY_MAX_ATTEMPTS = '1';
+
 // Mock console methods to reduce test output noise
 const originalConsole = { ...console };
 
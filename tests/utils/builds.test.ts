@@ -0,0 +1,69 @@
+import { isBuildFinished, normalizeBuild, summarizeBuilds } from '../../src/utils/builds.js';
+
+describe('Build Utils', () => {
+    describe('normalizeBuild', () => {
+        it('should map build task fields and lowercase the status', () => {
+            expect(
+                normalizeBuild({
+                    oid: 'b1',
+                    datamodelId: 'c1',
+                    datamodelTitle: 'Sample ECommerce',
+                    buildType: 'full',
+                    status: 'Building',
+                    created: '2024-05-01T09:00:00Z',
+                })
+            ).toEqual({
+                oid: 'b1',
+                cubeId: 'c1',
+                cubeTitle: 'Sample ECommerce',
+                buildType: 'full',
+                status: 'building',
+                created: '2024-05-01T09:00:00Z',
+                started: undefined,
+                completed: undefined,
+            });
+        });
+    });
+
+    describe('isBuildFinished', () => {
+        it('should treat done, failed and cancelled builds as finished', () => {
+            const build = normalizeBuild({ oid: 'b1', datamodelId: 'c1' });
+
+            expect(isBuildFinished({ ...build, status: 'done' })).toBe(true);
+            expect(isBuildFinished({ ...build, status: 'failed' })).toBe(true);
+            expect(isBuildFinished({ ...build, status: 'cancelled' })).toBe(true);
+            expect(isBuildFinished({ ...build, status: 'building' })).toBe(false);
+            expect(isBuildFinished({ ...build, status: 'waiting' })).toBe(false);
+        });
+    });
+
+    describe('summarizeBuilds', () => {
+        const builds = [
+            {
+                oid: 'b1',
+                status: 'done',
+                created: '2024-05-01T09:00:00Z',
+                completed: '2024-05-01T09:10:00Z',
+            },
+            { oid: 'b3', status: 'building', created: '2024-05-03T09:00:00Z' },
+            { oid: 'b2', status: 'failed', created: '2024-05-02T09:00:00Z' },
+        ].map(build => normalizeBuild({ ...build, datamodelId: 'c1' }));
+
+        it('should report the latest build and the last successful completion', () => {
+            const status = summarizeBuilds('c1', builds);
+
+            expect(status.building).toBe(true);
+            expect(status.latestBuild?.oid).toBe('b3');
+            expect(status.lastSuccessfulBuild).toBe('2024-05-01T09:10:00Z');
+        });
+
+        it('should handle cubes that were never built', () => {
+            expect(summarizeBuilds('c1', [])).toEqual({
+                cubeId: 'c1',
+                building: false,
+                latestBuild: null,
+                lastSuccessfulBuild: null,
+            });
+        });
+    });
+});
@@ -0,0 +1,106 @@
+import { ResponseCache } from '../../src/utils/cache.js';
+
+describe('ResponseCache', () => {
+    let now: number;
+    let cache: ResponseCache;
+
+    beforeEach(() => {
+        now = 0;
+        cache = new ResponseCache({ maxEntries: 2, staleMs: 100 }, () => now);
+    });
+
+    it('should return the cached value within the TTL', async () => {
+        const loader = jest.fn().mockResolvedValue('value');
+
+        await cache.getOrLoad('key', loader, { ttlMs: 50 });
+        now = 49;
+        const result = await cache.getOrLoad('key', loader, { ttlMs: 50 });
+
+        expect(result).toBe('value');
+        expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    it('should bypass the cache when refresh is requested', async () => {
+        const loader = jest.fn().mockResolvedValueOnce('old').mockResolvedValueOnce('new');
+
+        await cache.getOrLoad('key', loader, { ttlMs: 50 });
+        const result = await cache.getOrLoad('key', loader, { ttlMs: 50, refresh: true });
+
+        expect(result).toBe('new');
+        expect(loader).toHaveBeenCalledTimes(2);
+    });
+
+    it('should serve stale values while revalidating in the background', async () => {
+        const loader = jest.fn().mockResolvedValueOnce('old').mockResolvedValueOnce('new');
+
+        await cache.getOrLoad('key', loader, { ttlMs: 50 });
+        now = 120;
+        const stale = await cache.getOrLoad('key', loader, { ttlMs: 50 });
+        await new Promise(resolve => setImmediate(resolve));
+        const fresh = await cache.getOrLoad('key', loader, { ttlMs: 50 });
+
+        expect(stale).toBe('old');
+        expect(fresh).toBe('new');
+        expect(loader).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reload once the stale window has passed', async () => {
+        const loader = jest.fn().mockResolvedValueOnce('old').mockResolvedValueOnce('new');
+
+        await cache.getOrLoad('key', loader, { ttlMs: 50 });
+        now = 151;
+        const result = await cache.getOrLoad('key', loader, { ttlMs: 50 });
+
+        expect(result).toBe('new');
+    });
+
+    it('should share one load between concurrent callers', async () => {
+        let resolveLoad: (value: string) => void = () => undefined;
+        const loader = jest.fn(() => new Promise<string>(resolve => (resolveLoad = resolve)));
+
+        const first = cache.getOrLoad('key', loader, { ttlMs: 50 });
+        const second = cache.getOrLoad('key', loader, { ttlMs: 50 });
+        resolveLoad('value');
+
+        await expect(Promise.all([first, second])).resolves.toEqual(['value', 'value']);
+        expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not cache failed loads', async () => {
+        const loader = jest
+            .fn()
+            .mockRejectedValueOnce(new Error('boom'))
+            .mockResolvedValueOnce('value');
+
+        await expect(cache.getOrLoad('key', loader, { ttlMs: 50 })).rejects.toThrow('boom');
+        await expect(cache.getOrLoad('key', loader, { ttlMs: 50 })).resolves.toBe('value');
+    });
+
+    it('should evict the least recently used entry when full', async () => {
+        await cache.getOrLoad('a', async () => 'a', { ttlMs: 50 });
+        await cache.getOrLoad('b', async () => 'b', { ttlMs: 50 });
+        await cache.getOrLoad('a', async () => 'unused', { ttlMs: 50 });
+        await cache.getOrLoad('c', async () => 'c', { ttlMs: 50 });
+
+        const loader = jest.fn().mockResolvedValue('b2');
+        await cache.getOrLoad('b', loader, { ttlMs: 50 });
+
+        expect(cache.size).toBe(2);
+        expect(loader).toHaveBeenCalled();
+    });
+
+    it('should not store entries with a zero TTL', async () => {
+        await cache.getOrLoad('key', async () => 'value', { ttlMs: 0 });
+
+        expect(cache.size).toBe(0);
+    });
+
+    it('should invalidate entries by prefix', async () => {
+        await cache.getOrLoad('/api/v1/cubes', async () => [], { ttlMs: 50 });
+        await cache.getOrLoad('/api/v1/dashboards', async () => [], { ttlMs: 50 });
+
+        cache.invalidate('/api/v1/cubes');
+
+        expect(cache.size).toBe(1);
+    });
+});
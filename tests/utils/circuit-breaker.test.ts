@@ -0,0 +1,92 @@
+import { CircuitBreaker } from '../../src/utils/circuit-breaker.js';
+import { CircuitOpenError } from '../../src/types/index.js';
+
+describe('CircuitBreaker', () => {
+    let now: number;
+    let breaker: CircuitBreaker;
+
+    beforeEach(() => {
+        now = 0;
+        breaker = new CircuitBreaker(
+            'Test',
+            { failureThreshold: 3, resetTimeoutMs: 1000 },
+            () => now
+        );
+    });
+
+    const fail = (times: number) => {
+        for (let i = 0; i < times; i++) {
+            breaker.assertRequestAllowed();
+            breaker.recordFailure();
+        }
+    };
+
+    it('should start closed and allow requests', () => {
+        expect(breaker.getState()).toBe('closed');
+        expect(() => breaker.assertRequestAllowed()).not.toThrow();
+    });
+
+    it('should open after reaching the failure threshold', () => {
+        fail(3);
+
+        expect(breaker.getState()).toBe('open');
+        expect(() => breaker.assertRequestAllowed()).toThrow(CircuitOpenError);
+    });
+
+    it('should reset the failure count after a success', () => {
+        fail(2);
+        breaker.recordSuccess();
+        fail(2);
+
+        expect(breaker.getState()).toBe('closed');
+    });
+
+    it('should let a single probe through once the reset timeout has passed', () => {
+        fail(3);
+        now = 1000;
+
+        expect(() => breaker.assertRequestAllowed()).not.toThrow();
+        expect(breaker.getState()).toBe('half-open');
+        expect(() => breaker.assertRequestAllowed()).toThrow(CircuitOpenError);
+    });
+
+    it('should close when the probe succeeds', () => {
+        fail(3);
+        now = 1000;
+        breaker.assertRequestAllowed();
+        breaker.recordSuccess();
+
+        expect(breaker.getState()).toBe('closed');
+        expect(() => breaker.assertRequestAllowed()).not.toThrow();
+    });
+
+    it('should reopen when the probe fails', () => {
+        fail(3);
+        now = 1000;
+        breaker.assertRequestAllowed();
+        breaker.recordFailure();
+
+        expect(breaker.getState()).toBe('open');
+        now = 1500;
+        expect(() => breaker.assertRequestAllowed()).toThrow(CircuitOpenError);
+    });
+
+    it('should stay half-open when the probe is cancelled', () => {
+        fail(3);
+        now = 1000;
+        breaker.assertRequestAllowed();
+        breaker.recordAbort();
+
+        expect(breaker.getState()).toBe('half-open');
+        expect(() => breaker.assertRequestAllowed()).not.toThrow();
+    });
+
+    it('should not reset the failure count for cancelled requests', () => {
+        fail(2);
+        breaker.assertRequestAllowed();
+        breaker.recordAbort();
+        fail(1);
+
+        expect(breaker.getState()).toBe('open');
+    });
+});
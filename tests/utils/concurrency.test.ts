@@ -0,0 +1,46 @@
+import { mapWithConcurrency } from '../../src/utils/concurrency.js';
+
+describe('mapWithConcurrency', () => {
+    const tick = () => new Promise(resolve => setTimeout(resolve, 1));
+
+    it('should keep results in input order', async () => {
+        const results = await mapWithConcurrency([3, 1, 2], 2, async item => {
+            await new Promise(resolve => setTimeout(resolve, item));
+            return item * 10;
+        });
+
+        expect(results).toEqual([30, 10, 20]);
+    });
+
+    it('should never run more than the limit at once', async () => {
+        let active = 0;
+        let peak = 0;
+
+        await mapWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async () => {
+            active++;
+            peak = Math.max(peak, active);
+            await tick();
+            active--;
+        });
+
+        expect(peak).toBe(3);
+    });
+
+    it('should stop starting calls after the first failure', async () => {
+        const started: number[] = [];
+
+        await expect(
+            mapWithConcurrency([1, 2, 3, 4], 1, async item => {
+                started.push(item);
+                if (item === 2) {
+                    throw new Error('boom');
+                }
+            })
+        ).rejects.toThrow('boom');
+        expect(started).toEqual([1, 2]);
+    });
+
+    it('should handle an empty list', async () => {
+        await expect(mapWithConcurrency([], 4, async () => 1)).resolves.toEqual([]);
+    });
+});
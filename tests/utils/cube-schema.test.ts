@@ -0,0 +1,50 @@
+import { summarizeCubeSchema } from '../../src/utils/cube-schema.js';
+
+describe('Cube Schema Utils', () => {
+    describe('summarizeCubeSchema', () => {
+        it('should list tables and typed columns', () => {
+            const summary = summarizeCubeSchema('c1', {
+                title: 'Sample ECommerce',
+                tables: [
+                    {
+                        name: 'Commerce',
+                        columns: [
+                            { name: 'Revenue', type: 'numeric' },
+                            { name: 'Date', dataType: 'datetime' },
+                        ],
+                    },
+                    { name: 'Brand', columns: [{ name: 'Brand' }] },
+                ],
+            });
+
+            expect(summary).toBe(
+                [
+                    'Cube: Sample ECommerce (2 tables)',
+                    '- Commerce: Revenue (numeric), Date (datetime)',
+                    '- Brand: Brand',
+                ].join('\n')
+            );
+        });
+
+        it('should read tables nested in data model datasets', () => {
+            const summary = summarizeCubeSchema('c1', {
+                datasets: [{ schema: { tables: [{ name: 'Orders', columns: [] }] } }],
+            });
+
+            expect(summary).toBe('Cube: c1 (1 table)\n- Orders: no columns');
+        });
+
+        it('should elide columns beyond the summary limit', () => {
+            const columns = Array.from({ length: 30 }, (_, i) => ({ name: `col${i}` }));
+
+            const summary = summarizeCubeSchema('c1', { tables: [{ name: 'Wide', columns }] });
+
+            expect(summary).toContain('col24, … 5 more');
+            expect(summary).not.toContain('col25');
+        });
+
+        it('should note when no tables are present', () => {
+            expect(summarizeCubeSchema('c1', {})).toBe('Cube: c1\nNo table information available.');
+        });
+    });
+});
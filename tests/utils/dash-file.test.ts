@@ -0,0 +1,102 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { NotFoundError, ValidationError } from '../../src/types/index.js';
+import {
+    getDatasourceTitles,
+    readDashFile,
+    readImportResponse,
+    remapDatasources,
+    writeDashFile,
+} from '../../src/utils/dash-file.js';
+
+describe('Dash File Utils', () => {
+    const dash = {
+        oid: 'd1',
+        title: 'Sales',
+        datasource: { title: 'Sample ECommerce' },
+        filters: [{ jaql: { dim: '[Commerce.Country]', datasource: 'Sample ECommerce' } }],
+        widgets: [{ oid: 'w1', datasource: { title: 'Sample Healthcare' } }],
+    };
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), 'sisense-dash-'));
+    });
+
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    describe('writeDashFile and readDashFile', () => {
+        it('should round-trip a dashboard definition', async () => {
+            const saved = await writeDashFile(dash, { directory, fileName: 'sales' });
+
+            expect(saved).toMatchObject({
+                fileName: 'sales.dash',
+                dashboardId: 'd1',
+                title: 'Sales',
+                widgetCount: 1,
+            });
+            await expect(readDashFile(directory, 'sales.dash')).resolves.toEqual(dash);
+        });
+
+        it('should not replace an existing file unless asked to', async () => {
+            await writeDashFile(dash, { directory, fileName: 'sales' });
+
+            await expect(writeDashFile(dash, { directory, fileName: 'sales' })).rejects.toThrow(
+                ValidationError
+            );
+            await expect(
+                writeDashFile(
+                    { ...dash, title: 'Renamed' },
+                    {
+                        directory,
+                        fileName: 'sales',
+                        overwrite: true,
+                    }
+                )
+            ).resolves.toMatchObject({ title: 'Renamed' });
+        });
+
+        it('should throw NotFoundError for a missing file', async () => {
+            await expect(readDashFile(directory, 'missing')).rejects.toThrow(NotFoundError);
+        });
+
+        it('should throw ValidationError for a file that is not a dashboard', async () => {
+            await writeFile(join(directory, 'broken.dash'), '{"title": ');
+            await writeFile(join(directory, 'other.dash'), '{"title": "No ID"}');
+
+            await expect(readDashFile(directory, 'broken')).rejects.toThrow(ValidationError);
+            await expect(readDashFile(directory, 'other')).rejects.toThrow(ValidationError);
+        });
+    });
+
+    describe('datasources', () => {
+        it('should list every datasource title used', () => {
+            expect(getDatasourceTitles(dash)).toEqual(['Sample ECommerce', 'Sample Healthcare']);
+        });
+
+        it('should replace mapped datasources, including titles in JAQL', () => {
+            const target = { title: 'ECommerce Prod', fullname: 'localhost/ECommerce Prod' };
+
+            const remapped = remapDatasources(dash, { 'Sample ECommerce': target });
+
+            expect(remapped['datasource']).toEqual(target);
+            expect(remapped['filters']).toEqual([
+                { jaql: { dim: '[Commerce.Country]', datasource: 'ECommerce Prod' } },
+            ]);
+            expect(remapped.widgets).toEqual(dash.widgets);
+        });
+    });
+
+    describe('readImportResponse', () => {
+        it('should read the imported dashboard ID and failures', () => {
+            expect(readImportResponse({ succeded: [{ oid: 'd2' }], failed: [] })).toEqual({
+                dashboardId: 'd2',
+                failed: [],
+            });
+            expect(readImportResponse(null)).toEqual({ dashboardId: undefined, failed: [] });
+        });
+    });
+});
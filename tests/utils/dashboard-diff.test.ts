@@ -0,0 +1,234 @@
+import type { DashFile } from '../../src/types/index.js';
+import { diffDashboards } from '../../src/utils/dashboard-diff.js';
+
+describe('Dashboard Diff Utils', () => {
+    const revenue = {
+        oid: 'w1',
+        title: 'Revenue by country',
+        type: 'chart/column',
+        subtype: 'column/classic',
+        datasource: { title: 'Sample ECommerce' },
+        metadata: {
+            panels: [
+                { name: 'categories', items: [{ jaql: { dim: '[Commerce.Country]' } }] },
+                { name: 'values', items: [{ jaql: { dim: '[Commerce.Revenue]', agg: 'sum' } }] },
+                { name: 'filters', items: [] },
+            ],
+        },
+    };
+    const orders = {
+        oid: 'w2',
+        title: 'Orders',
+        type: 'indicator',
+        metadata: {
+            panels: [
+                { name: 'value', items: [{ jaql: { dim: '[Commerce.Quantity]', agg: 'sum' } }] },
+            ],
+        },
+    };
+    const layout = (...columns: string[][]) => ({
+        type: 'columnar',
+        columns: columns.map(widgets => ({
+            width: 100 / columns.length,
+            cells: widgets.map(widgetid => ({
+                subcells: [{ width: 100, elements: [{ widgetid, height: 384 }] }],
+            })),
+        })),
+    });
+    const dashboard = (overrides: Partial<DashFile> = {}): DashFile => ({
+        oid: 'd1',
+        title: 'Sales',
+        datasource: { title: 'Sample ECommerce' },
+        filters: [{ jaql: { dim: '[Commerce.Country]', filter: { members: ['France'] } } }],
+        layout: layout(['w1', 'w2']),
+        widgets: [revenue, orders],
+        ...overrides,
+    });
+    const diff = (before: DashFile, after: DashFile) =>
+        diffDashboards(
+            { source: 'file sales', dash: before },
+            { source: 'dashboard d1', dash: after }
+        );
+
+    it('should report identical dashboards', () => {
+        const result = diff(dashboard(), dashboard());
+
+        expect(result).toEqual({
+            before: { source: 'file sales', dashboardId: 'd1', title: 'Sales' },
+            after: { source: 'dashboard d1', dashboardId: 'd1', title: 'Sales' },
+            identical: true,
+            changes: [],
+        });
+    });
+
+    it('should ignore key order', () => {
+        const reordered = dashboard({
+            filters: [{ jaql: { filter: { members: ['France'] }, dim: '[Commerce.Country]' } }],
+        });
+
+        expect(diff(dashboard(), reordered).identical).toBe(true);
+    });
+
+    it('should describe dashboard property changes', () => {
+        const result = diff(
+            dashboard(),
+            dashboard({
+                title: 'Sales 2026',
+                desc: 'Yearly',
+                datasource: { title: 'ECommerce Prod' },
+            })
+        );
+
+        expect(result.changes.map(change => change.detail)).toEqual([
+            'Title changed from "Sales" to "Sales 2026"',
+            'Description changed from (none) to "Yearly"',
+            'Datasource changed from "Sample ECommerce" to "ECommerce Prod"',
+        ]);
+    });
+
+    it('should describe dashboard filter changes', () => {
+        const result = diff(
+            dashboard(),
+            dashboard({
+                filters: [
+                    {
+                        jaql: {
+                            dim: '[Commerce.Country]',
+                            filter: { exclude: { members: ['Spain'] } },
+                        },
+                        disabled: true,
+                    },
+                    { jaql: { dim: '[Commerce.Date]', level: 'years', filter: { all: true } } },
+                ],
+            })
+        );
+
+        expect(result.changes).toEqual([
+            {
+                area: 'filters',
+                target: '[Commerce.Country]',
+                change: 'changed',
+                detail: 'Filter changed from members France to all except Spain',
+            },
+            {
+                area: 'filters',
+                target: '[Commerce.Country]',
+                change: 'changed',
+                detail: 'Filter disabled',
+            },
+            {
+                area: 'filters',
+                target: '[Commerce.Date]',
+                change: 'added',
+                detail: 'Filter added: all members',
+            },
+        ]);
+    });
+
+    it('should report widgets added and removed', () => {
+        const map = { ...orders, oid: 'w3', title: 'Map', type: 'map/area', metadata: {} };
+        const result = diff(
+            dashboard(),
+            dashboard({ widgets: [revenue, map], layout: layout(['w1', 'w3']) })
+        );
+
+        expect(result.changes).toEqual([
+            {
+                area: 'widgets',
+                target: 'Orders (w2)',
+                change: 'removed',
+                detail: 'Widget removed (indicator: sum([Commerce.Quantity]))',
+            },
+            {
+                area: 'widgets',
+                target: 'Map (w3)',
+                change: 'added',
+                detail: 'Widget added (map/area)',
+            },
+        ]);
+    });
+
+    it('should describe changes to widget titles, types and JAQL', () => {
+        const changed = {
+            ...revenue,
+            title: 'Revenue',
+            subtype: 'column/stackedcolumn',
+            metadata: {
+                panels: [
+                    {
+                        name: 'categories',
+                        items: [{ jaql: { dim: '[Commerce.Country]', title: 'Country' } }],
+                    },
+                    {
+                        name: 'values',
+                        items: [
+                            { jaql: { dim: '[Commerce.Revenue]', agg: 'avg' } },
+                            { jaql: { formula: 'SUM([x]) / COUNT([y])', title: 'Margin' } },
+                        ],
+                    },
+                    {
+                        name: 'filters',
+                        items: [
+                            {
+                                jaql: {
+                                    dim: '[Commerce.Gender]',
+                                    filter: { members: ['Female'] },
+                                },
+                            },
+                        ],
+                    },
+                ],
+            },
+        };
+        const result = diff(dashboard(), dashboard({ widgets: [changed, orders] }));
+
+        expect(result.changes.every(change => change.target === 'Revenue (w1)')).toBe(true);
+        expect(result.changes.map(change => change.detail)).toEqual([
+            'Title changed from "Revenue by country" to "Revenue"',
+            'Type changed from "chart/column (column/classic)" to "chart/column (column/stackedcolumn)"',
+            'Dimension [Commerce.Country]: title changed from (none) to "Country"',
+            'Measure sum([Commerce.Revenue]): aggregation changed from "sum" to "avg"',
+            'Measure formula "Margin" added to "values"',
+            'Filter [Commerce.Gender] added to "filters"',
+        ]);
+    });
+
+    it('should match widgets by title when their IDs differ', () => {
+        const copy = dashboard({
+            oid: 'd2',
+            widgets: [
+                { ...revenue, oid: 'x1' },
+                { ...orders, oid: 'x2' },
+            ],
+            layout: layout(['x2', 'x1']),
+        });
+        const result = diff(dashboard(), copy);
+
+        expect(result.changes).toEqual([
+            {
+                area: 'layout',
+                target: 'Revenue by country (x1)',
+                change: 'moved',
+                detail: 'Moved from column 1, row 1 to column 1, row 2',
+            },
+            {
+                area: 'layout',
+                target: 'Orders (x2)',
+                change: 'moved',
+                detail: 'Moved from column 1, row 2 to column 1, row 1',
+            },
+        ]);
+    });
+
+    it('should describe column and height changes', () => {
+        const resized = layout(['w1'], ['w2']);
+        resized.columns[1]!.cells[0]!.subcells[0]!.elements[0]!.height = 200;
+        const result = diff(dashboard(), dashboard({ layout: resized }));
+
+        expect(result.changes.map(change => change.detail)).toEqual([
+            'Columns changed from 100% to 50% | 50%',
+            'Moved from column 1, row 2 to column 2, row 1',
+            'Height changed from 384 to 200',
+        ]);
+    });
+});
@@ -0,0 +1,82 @@
+import {
+    addWidgetToLayout,
+    removeWidgetFromLayout,
+    toDashboardPayload,
+    toWidgetPayload,
+} from '../../src/utils/dashboard-payload.js';
+
+describe('Dashboard Payload Utils', () => {
+    const placed = (widgetid: string) => ({ subcells: [{ width: 100, elements: [{ widgetid }] }] });
+
+    describe('toDashboardPayload', () => {
+        it('should map tool fields to Sisense fields and leave out unset ones', () => {
+            expect(
+                toDashboardPayload({ title: 'Sales', description: 'Draft', folderId: 'f1' })
+            ).toEqual({ title: 'Sales', desc: 'Draft', parentFolder: 'f1' });
+        });
+    });
+
+    describe('toWidgetPayload', () => {
+        it('should wrap panels in the widget metadata', () => {
+            const panels = [{ name: 'value', items: [{ jaql: { dim: '[Commerce.Revenue]' } }] }];
+
+            expect(toWidgetPayload({ type: 'indicator', panels })).toEqual({
+                type: 'indicator',
+                metadata: { panels },
+            });
+        });
+    });
+
+    describe('addWidgetToLayout', () => {
+        it('should create a single-column layout when there is none', () => {
+            expect(addWidgetToLayout(undefined, 'w1')).toEqual({
+                type: 'columnar',
+                columns: [
+                    {
+                        width: 100,
+                        cells: [
+                            {
+                                subcells: [
+                                    { width: 100, elements: [{ widgetid: 'w1', height: 384 }] },
+                                ],
+                            },
+                        ],
+                    },
+                ],
+            });
+        });
+
+        it('should append a row to the first column', () => {
+            const layout = {
+                type: 'columnar',
+                columns: [
+                    { width: 50, cells: [placed('w1')] },
+                    { width: 50, cells: [placed('w2')] },
+                ],
+            };
+
+            const result = addWidgetToLayout(layout, 'w3') as typeof layout;
+
+            expect(result.columns[0]?.cells).toHaveLength(2);
+            expect(result.columns[1]).toEqual(layout.columns[1]);
+        });
+
+        it('should return null when the widget is already placed', () => {
+            expect(addWidgetToLayout({ columns: [{ cells: [placed('w1')] }] }, 'w1')).toBeNull();
+        });
+    });
+
+    describe('removeWidgetFromLayout', () => {
+        it('should drop the widget and any cell left empty', () => {
+            const layout = { columns: [{ width: 100, cells: [placed('w1'), placed('w2')] }] };
+
+            expect(removeWidgetFromLayout(layout, 'w1')).toEqual({
+                columns: [{ width: 100, cells: [placed('w2')] }],
+            });
+        });
+
+        it('should return null when the widget is not placed', () => {
+            expect(removeWidgetFromLayout({ columns: [] }, 'w1')).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,93 @@
+import { normalizeDataModel } from '../../src/utils/data-model.js';
+
+describe('Data Model Utils', () => {
+    describe('normalizeDataModel', () => {
+        const raw = {
+            oid: 'm1',
+            title: 'Sample ECommerce',
+            datasets: [
+                {
+                    oid: 'ds1',
+                    name: 'ECommerce',
+                    schema: {
+                        tables: [
+                            {
+                                oid: 't1',
+                                id: 'Commerce',
+                                name: 'Commerce',
+                                columns: [
+                                    { oid: 'c1', id: 'Brand ID', name: 'Brand ID', type: 8 },
+                                    { oid: 'c2', id: 'Revenue', name: 'Revenue', type: 5 },
+                                    { oid: 'c3', id: 'Date', name: 'Date', type: 31 },
+                                    { oid: 'c4', id: 'Note', name: 'Note', type: 18, hidden: true },
+                                ],
+                            },
+                            {
+                                oid: 't2',
+                                name: 'Brand',
+                                columns: [
+                                    { oid: 'c5', name: 'Brand ID', type: 8 },
+                                    { oid: 'c6', name: 'Brand', type: 'nvarchar' },
+                                    { oid: 'c7', name: 'Geo', type: 99 },
+                                ],
+                            },
+                        ],
+                    },
+                },
+            ],
+            relations: [
+                {
+                    oid: 'r1',
+                    columns: [
+                        { dataset: 'ds1', table: 't1', column: 'c1' },
+                        { dataset: 'ds1', table: 't2', column: 'c5' },
+                    ],
+                },
+            ],
+        };
+
+        it('should list tables with their dataset and column count', () => {
+            expect(normalizeDataModel(raw).tables).toEqual([
+                { id: 't1', name: 'Commerce', dataset: 'ECommerce', columnCount: 4, hidden: false },
+                { id: 't2', name: 'Brand', dataset: 'ECommerce', columnCount: 3, hidden: false },
+            ]);
+        });
+
+        it('should map type codes and names to data types and roles', () => {
+            const columns = normalizeDataModel(raw).columns;
+
+            expect(columns.map(c => [c.dim, c.dataType, c.role])).toEqual([
+                ['[Commerce.Brand ID]', 'numeric', 'measure'],
+                ['[Commerce.Revenue]', 'numeric', 'measure'],
+                ['[Commerce.Date]', 'datetime', 'dimension'],
+                ['[Commerce.Note]', 'text', 'dimension'],
+                ['[Brand.Brand ID]', 'numeric', 'measure'],
+                ['[Brand.Brand]', 'text', 'dimension'],
+                ['[Brand.Geo]', 'other', 'dimension'],
+            ]);
+            expect(columns[3]?.hidden).toBe(true);
+        });
+
+        it('should resolve relation references to table and column names', () => {
+            expect(normalizeDataModel(raw).relations).toEqual([
+                {
+                    id: 'r1',
+                    columns: [
+                        { table: 'Commerce', column: 'Brand ID', dim: '[Commerce.Brand ID]' },
+                        { table: 'Brand', column: 'Brand ID', dim: '[Brand.Brand ID]' },
+                    ],
+                },
+            ]);
+        });
+
+        it('should return an empty schema for unexpected payloads', () => {
+            expect(normalizeDataModel({})).toEqual({
+                id: '',
+                title: '',
+                tables: [],
+                columns: [],
+                relations: [],
+            });
+        });
+    });
+});
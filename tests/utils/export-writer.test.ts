@@ -0,0 +1,101 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { JaqlResult } from '../../src/types/index.js';
+import { ValidationError } from '../../src/types/index.js';
+import { writeExport } from '../../src/utils/export-writer.js';
+
+async function* pagesOf(...pages: unknown[][][]): AsyncGenerator<JaqlResult> {
+    for (const rows of pages) {
+        yield {
+            datasource: 'Sample ECommerce',
+            headers: ['Country', 'Revenue'],
+            rows,
+            rowCount: rows.length,
+        };
+    }
+}
+
+describe('Export Writer Utils', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), 'sisense-export-'));
+    });
+
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should write CSV with one header row across pages', async () => {
+        const result = await writeExport(pagesOf([['France', 1200.5]], [['Côte, d"Ivoire', 8]]), {
+            directory,
+            fileName: 'revenue',
+            format: 'csv',
+        });
+        const content = await readFile(join(directory, 'revenue.csv'), 'utf8');
+
+        expect(content).toBe('Country,Revenue\nFrance,1200.5\n"Côte, d""Ivoire",8\n');
+        expect(result).toEqual({
+            path: join(directory, 'revenue.csv'),
+            fileName: 'revenue.csv',
+            format: 'csv',
+            rowCount: 2,
+            bytes: Buffer.byteLength(content),
+        });
+    });
+
+    it('should write JSON Lines keyed by column header', async () => {
+        const result = await writeExport(pagesOf([['France', 1200.5]], [['Spain', null]]), {
+            directory,
+            fileName: 'revenue',
+            format: 'jsonl',
+        });
+        const content = await readFile(result.path, 'utf8');
+
+        expect(
+            content
+                .trim()
+                .split('\n')
+                .map(line => JSON.parse(line))
+        ).toEqual([
+            { Country: 'France', Revenue: 1200.5 },
+            { Country: 'Spain', Revenue: null },
+        ]);
+        expect(result.rowCount).toBe(2);
+    });
+
+    it('should create the export directory', async () => {
+        const nested = join(directory, 'nested', 'exports');
+
+        const result = await writeExport(pagesOf([]), {
+            directory: nested,
+            fileName: 'empty',
+            format: 'csv',
+        });
+
+        expect(await readFile(result.path, 'utf8')).toBe('Country,Revenue\n');
+        expect(result.rowCount).toBe(0);
+    });
+
+    it('should not overwrite an existing file', async () => {
+        await writeFile(join(directory, 'revenue.csv'), 'keep');
+
+        await expect(
+            writeExport(pagesOf([['France', 1]]), { directory, fileName: 'revenue', format: 'csv' })
+        ).rejects.toThrow(ValidationError);
+        expect(await readFile(join(directory, 'revenue.csv'), 'utf8')).toBe('keep');
+    });
+
+    it('should remove a partly written file when a page fails', async () => {
+        async function* failing(): AsyncGenerator<JaqlResult> {
+            yield* pagesOf([['France', 1]]);
+            throw new Error('Query failed');
+        }
+
+        await expect(
+            writeExport(failing(), { directory, fileName: 'partial', format: 'csv' })
+        ).rejects.toThrow('Query failed');
+        await expect(readFile(join(directory, 'partial.csv'), 'utf8')).rejects.toThrow();
+    });
+});
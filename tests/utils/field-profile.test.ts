@@ -0,0 +1,90 @@
+import { buildProfileQueries, toFieldProfile } from '../../src/utils/field-profile.js';
+
+describe('Field Profile Utils', () => {
+    const dim = '[Commerce.Revenue]';
+
+    describe('buildProfileQueries', () => {
+        it('should include min and max only for numeric and date fields', () => {
+            const numeric = buildProfileQueries(dim, 'numeric', 5);
+            const text = buildProfileQueries('[Commerce.Country]', 'text', 5);
+
+            expect(numeric.summary.metadata.map(item => item.jaql['agg'])).toEqual([
+                'count',
+                'countduplicates',
+                'min',
+                'max',
+            ]);
+            expect(text.summary.metadata.map(item => item.jaql['agg'])).toEqual([
+                'count',
+                'countduplicates',
+            ]);
+        });
+
+        it('should group dates by day and limit top values to N', () => {
+            const queries = buildProfileQueries('[Commerce.Date]', 'datetime', 3);
+
+            expect(queries.topValues.count).toBe(3);
+            expect(queries.topValues.metadata[0]?.jaql).toMatchObject({
+                datatype: 'datetime',
+                level: 'days',
+            });
+            expect(queries.topValues.metadata[1]?.jaql['sort']).toBe('desc');
+        });
+
+        it('should count nulls through the N\\A member', () => {
+            const queries = buildProfileQueries(dim, 'numeric', 5);
+
+            expect(queries.nulls.metadata[1]).toEqual({
+                jaql: { dim, filter: { members: ['N\\A'] } },
+                panel: 'scope',
+            });
+        });
+    });
+
+    describe('toFieldProfile', () => {
+        const result = (rows: unknown[][]) => ({
+            datasource: 'Sample',
+            headers: [],
+            rows,
+            rowCount: rows.length,
+        });
+
+        it('should assemble the profile from query results', () => {
+            const profile = toFieldProfile('Sample', dim, 'numeric', {
+                summary: result([[3, 40, 1.5, 99]]),
+                topValues: result([
+                    [10, 20],
+                    [20, 12],
+                ]),
+                nulls: result([[4]]),
+            });
+
+            expect(profile).toEqual({
+                datasource: 'Sample',
+                field: dim,
+                dataType: 'numeric',
+                rowCount: 40,
+                distinctCount: 3,
+                nullCount: 4,
+                nullRatio: 0.1,
+                min: 1.5,
+                max: 99,
+                topValues: [
+                    { value: 10, count: 20 },
+                    { value: 20, count: 12 },
+                ],
+            });
+        });
+
+        it('should handle empty results', () => {
+            const profile = toFieldProfile('Sample', '[Commerce.Country]', 'text', {
+                summary: result([]),
+                topValues: result([]),
+                nulls: result([]),
+            });
+
+            expect(profile).toMatchObject({ rowCount: 0, nullRatio: 0, topValues: [] });
+            expect(profile).not.toHaveProperty('min');
+        });
+    });
+});
@@ -0,0 +1,177 @@
+import type { FieldUsageIndex } from '../../src/types/index.js';
+import { collectFieldReferences, findFieldUsage } from '../../src/utils/field-usage.js';
+
+describe('Field Usage Utils', () => {
+    const dashboard = {
+        oid: 'd1',
+        title: 'Sales',
+        datasource: { title: 'Sample ECommerce' },
+        filters: [
+            { jaql: { dim: '[Commerce.Country]', filter: { members: ['France'] } } },
+            {
+                levels: [
+                    { dim: '[Category.Category]', datasource: { title: 'Sample ECommerce' } },
+                    { dim: '[Brand.Brand]' },
+                ],
+            },
+        ],
+    };
+    const widgets = [
+        {
+            oid: 'w1',
+            title: 'Margin',
+            metadata: {
+                panels: [
+                    {
+                        name: 'categories',
+                        items: [{ jaql: { dim: '[Commerce.Date (Calendar)]', level: 'years' } }],
+                    },
+                    {
+                        name: 'values',
+                        items: [
+                            {
+                                jaql: {
+                                    formula: '(SUM([A]) - SUM([B])) / SUM([A])',
+                                    context: {
+                                        '[A]': { dim: '[Commerce.Revenue]', agg: 'sum' },
+                                        '[B]': { dim: '[Commerce.Cost]', agg: 'sum' },
+                                    },
+                                },
+                            },
+                            { jaql: { dim: '[Commerce.Revenue]', agg: 'sum' } },
+                        ],
+                    },
+                    {
+                        name: 'filters',
+                        items: [
+                            {
+                                jaql: {
+                                    dim: '[Commerce.Country]',
+                                    filter: {
+                                        top: 5,
+                                        by: { dim: '[Commerce.Revenue]', agg: 'sum' },
+                                    },
+                                },
+                            },
+                        ],
+                    },
+                ],
+            },
+        },
+        {
+            oid: 'w2',
+            title: 'Patients',
+            datasource: { title: 'Sample Healthcare' },
+            metadata: {
+                panels: [
+                    { name: 'value', items: [{ jaql: { dim: '[Admissions.ID]', agg: 'count' } }] },
+                ],
+            },
+        },
+    ];
+
+    describe('collectFieldReferences', () => {
+        const references = collectFieldReferences(dashboard, widgets);
+        const summary = references.map(reference =>
+            [
+                reference.widgetId ?? '-',
+                reference.location,
+                reference.panel ?? '-',
+                reference.datasource,
+                `${reference.table}.${reference.column}`,
+                reference.inFormula ? 'formula' : 'direct',
+            ].join(' ')
+        );
+
+        it('should find fields in dashboard filters, panels, formulas and ranking filters', () => {
+            expect(summary).toEqual([
+                '- dashboard filter - Sample ECommerce Commerce.Country direct',
+                '- dashboard filter - Sample ECommerce Category.Category direct',
+                '- dashboard filter - Sample ECommerce Brand.Brand direct',
+                'w1 widget categories Sample ECommerce Commerce.Date direct',
+                'w1 widget values Sample ECommerce Commerce.Revenue formula',
+                'w1 widget values Sample ECommerce Commerce.Cost formula',
+                'w1 widget values Sample ECommerce Commerce.Revenue direct',
+                'w1 widget filter filters Sample ECommerce Commerce.Country direct',
+                'w1 widget filter filters Sample ECommerce Commerce.Revenue direct',
+                'w2 widget value Sample Healthcare Admissions.ID direct',
+            ]);
+        });
+
+        it('should keep the dimension as written', () => {
+            expect(references[3]).toMatchObject({
+                dashboardId: 'd1',
+                dashboardTitle: 'Sales',
+                widgetId: 'w1',
+                widgetTitle: 'Margin',
+                dim: '[Commerce.Date (Calendar)]',
+                column: 'Date',
+            });
+        });
+
+        it('should list a field once per widget panel', () => {
+            const repeated = collectFieldReferences({ oid: 'd2' }, [
+                {
+                    oid: 'w1',
+                    metadata: {
+                        panels: [
+                            {
+                                name: 'values',
+                                items: [
+                                    { jaql: { dim: '[Commerce.Revenue]', agg: 'sum' } },
+                                    { jaql: { dim: '[Commerce.Revenue]', agg: 'avg' } },
+                                ],
+                            },
+                        ],
+                    },
+                },
+            ]);
+
+            expect(repeated).toHaveLength(1);
+        });
+    });
+
+    describe('findFieldUsage', () => {
+        const index: FieldUsageIndex = {
+            builtAt: '2026-10-19T08:00:00.000Z',
+            dashboardCount: 3,
+            references: collectFieldReferences(dashboard, widgets),
+            skipped: [{ dashboardId: 'd3', title: 'Broken', error: 'Forbidden' }],
+        };
+
+        it('should match a column in a table, ignoring case', () => {
+            const result = findFieldUsage(index, { table: 'commerce', column: 'REVENUE' });
+
+            expect(result).toMatchObject({
+                query: { table: 'commerce', column: 'REVENUE' },
+                indexedAt: '2026-10-19T08:00:00.000Z',
+                dashboardsScanned: 3,
+                dashboardCount: 1,
+                widgetCount: 1,
+                skipped: [{ dashboardId: 'd3', title: 'Broken', error: 'Forbidden' }],
+            });
+            expect(result.usages.map(usage => [usage.panel, usage.inFormula])).toEqual([
+                ['values', true],
+                ['values', false],
+                ['filters', false],
+            ]);
+        });
+
+        it('should match every field of a datasource', () => {
+            const result = findFieldUsage(index, { datasource: 'Sample Healthcare' });
+
+            expect(result.usages.map(usage => usage.dim)).toEqual(['[Admissions.ID]']);
+        });
+
+        it('should count dashboard filters without widgets', () => {
+            const result = findFieldUsage(index, { table: 'Brand' });
+
+            expect(result).toMatchObject({ dashboardCount: 1, widgetCount: 0 });
+            expect(result.usages[0]?.location).toBe('dashboard filter');
+        });
+
+        it('should return no usages for an unused field', () => {
+            expect(findFieldUsage(index, { column: 'Missing' }).usages).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,116 @@
+import { formatResult, toTable } from '../../src/utils/formatter.js';
+
+describe('Formatter Utils', () => {
+    const queryResult = {
+        datasource: 'Sample ECommerce',
+        headers: ['Country', 'Revenue'],
+        rows: [
+            ['France', 1200.5],
+            ['United States', null],
+        ],
+        rowCount: 2,
+    };
+
+    describe('toTable', () => {
+        it('should take headers from query results', () => {
+            expect(toTable(queryResult)).toEqual({
+                headers: ['Country', 'Revenue'],
+                rows: queryResult.rows,
+                extras: { datasource: 'Sample ECommerce', rowCount: 2 },
+            });
+        });
+
+        it('should use the union of keys for arrays of records', () => {
+            expect(
+                toTable([
+                    { oid: 'a', title: 'A' },
+                    { oid: 'b', owner: 'u1' },
+                ])
+            ).toEqual({
+                headers: ['oid', 'title', 'owner'],
+                rows: [
+                    ['a', 'A', undefined],
+                    ['b', undefined, 'u1'],
+                ],
+                extras: {},
+            });
+        });
+
+        it('should use the single array of records in a page', () => {
+            const table = toTable({ dashboards: [{ oid: 'a' }], count: 1, nextCursor: 'abc' });
+
+            expect(table?.headers).toEqual(['oid']);
+            expect(table?.extras).toEqual({ count: 1, nextCursor: 'abc' });
+        });
+
+        it('should return null for non-tabular results', () => {
+            expect(toTable({ version: '2024.1' })).toBeNull();
+            expect(toTable([])).toBeNull();
+            expect(toTable(['a', 'b'])).toBeNull();
+            expect(toTable({ a: [{ x: 1 }], b: [{ y: 2 }] })).toBeNull();
+        });
+    });
+
+    describe('formatResult', () => {
+        it('should default to pretty-printed json', () => {
+            expect(formatResult(queryResult)).toBe(JSON.stringify(queryResult, null, 2));
+        });
+
+        it('should render csv with extras as comment lines', () => {
+            expect(formatResult(queryResult, 'csv')).toBe(
+                [
+                    '# datasource: Sample ECommerce',
+                    '# rowCount: 2',
+                    'Country,Revenue',
+                    'France,1200.5',
+                    'United States,',
+                ].join('\n')
+            );
+        });
+
+        it('should quote csv values with separators, quotes and line breaks', () => {
+            const csv = formatResult(
+                { headers: ['Name'], rows: [['a,b'], ['say "hi"'], ['two\nlines'], [' pad']] },
+                'csv'
+            );
+
+            expect(csv.split('\n').slice(1, 3)).toEqual(['"a,b"', '"say ""hi"""']);
+            expect(csv).toContain('"two\nlines"');
+            expect(csv).toContain('" pad"');
+        });
+
+        it('should render a markdown table', () => {
+            expect(formatResult(queryResult, 'markdown')).toBe(
+                [
+                    '**datasource**: Sample ECommerce',
+                    '**rowCount**: 2',
+                    '',
+                    '| Country | Revenue |',
+                    '| --- | --- |',
+                    '| France | 1200.5 |',
+                    '| United States |  |',
+                ].join('\n')
+            );
+        });
+
+        it('should escape pipes and line breaks in markdown cells', () => {
+            const markdown = formatResult({ headers: ['A|B'], rows: [['x|y\nz']] }, 'markdown');
+
+            expect(markdown).toContain('| A\\|B |');
+            expect(markdown).toContain('| x\\|y z |');
+        });
+
+        it('should render nested values as compact json', () => {
+            const csv = formatResult([{ oid: 'a', owner: { id: 'u1' } }], 'csv');
+
+            expect(csv).toBe('oid,owner\na,"{""id"":""u1""}"');
+        });
+
+        it('should fall back to json for non-tabular results', () => {
+            const info = { version: '2024.1' };
+
+            expect(formatResult(info, 'csv')).toBe(JSON.stringify(info, null, 2));
+            expect(formatResult(info, 'markdown')).toBe(JSON.stringify(info, null, 2));
+        });
+    });
+});
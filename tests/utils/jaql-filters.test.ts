@@ -0,0 +1,73 @@
+import { toJaqlFilter } from '../../src/utils/jaql-filters.js';
+
+describe('JAQL Filter Utils', () => {
+    describe('toJaqlFilter', () => {
+        const dim = '[Commerce.Date]';
+
+        it('should compile member lists', () => {
+            expect(toJaqlFilter(dim, { members: ['a', 'b'] })).toEqual({
+                dim,
+                filter: { members: ['a', 'b'] },
+            });
+            expect(toJaqlFilter(dim, { members: ['a'], exclude: true })).toEqual({
+                dim,
+                filter: { exclude: { members: ['a'] } },
+            });
+        });
+
+        it('should compile date ranges at day level by default', () => {
+            expect(toJaqlFilter(dim, { dateRange: { from: '2024-01-01' } })).toEqual({
+                dim,
+                datatype: 'datetime',
+                level: 'days',
+                filter: { from: '2024-01-01' },
+            });
+            expect(
+                toJaqlFilter(dim, {
+                    dateRange: { from: '2024-01-01', to: '2024-12-31' },
+                    level: 'months',
+                })
+            ).toEqual({
+                dim,
+                datatype: 'datetime',
+                level: 'months',
+                filter: { from: '2024-01-01', to: '2024-12-31' },
+            });
+        });
+
+        it('should compile relative date periods', () => {
+            expect(
+                toJaqlFilter(dim, {
+                    relative: { period: 'last', count: 1, offset: 1 },
+                    level: 'quarters',
+                })
+            ).toEqual({
+                dim,
+                datatype: 'datetime',
+                level: 'quarters',
+                filter: { last: { count: 1, offset: 1 } },
+            });
+            expect(
+                toJaqlFilter(dim, { relative: { period: 'next', count: 2 }, level: 'months' })
+            ).toEqual({
+                dim,
+                datatype: 'datetime',
+                level: 'months',
+                filter: { next: { count: 2, offset: 0 } },
+            });
+        });
+
+        it('should compile numeric ranges', () => {
+            expect(
+                toJaqlFilter('[Commerce.Revenue]', { numericRange: { min: 10, max: 20 } })
+            ).toEqual({
+                dim: '[Commerce.Revenue]',
+                filter: { from: 10, to: 20 },
+            });
+            expect(toJaqlFilter('[Commerce.Revenue]', { numericRange: { max: 20 } })).toEqual({
+                dim: '[Commerce.Revenue]',
+                filter: { to: 20 },
+            });
+        });
+    });
+});
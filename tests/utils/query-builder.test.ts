@@ -0,0 +1,139 @@
+import { compileQuery } from '../../src/utils/query-builder.js';
+import { ExternalServiceError, ValidationError } from '../../src/types/index.js';
+
+describe('Query Builder Utils', () => {
+    describe('compileQuery', () => {
+        const columns = [
+            { dim: '[Commerce.Country]', dataType: 'text' },
+            { dim: '[Commerce.Revenue]', dataType: 'numeric' },
+            { dim: '[Commerce.Order ID]', dataType: 'numeric' },
+            { dim: '[Commerce.Date]', dataType: 'datetime' },
+        ] as const;
+
+        it('should compile dimensions, measures, sort and limit', () => {
+            const compiled = compileQuery(
+                {
+                    datasource: 'Sample ECommerce',
+                    dimensions: [{ field: 'Commerce.Country' }],
+                    measures: [
+                        { field: '[Commerce.Revenue]', aggregation: 'sum' },
+                        {
+                            field: 'Commerce.Order ID',
+                            aggregation: 'countDistinct',
+                            title: 'Orders',
+                        },
+                    ],
+                    sort: { field: 'Commerce.Revenue', direction: 'desc' },
+                    limit: 10,
+                },
+                columns
+            );
+
+            expect(compiled).toEqual({
+                datasource: 'Sample ECommerce',
+                jaql: {
+                    metadata: [
+                        { jaql: { dim: '[Commerce.Country]', title: 'Country' }, panel: 'rows' },
+                        {
+                            jaql: {
+                                dim: '[Commerce.Revenue]',
+                                agg: 'sum',
+                                title: 'sum of Revenue',
+                                sort: 'desc',
+                            },
+                            panel: 'measures',
+                        },
+                        {
+                            jaql: { dim: '[Commerce.Order ID]', agg: 'count', title: 'Orders' },
+                            panel: 'measures',
+                        },
+                    ],
+                    count: 10,
+                },
+            });
+        });
+
+        it('should map count to JAQL countduplicates', () => {
+            const compiled = compileQuery(
+                {
+                    datasource: 'Sample',
+                    measures: [{ field: 'Commerce.Order ID', aggregation: 'count' }],
+                },
+                columns
+            );
+
+            expect(compiled.jaql.metadata[0]?.jaql['agg']).toBe('countduplicates');
+        });
+
+        it('should treat date columns as datetime dimensions and filters', () => {
+            const compiled = compileQuery(
+                {
+                    datasource: 'Sample',
+                    dimensions: [{ field: 'Commerce.Date', level: 'months' }],
+                    filters: { '[Commerce.Date]': { members: ['2024-01-01T00:00:00'] } },
+                },
+                columns
+            );
+
+            expect(compiled.jaql.metadata).toEqual([
+                {
+                    jaql: {
+                        dim: '[Commerce.Date]',
+                        title: 'Date',
+                        datatype: 'datetime',
+                        level: 'months',
+                    },
+                    panel: 'rows',
+                },
+                {
+                    jaql: {
+                        dim: '[Commerce.Date]',
+                        filter: { members: ['2024-01-01T00:00:00'] },
+                        datatype: 'datetime',
+                        level: 'days',
+                    },
+                    panel: 'scope',
+                },
+            ]);
+        });
+
+        it('should reject unknown fields and suggest case-insensitive matches', () => {
+            expect.assertions(2);
+            try {
+                compileQuery(
+                    {
+                        datasource: 'Sample',
+                        dimensions: [{ field: 'commerce.country' }, { field: 'Commerce.Missing' }],
+                    },
+                    columns
+                );
+            } catch (error) {
+                expect(error).toBeInstanceOf(ValidationError);
+                expect((error as ValidationError).context).toEqual({
+                    datasource: 'Sample',
+                    unknownFields: ['[commerce.country]', '[Commerce.Missing]'],
+                    suggestions: { '[commerce.country]': '[Commerce.Country]' },
+                });
+            }
+        });
+
+        it('should reject a sort field that is not selected', () => {
+            expect(() =>
+                compileQuery(
+                    {
+                        datasource: 'Sample',
+                        dimensions: [{ field: 'Commerce.Country' }],
+                        sort: { field: 'Commerce.Revenue', direction: 'asc' },
+                    },
+                    columns
+                )
+            ).toThrow(ValidationError);
+        });
+
+        it('should fail when the schema has no columns', () => {
+            expect(() =>
+                compileQuery({ datasource: 'Sample', dimensions: [{ field: 'Any.Field' }] }, [])
+            ).toThrow(ExternalServiceError);
+        });
+    });
+});
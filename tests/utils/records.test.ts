@@ -0,0 +1,32 @@
+import { asRecord, asRecords, asString, datasourceTitle } from '../../src/utils/records.js';
+
+describe('Record Utils', () => {
+    it('should treat anything but a plain object as an empty record', () => {
+        expect(asRecord({ oid: 'd1' })).toEqual({ oid: 'd1' });
+        expect(asRecord(null)).toEqual({});
+        expect(asRecord(['d1'])).toEqual({});
+    });
+
+    it('should keep only the objects in an array', () => {
+        expect(asRecords([{ oid: 'w1' }, null, 'w2', [], { oid: 'w3' }])).toEqual([
+            { oid: 'w1' },
+            { oid: 'w3' },
+        ]);
+        expect(asRecords({ oid: 'w1' })).toEqual([]);
+    });
+
+    it('should return only non-empty strings', () => {
+        expect(asString('Sales')).toBe('Sales');
+        expect(asString('')).toBeUndefined();
+        expect(asString(42)).toBeUndefined();
+    });
+
+    it('should read a datasource title from a string or an object', () => {
+        expect(datasourceTitle('Sample ECommerce')).toBe('Sample ECommerce');
+        expect(datasourceTitle({ title: 'Sample ECommerce', live: false })).toBe(
+            'Sample ECommerce'
+        );
+        expect(datasourceTitle({ id: 'ds1' })).toBeUndefined();
+        expect(datasourceTitle(undefined)).toBeUndefined();
+    });
+});
@@ -0,0 +1,58 @@
+import { getBackoffDelay, parseRetryAfter, sleep } from '../../src/utils/retry.js';
+
+describe('Retry Utils', () => {
+    describe('getBackoffDelay', () => {
+        const policy = { baseDelayMs: 100, maxDelayMs: 1000 };
+
+        it('should grow exponentially with the attempt number', () => {
+            expect(getBackoffDelay(1, policy, () => 1)).toBe(100);
+            expect(getBackoffDelay(2, policy, () => 1)).toBe(200);
+            expect(getBackoffDelay(3, policy, () => 1)).toBe(400);
+        });
+
+        it('should cap the delay at maxDelayMs', () => {
+            expect(getBackoffDelay(10, policy, () => 1)).toBe(1000);
+        });
+
+        it('should apply jitter to half of the delay', () => {
+            expect(getBackoffDelay(2, policy, () => 0)).toBe(100);
+            expect(getBackoffDelay(2, policy, () => 0.5)).toBe(150);
+        });
+    });
+
+    describe('parseRetryAfter', () => {
+        it('should parse delta seconds', () => {
+            expect(parseRetryAfter('2')).toBe(2000);
+            expect(parseRetryAfter('0.5')).toBe(500);
+        });
+
+        it('should parse HTTP dates relative to now', () => {
+            const now = Date.parse('2025-01-01T00:00:00Z');
+            expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:03 GMT', now)).toBe(3000);
+            expect(parseRetryAfter('Tue, 31 Dec 2024 23:59:00 GMT', now)).toBe(0);
+        });
+
+        it('should return null for missing or invalid values', () => {
+            expect(parseRetryAfter(null)).toBeNull();
+            expect(parseRetryAfter(undefined)).toBeNull();
+            expect(parseRetryAfter('soon')).toBeNull();
+        });
+    });
+
+    describe('sleep', () => {
+        it('should reject with the abort reason when the signal aborts', async () => {
+            const controller = new AbortController();
+            const waiting = sleep(60000, controller.signal);
+
+            controller.abort(new Error('stop'));
+
+            await expect(waiting).rejects.toThrow('stop');
+        });
+
+        it('should reject right away for an aborted signal', async () => {
+            await expect(sleep(60000, AbortSignal.abort(new Error('gone')))).rejects.toThrow(
+                'gone'
+            );
+        });
+    });
+});
@@ -0,0 +1,60 @@
+import type { ToolDefinition } from '../../src/types/index.js';
+import { ToolNotAllowedError } from '../../src/types/index.js';
+import { globToRegExp, ToolPolicy } from '../../src/utils/tool-policy.js';
+
+const tool = (name: string, readOnlyHint = true): ToolDefinition => ({
+    name,
+    description: name,
+    inputSchema: { type: 'object', properties: {} },
+    annotations: { readOnlyHint },
+});
+
+describe('Tool Policy Utils', () => {
+    describe('globToRegExp', () => {
+        it('should match * and ? wildcards against the whole name', () => {
+            expect(globToRegExp('list_*').test('list_cubes')).toBe(true);
+            expect(globToRegExp('list_*').test('get_list_cubes')).toBe(false);
+            expect(globToRegExp('get_?ashboard').test('get_dashboard')).toBe(true);
+            expect(globToRegExp('get.dashboard').test('get_dashboard')).toBe(false);
+        });
+    });
+
+    describe('ToolPolicy', () => {
+        it('should only allow read-only tools in read-only mode', () => {
+            const policy = new ToolPolicy({ readOnly: true, allow: [], deny: [] });
+
+            expect(policy.isAllowed(tool('list_cubes'))).toBe(true);
+            expect(policy.isAllowed(tool('trigger_build', false))).toBe(false);
+        });
+
+        it('should only allow listed tools when an allow list is set', () => {
+            const policy = new ToolPolicy({ readOnly: false, allow: ['get_*'], deny: [] });
+
+            expect(policy.isAllowed(tool('get_dashboard'))).toBe(true);
+            expect(policy.isAllowed(tool('list_cubes'))).toBe(false);
+        });
+
+        it('should let the deny list win over the allow list', () => {
+            const policy = new ToolPolicy({
+                readOnly: false,
+                allow: ['*'],
+                deny: ['trigger_*'],
+            });
+
+            expect(policy.isAllowed(tool('trigger_build', false))).toBe(false);
+            expect(policy.isAllowed(tool('list_builds'))).toBe(true);
+        });
+
+        it('should throw ToolNotAllowedError with the reason', () => {
+            const policy = new ToolPolicy({ readOnly: true, allow: [], deny: [] });
+
+            expect(() => policy.assertAllowed(tool('trigger_build', false))).toThrow(
+                ToolNotAllowedError
+            );
+            expect(() => policy.assertAllowed(tool('trigger_build', false))).toThrow(
+                /read-only mode/
+            );
+            expect(() => policy.assertAllowed(tool('list_cubes'))).not.toThrow();
+        });
+    });
+});
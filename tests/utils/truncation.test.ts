@@ -0,0 +1,101 @@
+import { summarizeColumns, truncateResponse } from '../../src/utils/truncation.js';
+
+describe('Truncation Utils', () => {
+    const result = {
+        headers: ['Country', 'Revenue'],
+        rows: Array.from({ length: 50 }, (_, index) => [`Country ${index + 1}`, index + 1]),
+        rowCount: 50,
+    };
+
+    describe('truncateResponse', () => {
+        it('should leave responses within the limit unchanged', () => {
+            const response = truncateResponse(result, { maxChars: 100000 });
+
+            expect(response).toEqual({ text: JSON.stringify(result, null, 2) });
+        });
+
+        it('should not truncate when the limit is 0', () => {
+            expect(truncateResponse(result, { maxChars: 0 }).note).toBeUndefined();
+        });
+
+        it('should keep the leading rows that fit and describe the omitted range', () => {
+            const response = truncateResponse(result, {
+                maxChars: 1200,
+                pagingHint: shown => `Use offset ${shown}.`,
+            });
+            const shown = (JSON.parse(response.text) as { rows: unknown[][] }).rows;
+
+            expect(shown.length).toBeGreaterThan(0);
+            expect(shown.length).toBeLessThan(50);
+            expect(shown[0]).toEqual(['Country 1', 1]);
+            expect(response.text.length + (response.note?.length ?? 0)).toBeLessThanOrEqual(1200);
+            expect(response.note).toContain(
+                `showing rows 1-${shown.length} of 50; rows ${shown.length + 1}-50 were omitted`
+            );
+            expect(response.note).toContain('- Revenue: 50 values, 50 distinct, sum 1275');
+            expect(response.note).toContain(`Use offset ${shown.length}.`);
+        });
+
+        it('should truncate formatted output', () => {
+            const response = truncateResponse(result, { maxChars: 400, format: 'csv' });
+
+            expect(response.text.startsWith('# rowCount: 50\nCountry,Revenue\nCountry 1,1')).toBe(
+                true
+            );
+            expect(response.note).toMatch(/showing rows 1-\d+ of 50/);
+        });
+
+        it('should cut rows with the given slice function', () => {
+            const response = truncateResponse(result, {
+                maxChars: 1200,
+                sliceRows: shown => ({ rows: result.rows.slice(0, shown), next: shown }),
+            });
+            const shown = JSON.parse(response.text) as { rows: unknown[][]; next: number };
+
+            expect(shown.next).toBe(shown.rows.length);
+        });
+
+        it('should return only the column summary when no rows fit', () => {
+            const response = truncateResponse(result, { maxChars: 150 });
+
+            expect(response.note).toBeUndefined();
+            expect(JSON.parse(response.text)).toMatchObject({
+                truncated: true,
+                totalRows: 50,
+                columns: [
+                    { column: 'Country', count: 50, distinct: 50 },
+                    { column: 'Revenue', count: 50, distinct: 50, sum: 1275 },
+                ],
+            });
+        });
+
+        it('should cut non-tabular responses at the limit', () => {
+            const response = truncateResponse({ description: 'x'.repeat(500) }, { maxChars: 100 });
+
+            expect(response.text).toHaveLength(100);
+            expect(response.note).toContain('showing the first 100 of');
+        });
+    });
+
+    describe('summarizeColumns', () => {
+        it('should aggregate numeric columns and count distinct values', () => {
+            const summary = summarizeColumns({
+                headers: ['Region', 'Sales'],
+                rows: [
+                    ['EMEA', 10],
+                    ['EMEA', 5.5],
+                    ['APAC', null],
+                ],
+            });
+
+            expect(summary).toEqual([
+                { column: 'Region', count: 3, distinct: 2 },
+                { column: 'Sales', count: 2, distinct: 2, sum: 15.5, min: 5.5, max: 10, avg: 7.75 },
+            ]);
+        });
+
+        it('should return no columns for non-tabular results', () => {
+            expect(summarizeColumns({ version: '2024.1' })).toEqual([]);
+        });
+    });
+});
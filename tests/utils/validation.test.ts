@@ -1,10 +1,12 @@
 import {
     validateInput,
     validateResourceUri,
+    parseResourceUri,
     validateDashboardId,
     validateCubeId,
     validateQuery,
     validateSisenseConfig,
+    validateJaqlQuery,
     dashboardIdSchema,
     cubeIdSchema,
     querySchema,
@@ -61,6 +63,35 @@ describe('Validation Utils', () => {
         });
     });
 
+    describe('parseResourceUri', () => {
+        it('should match each resource template and extract its parameters', () => {
+            expect(parseResourceUri('sisense://dashboard/123')).toEqual({
+                type: 'dashboard',
+                params: { dashboardId: '123' },
+            });
+            expect(parseResourceUri('sisense://dashboard/123/widget/w-1')).toEqual({
+                type: 'widget',
+                params: { dashboardId: '123', widgetId: 'w-1' },
+            });
+            expect(parseResourceUri('sisense://folder/f_1')).toEqual({
+                type: 'folder',
+                params: { folderId: 'f_1' },
+            });
+            expect(parseResourceUri('sisense://cube/456')).toEqual({
+                type: 'cube',
+                params: { cubeId: '456' },
+            });
+        });
+
+        it('should reject URIs that match no template', () => {
+            expect(() => parseResourceUri('sisense://dashboard/123/widget')).toThrow(
+                ValidationError
+            );
+            expect(() => parseResourceUri('sisense://cube/456/extra')).toThrow(ValidationError);
+            expect(() => parseResourceUri('sisense://folder/a%2Fb')).toThrow(ValidationError);
+        });
+    });
+
     describe('validateDashboardId', () => {
         it('should validate correct dashboard ID', () => {
             const result = validateDashboardId('dashboard-123');
@@ -122,6 +153,46 @@ describe('Validation Utils', () => {
         });
     });
 
+    describe('validateJaqlQuery', () => {
+        it('should accept dimensions, measures and filters', () => {
+            const jaql = {
+                metadata: [
+                    { jaql: { dim: '[Commerce.Country]' }, panel: 'rows' },
+                    { jaql: { dim: '[Commerce.Revenue]', agg: 'sum' }, panel: 'measures' },
+                    {
+                        jaql: {
+                            formula: 'SUM([r]) / COUNT([o])',
+                            context: { '[r]': {}, '[o]': {} },
+                        },
+                    },
+                    {
+                        jaql: { dim: '[Commerce.Year]', filter: { members: ['2024'] } },
+                        panel: 'scope',
+                    },
+                ],
+                count: 100,
+                offset: 0,
+            };
+            expect(validateJaqlQuery(jaql)).toEqual(jaql);
+        });
+
+        it('should throw ValidationError for empty metadata', () => {
+            expect(() => validateJaqlQuery({ metadata: [] })).toThrow(ValidationError);
+        });
+
+        it('should throw ValidationError when an element has neither dim nor formula', () => {
+            expect(() => validateJaqlQuery({ metadata: [{ jaql: { agg: 'sum' } }] })).toThrow(
+                ValidationError
+            );
+        });
+
+        it('should throw ValidationError for invalid paging', () => {
+            const metadata = [{ jaql: { dim: '[Commerce.Country]' } }];
+            expect(() => validateJaqlQuery({ metadata, count: 0 })).toThrow(ValidationError);
+            expect(() => validateJaqlQuery({ metadata, offset: -1 })).toThrow(ValidationError);
+        });
+    });
+
     describe('validateSisenseConfig', () => {
         it('should validate correct Sisense config', () => {
             const config = {
@@ -149,6 +220,24 @@ describe('Validation Utils', () => {
                 })
             ).toThrow(ValidationError);
         });
+
+        it('should accept username and password instead of an API key', () => {
+            const config = {
+                url: 'https://sisense.example.com',
+                username: 'analyst',
+                password: 'secret',
+            };
+            expect(validateSisenseConfig(config)).toEqual(config);
+        });
+
+        it('should throw ValidationError for a username without a password', () => {
+            expect(() =>
+                validateSisenseConfig({
+                    url: 'https://sisense.example.com',
+                    username: 'analyst',
+                })
+            ).toThrow(ValidationError);
+        });
     });
 
     describe('Schema definitions', () => {
@@ -0,0 +1,197 @@
+import { buildWidgetQuery } from '../../src/utils/widget-jaql.js';
+import { ValidationError } from '../../src/types/index.js';
+
+describe('Widget JAQL Utils', () => {
+    describe('buildWidgetQuery', () => {
+        const widget = {
+            oid: 'w1',
+            datasource: { title: 'Sample ECommerce', fullname: 'localhost/Sample ECommerce' },
+            metadata: {
+                panels: [
+                    { name: 'rows', items: [{ jaql: { dim: '[Commerce.Country]' } }] },
+                    {
+                        name: 'values',
+                        items: [
+                            { jaql: { dim: '[Commerce.Revenue]', agg: 'sum' } },
+                            { jaql: { dim: '[Commerce.Cost]', agg: 'sum' }, disabled: true },
+                        ],
+                    },
+                    {
+                        name: 'filters',
+                        items: [
+                            { jaql: { dim: '[Commerce.Gender]', filter: { members: ['Female'] } } },
+                        ],
+                    },
+                ],
+            },
+        };
+
+        const dashboard = {
+            oid: 'd1',
+            datasource: { title: 'Other' },
+            filters: [
+                {
+                    instanceid: 'f1',
+                    jaql: { dim: '[Commerce.Year]', filter: { members: ['2024'] } },
+                },
+                {
+                    instanceid: 'f2',
+                    disabled: true,
+                    jaql: { dim: '[Commerce.Region]', filter: { members: ['EMEA'] } },
+                },
+                {
+                    instanceid: 'f3',
+                    levels: [
+                        { jaql: { dim: '[Category.Category]', filter: { members: ['Bikes'] } } },
+                        { jaql: { dim: '[Brand.Brand]', filter: { all: true } } },
+                    ],
+                },
+            ],
+        };
+
+        it('should map widget panels and merge enabled dashboard filters', () => {
+            const query = buildWidgetQuery(widget, dashboard);
+
+            expect(query.datasource).toBe('Sample ECommerce');
+            expect(query.jaql.metadata).toEqual([
+                { jaql: { dim: '[Commerce.Country]' }, panel: 'rows' },
+                { jaql: { dim: '[Commerce.Revenue]', agg: 'sum' }, panel: 'measures' },
+                {
+                    jaql: { dim: '[Commerce.Gender]', filter: { members: ['Female'] } },
+                    panel: 'scope',
+                },
+                {
+                    jaql: { dim: '[Commerce.Year]', filter: { members: ['2024'] } },
+                    panel: 'scope',
+                },
+                {
+                    jaql: { dim: '[Category.Category]', filter: { members: ['Bikes'] } },
+                    panel: 'scope',
+                },
+                { jaql: { dim: '[Brand.Brand]', filter: { all: true } }, panel: 'scope' },
+            ]);
+        });
+
+        it('should skip dashboard filters the widget ignores', () => {
+            const ignoring = {
+                ...widget,
+                metadata: {
+                    ...widget.metadata,
+                    ignore: { all: false, ids: ['f1'], dimensions: ['[Brand.Brand]'] },
+                },
+            };
+
+            const dims = buildWidgetQuery(ignoring, dashboard).jaql.metadata.map(
+                item => item.jaql['dim']
+            );
+
+            expect(dims).not.toContain('[Commerce.Year]');
+            expect(dims).not.toContain('[Brand.Brand]');
+            expect(dims).toContain('[Category.Category]');
+        });
+
+        it('should skip all dashboard filters when the widget ignores them all', () => {
+            const ignoring = { ...widget, metadata: { ...widget.metadata, ignore: { all: true } } };
+
+            const query = buildWidgetQuery(ignoring, dashboard);
+
+            expect(query.jaql.metadata).toHaveLength(3);
+        });
+
+        it('should replace saved filters on overridden dimensions', () => {
+            const query = buildWidgetQuery(widget, dashboard, {
+                filters: {
+                    '[Commerce.Year]': { members: ['2023'] },
+                    '[Commerce.Gender]': { members: ['Male'], exclude: true },
+                    '[Commerce.Region]': { members: ['EMEA'] },
+                },
+            });
+
+            expect(query.filters).toEqual([
+                {
+                    dim: '[Category.Category]',
+                    source: 'dashboard',
+                    jaql: { dim: '[Category.Category]', filter: { members: ['Bikes'] } },
+                },
+                {
+                    dim: '[Brand.Brand]',
+                    source: 'dashboard',
+                    jaql: { dim: '[Brand.Brand]', filter: { all: true } },
+                },
+                {
+                    dim: '[Commerce.Year]',
+                    source: 'override',
+                    jaql: { dim: '[Commerce.Year]', filter: { members: ['2023'] } },
+                },
+                {
+                    dim: '[Commerce.Gender]',
+                    source: 'override',
+                    jaql: { dim: '[Commerce.Gender]', filter: { exclude: { members: ['Male'] } } },
+                },
+                {
+                    dim: '[Commerce.Region]',
+                    source: 'override',
+                    jaql: { dim: '[Commerce.Region]', filter: { members: ['EMEA'] } },
+                },
+            ]);
+            expect(query.jaql.metadata.filter(item => item.panel === 'scope')).toEqual(
+                query.filters.map(filter => ({ jaql: filter.jaql, panel: 'scope' }))
+            );
+        });
+
+        it('should match overrides to saved filters ignoring case and the Calendar suffix', () => {
+            const dated = {
+                ...dashboard,
+                filters: [
+                    {
+                        instanceid: 'f4',
+                        jaql: {
+                            dim: '[Commerce.Date (Calendar)]',
+                            level: 'years',
+                            filter: { members: ['2024-01-01T00:00:00'] },
+                        },
+                    },
+                ],
+            };
+
+            const query = buildWidgetQuery(widget, dated, {
+                filters: {
+                    '[Commerce.Date]': { dateRange: { from: '2023-01-01' } },
+                    '[commerce.gender]': { members: ['Male'] },
+                },
+            });
+
+            expect(query.filters.map(filter => [filter.dim, filter.source])).toEqual([
+                ['[Commerce.Date]', 'override'],
+                ['[commerce.gender]', 'override'],
+            ]);
+        });
+
+        it('should drop dashboard filters in replace mode but keep widget filters', () => {
+            const query = buildWidgetQuery(widget, dashboard, {
+                filters: { '[Commerce.Region]': { members: ['EMEA'] } },
+                filterMode: 'replace',
+            });
+
+            expect(query.filters.map(filter => [filter.dim, filter.source])).toEqual([
+                ['[Commerce.Gender]', 'widget'],
+                ['[Commerce.Region]', 'override'],
+            ]);
+        });
+
+        it('should fall back to the dashboard datasource', () => {
+            const { datasource: _datasource, ...withoutDatasource } = widget;
+
+            expect(buildWidgetQuery(withoutDatasource, dashboard).datasource).toBe('Other');
+        });
+
+        it('should throw ValidationError when the widget has nothing to query', () => {
+            expect(() =>
+                buildWidgetQuery({ datasource: 'Sample', metadata: { panels: [] } }, dashboard)
+            ).toThrow(ValidationError);
+            expect(() => buildWidgetQuery({ metadata: widget.metadata }, {})).toThrow(
+                ValidationError
+            );
+        });
+    });
+});